@@ -10,6 +10,7 @@ import ReportScreen from './src/screens/ReportScreen';
 import AdminScreen from './src/screens/AdminScreen';
 import LoginScreen from './src/screens/auth/LoginScreen';
 import DeviceBlockedScreen from './src/screens/auth/DeviceBlockedScreen';
+import TwoFactorSetupScreen from './src/screens/TwoFactorSetupScreen';
 
 export type RootTabParamList = {
   CheckIn: undefined;
@@ -39,7 +40,7 @@ function AuthScreens() {
 }
 
 function MainApp() {
-  const { loading, user, signOut, isAdmin, deviceBlocked } = useAuth();
+  const { loading, user, signOut, isAdmin, isManager, deviceBlocked } = useAuth();
 
   if (loading) {
     return (
@@ -59,6 +60,11 @@ function MainApp() {
     return <AuthScreens />;
   }
 
+  // Admin features stay locked until mandatory two-factor enrollment is done
+  if (isAdmin && user.totp_required && !user.totp_enabled) {
+    return <TwoFactorSetupScreen />;
+  }
+
   return (
     <>
       <StatusBar style="auto" />
@@ -94,11 +100,11 @@ function MainApp() {
           component={ReportScreen}
           options={{ tabBarLabel: 'Report' }}
         />
-        {isAdmin && (
+        {(isAdmin || isManager) && (
           <Tab.Screen
             name="Admin"
             component={AdminScreen}
-            options={{ tabBarLabel: 'Admin' }}
+            options={{ tabBarLabel: isAdmin ? 'Admin' : 'Team' }}
           />
         )}
       </Tab.Navigator>
@@ -108,6 +114,7 @@ function MainApp() {
         <Text style={styles.userText} numberOfLines={1}>
           {user?.full_name || user?.email}
           {isAdmin && ' (Admin)'}
+          {isManager && ' (Manager)'}
         </Text>
         <TouchableOpacity style={styles.signOutButton} onPress={signOut}>
           <Text style={styles.signOutText}>Sign Out</Text>
@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  globalSetup: '<rootDir>/src/__tests__/globalSetup.ts',
+  setupFiles: ['<rootDir>/src/__tests__/env.ts'],
+};
@@ -0,0 +1,29 @@
+-- One-off backfill for databases created before organizations existed.
+-- Run it once, before `prisma db push`, so the new required organization_id
+-- columns can be added to tables that already have rows. Every existing row is
+-- moved into a single organization; rename it afterwards if needed.
+
+CREATE TABLE IF NOT EXISTS "organizations" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+INSERT INTO "organizations" ("id", "name")
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default organization')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+ALTER TABLE "attendance" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+ALTER TABLE "departments" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+ALTER TABLE "teams" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+
+UPDATE "users" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
+UPDATE "locations" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
+UPDATE "attendance" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
+UPDATE "sessions" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
+UPDATE "departments" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
+UPDATE "teams" SET "organization_id" = '00000000-0000-0000-0000-000000000001' WHERE "organization_id" IS NULL;
@@ -0,0 +1,5 @@
+// Runs before any module is loaded, so every PrismaClient the app creates connects to the test database
+process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+// Admins act without enrolling in 2FA, so a 403 always comes from the organization checks
+process.env.ADMIN_TOTP_REQUIRED = 'false';
+process.env.MAIL_TRANSPORT = 'console';
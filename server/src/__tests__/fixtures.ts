@@ -0,0 +1,197 @@
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import { generateToken } from '../services/auth';
+import { fromDateString } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// One of everything an organization owns, so each org-scoped route has something to point at
+export interface SeededOrganization {
+  organization_id: string;
+  admin: User;
+  manager: User;
+  employee: User;
+  tokens: Record<'admin' | 'manager' | 'employee', string>;
+  location_id: string;
+  calendar_id: string;
+  holiday_id: string;
+  department_id: string;
+  team_id: string;
+  check_in_id: string;
+  check_out_id: string; // an unconfirmed auto check-out
+  session_id: string;
+  schedule_id: string;
+  exception_id: string;
+  correction_id: string;
+  leave_type_id: string;
+  leave_request_id: string;
+  audit_event_id: string;
+}
+
+export async function seedOrganization(label: string): Promise<SeededOrganization> {
+  const organization = await prisma.organization.create({ data: { name: `${label} Corp` } });
+  const organization_id = organization.id;
+
+  const createUser = (role: UserRole) =>
+    prisma.user.create({
+      data: { organization_id, role, email: `${role}@${label}.test`, full_name: `${label} ${role}` },
+    });
+  const admin = await createUser('admin');
+  const manager = await createUser('manager');
+  const employee = await createUser('employee');
+
+  const calendar = await prisma.holidayCalendar.create({ data: { organization_id, name: `${label} holidays` } });
+  const holiday = await prisma.holiday.create({
+    data: { calendar_id: calendar.id, date: fromDateString('2025-12-25'), name: 'Christmas Day' },
+  });
+
+  const location = await prisma.location.create({
+    data: {
+      organization_id,
+      name: `${label} office`,
+      latitude: 51.5,
+      longitude: -0.12,
+      radius_meters: 100,
+      holiday_calendar_id: calendar.id,
+      created_by: admin.id,
+    },
+  });
+  await prisma.userLocation.createMany({
+    data: [manager, employee].map((user) => ({ user_id: user.id, location_id: location.id })),
+  });
+
+  const department = await prisma.department.create({ data: { organization_id, name: `${label} operations` } });
+  const team = await prisma.team.create({
+    data: {
+      organization_id,
+      name: `${label} floor`,
+      department_id: department.id,
+      members: { create: [{ user_id: manager.id }, { user_id: employee.id }] },
+    },
+  });
+
+  const punch = { organization_id, user_id: employee.id, location_id: location.id, latitude: 51.5, longitude: -0.12 };
+  const checkIn = await prisma.attendance.create({
+    data: { ...punch, status: 'check_in', timestamp: new Date('2025-06-02T08:05:00Z') },
+  });
+  const checkOut = await prisma.attendance.create({
+    data: { ...punch, status: 'check_out', timestamp: new Date('2025-06-02T16:00:00Z'), auto: true },
+  });
+  const session = await prisma.session.create({
+    data: {
+      organization_id,
+      user_id: employee.id,
+      location_id: location.id,
+      check_in_id: checkIn.id,
+      check_out_id: checkOut.id,
+      started_at: checkIn.timestamp,
+      ended_at: checkOut.timestamp,
+      duration_minutes: 475,
+    },
+  });
+
+  const schedule = await prisma.schedule.create({
+    data: { organization_id, user_id: employee.id, location_id: location.id, weekday: 1, start_minute: 480, end_minute: 960 },
+  });
+  const exception = await prisma.attendanceException.create({
+    data: {
+      organization_id,
+      user_id: employee.id,
+      location_id: location.id,
+      schedule_id: schedule.id,
+      session_id: session.id,
+      type: 'late_arrival',
+      date: fromDateString('2025-06-02'),
+      expected_at: new Date('2025-06-02T08:00:00Z'),
+      actual_at: checkIn.timestamp,
+      minutes: 5,
+    },
+  });
+
+  const correction = await prisma.correctionRequest.create({
+    data: {
+      organization_id,
+      user_id: employee.id,
+      type: 'change_time',
+      attendance_id: checkIn.id,
+      timestamp: new Date('2025-06-02T07:58:00Z'),
+      reason: 'Checked in late by mistake',
+    },
+  });
+
+  const leaveType = await prisma.leaveType.create({ data: { organization_id, name: 'Vacation', annual_days: 20 } });
+  const leaveRequest = await prisma.leaveRequest.create({
+    data: {
+      organization_id,
+      user_id: employee.id,
+      leave_type_id: leaveType.id,
+      start_date: fromDateString('2025-07-01'),
+      end_date: fromDateString('2025-07-01'),
+      dates: ['2025-07-01'],
+    },
+  });
+
+  const auditEvent = await prisma.auditEvent.create({
+    data: {
+      organization_id,
+      actor_id: admin.id,
+      actor_email: admin.email,
+      action: 'location.create',
+      target_type: 'location',
+      target_id: location.id,
+    },
+  });
+
+  return {
+    organization_id,
+    admin,
+    manager,
+    employee,
+    tokens: { admin: generateToken(admin), manager: generateToken(manager), employee: generateToken(employee) },
+    location_id: location.id,
+    calendar_id: calendar.id,
+    holiday_id: holiday.id,
+    department_id: department.id,
+    team_id: team.id,
+    check_in_id: checkIn.id,
+    check_out_id: checkOut.id,
+    session_id: session.id,
+    schedule_id: schedule.id,
+    exception_id: exception.id,
+    correction_id: correction.id,
+    leave_type_id: leaveType.id,
+    leave_request_id: leaveRequest.id,
+    audit_event_id: auditEvent.id,
+  };
+}
+
+// Every id of the seeded records; none of them may show up in another organization's responses
+export function seededIds(org: SeededOrganization): string[] {
+  const { admin, manager, employee, tokens: _tokens, ...ids } = org;
+  return [admin.id, manager.id, employee.id, ...Object.values(ids)];
+}
+
+// Everything the organization owns, to check that rejected requests changed nothing
+export async function snapshotOrganization(organization_id: string) {
+  const [users, locations, attendance, sessions, schedules, teams, departments, corrections, leave, calendars] =
+    await Promise.all([
+      prisma.user.findMany({ where: { organization_id }, include: { assignedLocations: true }, orderBy: { id: 'asc' } }),
+      prisma.location.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.attendance.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.session.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.schedule.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.team.findMany({ where: { organization_id }, include: { members: true }, orderBy: { id: 'asc' } }),
+      prisma.department.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.correctionRequest.findMany({ where: { organization_id }, orderBy: { id: 'asc' } }),
+      prisma.leaveType.findMany({
+        where: { organization_id },
+        include: { requests: true, adjustments: true },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.holidayCalendar.findMany({ where: { organization_id }, include: { holidays: true }, orderBy: { id: 'asc' } }),
+    ]);
+  return { users, locations, attendance, sessions, schedules, teams, departments, corrections, leave, calendars };
+}
+
+export function disconnect(): Promise<void> {
+  return prisma.$disconnect();
+}
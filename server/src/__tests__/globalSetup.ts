@@ -0,0 +1,17 @@
+import { execSync } from 'child_process';
+
+// The tests write to a database of their own, whose schema is reset before every run
+export default function globalSetup(): void {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    throw new Error('Set TEST_DATABASE_URL to a disposable Postgres database to run the tests');
+  }
+  if (url === process.env.DATABASE_URL) {
+    throw new Error('TEST_DATABASE_URL must not be the DATABASE_URL the server uses');
+  }
+
+  execSync('npx prisma db push --force-reset --skip-generate', {
+    env: { ...process.env, DATABASE_URL: url },
+    stdio: 'inherit',
+  });
+}
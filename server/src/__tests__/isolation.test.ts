@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import app from '../app';
+import { seedOrganization, seededIds, snapshotOrganization, disconnect, SeededOrganization } from './fixtures';
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+type Role = keyof SeededOrganization['tokens'];
+
+interface ScopedCall {
+  name: string;
+  as?: Role; // admin unless set
+  call: (own: SeededOrganization, other: SeededOrganization) => [Method, string, object?];
+}
+
+let alpha: SeededOrganization;
+let bravo: SeededOrganization;
+let bravoBefore: Awaited<ReturnType<typeof snapshotOrganization>>;
+
+beforeAll(async () => {
+  alpha = await seedOrganization('alpha');
+  bravo = await seedOrganization('bravo');
+  bravoBefore = await snapshotOrganization(bravo.organization_id);
+});
+
+afterAll(async () => {
+  await disconnect();
+});
+
+function send(token: string, method: Method, path: string, body?: object) {
+  const test = request(app)[method](path).set('Authorization', `Bearer ${token}`);
+  return body === undefined ? test : test.send(body);
+}
+
+async function callAsAlpha({ as = 'admin', call }: ScopedCall) {
+  const [method, path, body] = call(alpha, bravo);
+  return send(alpha.tokens[as], method, path, body);
+}
+
+function expectNothingOf(other: SeededOrganization, body: unknown) {
+  const text = JSON.stringify(body);
+  for (const id of seededIds(other)) {
+    expect(text).not.toContain(id);
+  }
+}
+
+// Another organization's record in the path or in a user filter
+const foreignIdCalls: ScopedCall[] = [
+  { name: 'PUT /api/users/:id/locations', call: (a, b) => ['put', `/api/users/${b.employee.id}/locations`, { location_ids: [] }] },
+  { name: 'POST /api/users/:id/reset-device', call: (a, b) => ['post', `/api/users/${b.employee.id}/reset-device`] },
+  { name: 'POST /api/users/:id/resend-invite', call: (a, b) => ['post', `/api/users/${b.employee.id}/resend-invite`] },
+  { name: 'POST /api/users/:id/unlock', call: (a, b) => ['post', `/api/users/${b.employee.id}/unlock`] },
+  { name: 'POST /api/users/:id/revoke-sessions', call: (a, b) => ['post', `/api/users/${b.employee.id}/revoke-sessions`] },
+  { name: 'PUT /api/users/:id/role', call: (a, b) => ['put', `/api/users/${b.employee.id}/role`, { role: 'manager' }] },
+  { name: 'DELETE /api/users/:id', call: (a, b) => ['delete', `/api/users/${b.employee.id}`] },
+  { name: 'POST /api/users/:id/restore', call: (a, b) => ['post', `/api/users/${b.employee.id}/restore`] },
+
+  { name: 'PUT /api/locations/:id', call: (a, b) => ['put', `/api/locations/${b.location_id}`, { name: 'Renamed' }] },
+  { name: 'DELETE /api/locations/:id', call: (a, b) => ['delete', `/api/locations/${b.location_id}`] },
+  { name: 'POST /api/locations/:id/restore', call: (a, b) => ['post', `/api/locations/${b.location_id}/restore`] },
+
+  { name: 'GET /api/attendance/user/:userId', call: (a, b) => ['get', `/api/attendance/user/${b.employee.id}`] },
+  { name: 'GET /api/attendance/user/:userId as a manager', as: 'manager', call: (a, b) => ['get', `/api/attendance/user/${b.employee.id}`] },
+  { name: 'GET /api/attendance/all?user_id=', call: (a, b) => ['get', `/api/attendance/all?user_id=${b.employee.id}`] },
+  { name: 'POST /api/attendance/:id/confirm', as: 'employee', call: (a, b) => ['post', `/api/attendance/${b.check_out_id}/confirm`, {}] },
+
+  { name: 'GET /api/sessions?user_id=', call: (a, b) => ['get', `/api/sessions?user_id=${b.employee.id}`] },
+  { name: 'GET /api/sessions?user_id= as a manager', as: 'manager', call: (a, b) => ['get', `/api/sessions?user_id=${b.employee.id}`] },
+
+  { name: 'GET /api/schedules?user_id=', call: (a, b) => ['get', `/api/schedules?user_id=${b.employee.id}`] },
+  {
+    name: 'GET /api/schedules/shifts?user_id=',
+    call: (a, b) => ['get', `/api/schedules/shifts?user_id=${b.employee.id}&start=2025-06-01&end=2025-06-07`],
+  },
+  { name: 'PUT /api/schedules/:id', call: (a, b) => ['put', `/api/schedules/${b.schedule_id}`, { start_minute: 540 }] },
+  { name: 'DELETE /api/schedules/:id', call: (a, b) => ['delete', `/api/schedules/${b.schedule_id}`] },
+  {
+    name: 'POST /api/schedules for another organization\'s employee',
+    call: (a, b) => [
+      'post',
+      '/api/schedules',
+      { user_id: b.employee.id, location_id: b.location_id, weekday: 2, start_minute: 480, end_minute: 960 },
+    ],
+  },
+
+  { name: 'PUT /api/teams/:id', call: (a, b) => ['put', `/api/teams/${b.team_id}`, { name: 'Renamed' }] },
+  { name: 'PUT /api/teams/:id/members', call: (a, b) => ['put', `/api/teams/${b.team_id}/members`, { user_ids: [] }] },
+  { name: 'DELETE /api/teams/:id', call: (a, b) => ['delete', `/api/teams/${b.team_id}`] },
+
+  { name: 'PUT /api/departments/:id', call: (a, b) => ['put', `/api/departments/${b.department_id}`, { name: 'Renamed' }] },
+  { name: 'DELETE /api/departments/:id', call: (a, b) => ['delete', `/api/departments/${b.department_id}`] },
+
+  { name: 'POST /api/corrections/:id/approve', call: (a, b) => ['post', `/api/corrections/${b.correction_id}/approve`, {}] },
+  { name: 'POST /api/corrections/:id/reject', call: (a, b) => ['post', `/api/corrections/${b.correction_id}/reject`, {}] },
+  {
+    name: 'POST /api/corrections on another organization\'s record',
+    as: 'employee',
+    call: (a, b) => [
+      'post',
+      '/api/corrections',
+      { type: 'change_time', attendance_id: b.check_in_id, timestamp: '2025-06-02T07:55:00Z', reason: 'Wrong time' },
+    ],
+  },
+
+  { name: 'PUT /api/leave/types/:id', call: (a, b) => ['put', `/api/leave/types/${b.leave_type_id}`, { name: 'Renamed' }] },
+  { name: 'DELETE /api/leave/types/:id', call: (a, b) => ['delete', `/api/leave/types/${b.leave_type_id}`] },
+  { name: 'GET /api/leave/requests?user_id=', call: (a, b) => ['get', `/api/leave/requests?user_id=${b.employee.id}`] },
+  { name: 'GET /api/leave/balances?user_id=', call: (a, b) => ['get', `/api/leave/balances?user_id=${b.employee.id}`] },
+  {
+    name: 'POST /api/leave/requests/:id/cancel',
+    as: 'employee',
+    call: (a, b) => ['post', `/api/leave/requests/${b.leave_request_id}/cancel`],
+  },
+  { name: 'POST /api/leave/requests/:id/approve', call: (a, b) => ['post', `/api/leave/requests/${b.leave_request_id}/approve`, {}] },
+  { name: 'POST /api/leave/requests/:id/reject', call: (a, b) => ['post', `/api/leave/requests/${b.leave_request_id}/reject`, {}] },
+
+  { name: 'PUT /api/holidays/:id', call: (a, b) => ['put', `/api/holidays/${b.calendar_id}`, { name: 'Renamed' }] },
+  { name: 'DELETE /api/holidays/:id', call: (a, b) => ['delete', `/api/holidays/${b.calendar_id}`] },
+  { name: 'GET /api/holidays/:id/holidays', call: (a, b) => ['get', `/api/holidays/${b.calendar_id}/holidays`] },
+  {
+    name: 'POST /api/holidays/:id/holidays',
+    call: (a, b) => ['post', `/api/holidays/${b.calendar_id}/holidays`, { date: '2025-12-26', name: 'Boxing Day' }],
+  },
+  {
+    name: 'DELETE /api/holidays/:id/holidays/:holidayId',
+    call: (a, b) => ['delete', `/api/holidays/${b.calendar_id}/holidays/${b.holiday_id}`],
+  },
+  {
+    name: 'DELETE /api/holidays/:id/holidays/:holidayId through an own calendar',
+    call: (a, b) => ['delete', `/api/holidays/${a.calendar_id}/holidays/${b.holiday_id}`],
+  },
+  {
+    name: 'POST /api/holidays/:id/import',
+    call: (a, b) => [
+      'post',
+      `/api/holidays/${b.calendar_id}/import`,
+      { ics: 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20251226\r\nSUMMARY:Boxing Day\r\nEND:VEVENT\r\nEND:VCALENDAR' },
+    ],
+  },
+
+  { name: 'GET /api/exceptions?user_id=', call: (a, b) => ['get', `/api/exceptions?user_id=${b.employee.id}`] },
+];
+
+// Another organization's record referenced from the body of an otherwise valid request
+const foreignReferenceCalls: ScopedCall[] = [
+  {
+    name: 'POST /api/schedules at another organization\'s location',
+    call: (a, b) => [
+      'post',
+      '/api/schedules',
+      { user_id: a.employee.id, location_id: b.location_id, weekday: 2, start_minute: 480, end_minute: 960 },
+    ],
+  },
+  {
+    name: 'PUT /api/users/:id/locations with another organization\'s location',
+    call: (a, b) => ['put', `/api/users/${a.employee.id}/locations`, { location_ids: [b.location_id] }],
+  },
+  {
+    name: 'POST /api/users with another organization\'s location',
+    call: (a, b) => [
+      'post',
+      '/api/users',
+      { email: 'new@alpha.test', full_name: 'New Hire', password: 'password123', location_ids: [b.location_id] },
+    ],
+  },
+  {
+    name: 'PUT /api/teams/:id/members with another organization\'s user',
+    call: (a, b) => ['put', `/api/teams/${a.team_id}/members`, { user_ids: [a.employee.id, b.employee.id] }],
+  },
+  {
+    name: 'POST /api/teams in another organization\'s department',
+    call: (a, b) => ['post', '/api/teams', { name: 'Night shift', department_id: b.department_id }],
+  },
+  {
+    name: 'PUT /api/locations/:id with another organization\'s holiday calendar',
+    call: (a, b) => ['put', `/api/locations/${a.location_id}`, { holiday_calendar_id: b.calendar_id }],
+  },
+  {
+    name: 'POST /api/leave/requests with another organization\'s leave type',
+    as: 'employee',
+    call: (a, b) => [
+      'post',
+      '/api/leave/requests',
+      { leave_type_id: b.leave_type_id, start_date: '2025-08-04', end_date: '2025-08-04' },
+    ],
+  },
+  {
+    name: 'POST /api/leave/adjustments for another organization\'s user',
+    call: (a, b) => [
+      'post',
+      '/api/leave/adjustments',
+      { user_id: b.employee.id, leave_type_id: a.leave_type_id, year: 2025, days: 2 },
+    ],
+  },
+  {
+    name: 'POST /api/corrections adding a punch at another organization\'s location',
+    as: 'employee',
+    call: (a, b) => [
+      'post',
+      '/api/corrections',
+      { type: 'add_punch', punch_status: 'check_in', timestamp: '2025-06-03T08:00:00Z', location_id: b.location_id, reason: 'Forgot to check in' },
+    ],
+  },
+];
+
+// Lists and filters that must only ever show the caller's own organization
+const listCalls: ScopedCall[] = [
+  { name: 'GET /api/users', call: () => ['get', '/api/users?include_deactivated=true'] },
+  { name: 'GET /api/users?team_id=', call: (a, b) => ['get', `/api/users?team_id=${b.team_id}`] },
+  { name: 'GET /api/locations', call: () => ['get', '/api/locations?include_archived=true'] },
+  { name: 'GET /api/locations/export', call: () => ['get', '/api/locations/export'] },
+  { name: 'GET /api/attendance/all', call: () => ['get', '/api/attendance/all'] },
+  { name: 'GET /api/attendance/all?location_id=', call: (a, b) => ['get', `/api/attendance/all?location_id=${b.location_id}`] },
+  { name: 'GET /api/sessions', call: () => ['get', '/api/sessions'] },
+  { name: 'GET /api/schedules', call: () => ['get', '/api/schedules'] },
+  { name: 'GET /api/schedules/roster', call: () => ['get', '/api/schedules/roster?date=2025-06-02'] },
+  { name: 'GET /api/schedules/shifts', call: () => ['get', '/api/schedules/shifts?start=2025-06-01&end=2025-06-07'] },
+  { name: 'GET /api/teams', call: () => ['get', '/api/teams'] },
+  { name: 'GET /api/teams?department_id=', call: (a, b) => ['get', `/api/teams?department_id=${b.department_id}`] },
+  { name: 'GET /api/departments', call: () => ['get', '/api/departments'] },
+  { name: 'GET /api/corrections', call: () => ['get', '/api/corrections'] },
+  { name: 'GET /api/leave/types', call: () => ['get', '/api/leave/types'] },
+  { name: 'GET /api/leave/requests', call: () => ['get', '/api/leave/requests'] },
+  { name: 'GET /api/holidays', call: () => ['get', '/api/holidays'] },
+  { name: 'GET /api/audit', call: () => ['get', '/api/audit'] },
+  { name: 'GET /api/audit?target_id=', call: (a, b) => ['get', `/api/audit?target_id=${b.location_id}`] },
+  { name: 'GET /api/exceptions', call: () => ['get', '/api/exceptions?start=2025-06-01&end=2025-06-30'] },
+  { name: 'GET /api/exceptions?location_id=', call: (a, b) => ['get', `/api/exceptions?location_id=${b.location_id}`] },
+  { name: 'GET /api/exceptions/counts', call: () => ['get', '/api/exceptions/counts?start=2025-06-01&end=2025-06-30'] },
+  { name: 'GET /api/reports/departments', call: () => ['get', '/api/reports/departments?start=2025-06-01&end=2025-06-30'] },
+];
+
+describe('organization isolation', () => {
+  it('lets an organization see its own records', async () => {
+    const res = await send(alpha.tokens.admin, 'get', '/api/attendance/all');
+
+    expect(res.status).toBe(200);
+    expect(JSON.stringify(res.body)).toContain(alpha.check_in_id);
+  });
+
+  it.each(foreignIdCalls.map((call) => [call.name, call] as const))(
+    '%s reports another organization\'s records as missing',
+    async (_name, call) => {
+      const res = await callAsAlpha(call);
+
+      expect([403, 404]).toContain(res.status);
+      expectNothingOf(bravo, res.body);
+    }
+  );
+
+  it.each(foreignReferenceCalls.map((call) => [call.name, call] as const))(
+    '%s is refused',
+    async (_name, call) => {
+      const res = await callAsAlpha(call);
+
+      expect([400, 403, 404]).toContain(res.status);
+      expectNothingOf(bravo, res.body);
+    }
+  );
+
+  it.each(listCalls.map((call) => [call.name, call] as const))(
+    '%s leaves out other organizations',
+    async (_name, call) => {
+      const res = await callAsAlpha(call);
+
+      expect(res.status).toBe(200);
+      expectNothingOf(bravo, res.type === 'application/json' ? res.body : res.text);
+    }
+  );
+
+  it('leaves the other organization unchanged', async () => {
+    expect(await snapshotOrganization(bravo.organization_id)).toEqual(bravoBefore);
+  });
+});
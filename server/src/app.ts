@@ -0,0 +1,56 @@
+import express from 'express';
+import cors from 'cors';
+
+import authRoutes from './routes/auth';
+import usersRoutes from './routes/users';
+import locationsRoutes from './routes/locations';
+import attendanceRoutes from './routes/attendance';
+import sessionsRoutes from './routes/sessions';
+import departmentsRoutes from './routes/departments';
+import teamsRoutes from './routes/teams';
+import reportsRoutes from './routes/reports';
+import organizationsRoutes from './routes/organizations';
+import schedulesRoutes from './routes/schedules';
+import exceptionsRoutes from './routes/exceptions';
+import correctionsRoutes from './routes/corrections';
+import auditRoutes from './routes/audit';
+import leaveRoutes from './routes/leave';
+import holidaysRoutes from './routes/holidays';
+
+// The Express app without a listener, so tests can drive it in-process; index.ts starts the server
+const app = express();
+
+// Behind Railway's proxy; needed for req.ip (login throttling is per client IP)
+app.set('trust proxy', 1);
+
+// Middleware
+app.use(cors());
+// Location boundaries and GeoJSON imports can be large; the global parser skips bodies already parsed here
+const largeJson = express.json({ limit: '5mb' });
+app.post(['/api/locations', '/api/locations/import'], largeJson);
+app.put('/api/locations/:id', largeJson);
+app.use(express.json());
+
+// Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/users', usersRoutes);
+app.use('/api/locations', locationsRoutes);
+app.use('/api/attendance', attendanceRoutes);
+app.use('/api/sessions', sessionsRoutes);
+app.use('/api/departments', departmentsRoutes);
+app.use('/api/teams', teamsRoutes);
+app.use('/api/reports', reportsRoutes);
+app.use('/api/organizations', organizationsRoutes);
+app.use('/api/schedules', schedulesRoutes);
+app.use('/api/exceptions', exceptionsRoutes);
+app.use('/api/corrections', correctionsRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/leave', leaveRoutes);
+app.use('/api/holidays', holidaysRoutes);
+
+// Health check
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+export default app;
@@ -1,11 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken, TokenPayload } from '../services/auth';
+import { PrismaClient } from '@prisma/client';
+import { verifyToken, TokenPayload, DeviceMismatchError } from '../services/auth';
+import { ADMIN_TOTP_REQUIRED } from '../services/twoFactor';
+import { hasPermission, Permission } from '../services/permissions';
+
+const prisma = new PrismaClient();
 
 export interface AuthRequest extends Request {
   user?: TokenPayload;
 }
 
-export function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
+// Access tokens outlive a deactivation or role change by up to their lifetime, so the account
+// is checked on every request and its current role replaces the one in the token
+export async function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -14,18 +21,111 @@ export function authenticate(req: AuthRequest, res: Response, next: NextFunction
 
   const token = authHeader.substring(7);
 
+  let payload: TokenPayload;
   try {
-    const payload = verifyToken(token);
-    req.user = payload;
-    next();
+    payload = verifyToken(token);
   } catch (error) {
     return res.status(401).json({ error: 'Invalid token' });
   }
+
+  let role: TokenPayload['role'];
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: payload.user_id },
+      select: { deactivated_at: true, role: true },
+    });
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+    if (user.deactivated_at) {
+      return res.status(401).json({ error: 'This account has been deactivated', code: 'ACCOUNT_DEACTIVATED' });
+    }
+    role = user.role;
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  req.user = { ...payload, role };
+  next();
 }
 
 export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
   if (!req.user || req.user.role !== 'admin') {
     return res.status(403).json({ error: 'Admin access required' });
   }
+  if (totpEnrollmentPending(req.user)) {
+    return sendTotpEnrollmentRequired(res);
+  }
   next();
 }
+
+// Platform-level routes such as creating organizations
+export function requireSuperAdmin(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user || !req.user.super_admin) {
+    return res.status(403).json({ error: 'Super admin access required', code: 'FORBIDDEN' });
+  }
+  if (totpEnrollmentPending(req.user)) {
+    return sendTotpEnrollmentRequired(res);
+  }
+  next();
+}
+
+// Role-based check for routes shared by admins and managers. Routes acting on a
+// specific user must still check scope with canAccessUser.
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: 'You do not have permission to do this', code: 'FORBIDDEN' });
+    }
+    if (totpEnrollmentPending(req.user)) {
+      return sendTotpEnrollmentRequired(res);
+    }
+    next();
+  };
+}
+
+function totpEnrollmentPending(user: TokenPayload): boolean {
+  return ADMIN_TOTP_REQUIRED && user.role === 'admin' && !user.mfa;
+}
+
+function sendTotpEnrollmentRequired(res: Response) {
+  return res.status(403).json({
+    error: 'Two-factor authentication must be set up before using admin features',
+    code: 'TOTP_ENROLLMENT_REQUIRED',
+  });
+}
+
+// Reject employee requests that don't come from the device bound to the account.
+// Clients send their device identifier in the X-Device-Id header.
+export async function requireDevice(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user || req.user.role === 'admin') {
+    return next();
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.user_id },
+      select: { id: true, email: true, device_id: true, device_reset_requested: true },
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    // Binding was cleared by an admin; the next login binds the new device
+    if (!user.device_id) {
+      return res.status(401).json({
+        error: 'Device binding was reset. Please sign in again.',
+        code: 'DEVICE_REBIND_REQUIRED',
+      });
+    }
+
+    if (req.header('X-Device-Id') !== user.device_id) {
+      return res.status(403).json(new DeviceMismatchError(user).toJSON());
+    }
+
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,132 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AuthRequest } from './auth';
+
+const prisma = new PrismaClient();
+
+// Repeated keys replay the stored response for this long
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_PRUNE_INTERVAL_MINUTES = parseInt(process.env.IDEMPOTENCY_PRUNE_INTERVAL_MINUTES || '60', 10);
+const MAX_KEY_LENGTH = 255;
+
+function hashRequest(req: AuthRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.originalUrl} ${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Makes a mutating route safe to retry. When the request carries an
+ * Idempotency-Key header, the first response for that key is stored and
+ * replayed for any repeat within the window. Must run after authenticate.
+ */
+export async function idempotent(req: AuthRequest, res: Response, next: NextFunction) {
+  const key = req.header('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: 'Idempotency-Key is too long', code: 'INVALID_IDEMPOTENCY_KEY' });
+  }
+
+  const userId = req.user!.user_id;
+  const requestHash = hashRequest(req);
+
+  try {
+    let entry;
+    try {
+      entry = await prisma.idempotencyKey.create({
+        data: {
+          user_id: userId,
+          key,
+          method: req.method,
+          path: req.originalUrl,
+          request_hash: requestHash,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: { user_id_key: { user_id: userId, key } },
+      });
+
+      if (existing && Date.now() - existing.created_at.getTime() > IDEMPOTENCY_WINDOW_MS) {
+        // Expired key: forget it and process this request as a fresh one
+        await prisma.idempotencyKey.delete({ where: { id: existing.id } });
+        return idempotent(req, res, next);
+      }
+
+      if (!existing) {
+        return res.status(409).json({ error: 'Request is already being processed', code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS' });
+      }
+
+      if (existing.request_hash !== requestHash) {
+        return res.status(422).json({
+          error: 'Idempotency-Key was already used for a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        });
+      }
+
+      if (existing.status_code === null) {
+        return res.status(409).json({ error: 'Request is already being processed', code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS' });
+      }
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.status_code).json(existing.response);
+    }
+
+    // Capture the body the route sends so it can be replayed later
+    const originalJson = res.json.bind(res);
+    let responseBody: any;
+    res.json = (body?: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      // Server errors are not stored so the client can retry with the same key
+      const persist = res.statusCode >= 500
+        ? prisma.idempotencyKey.delete({ where: { id: entry.id } })
+        : prisma.idempotencyKey.update({
+            where: { id: entry.id },
+            data: {
+              status_code: res.statusCode,
+              response: responseBody === undefined ? Prisma.JsonNull : responseBody,
+            },
+          });
+      persist.catch((error) => console.error('Error storing idempotent response:', error));
+    });
+
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
+
+// Keys are rarely sent twice, so expired ones are deleted here rather than on reuse
+export async function pruneIdempotencyKeys(now = new Date()): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { created_at: { lt: new Date(now.getTime() - IDEMPOTENCY_WINDOW_MS) } },
+  });
+  return count;
+}
+
+// Prunes expired keys on start and then every IDEMPOTENCY_PRUNE_INTERVAL_MINUTES
+export function startIdempotencyPruneJob(): void {
+  if (IDEMPOTENCY_PRUNE_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  const run = () => {
+    pruneIdempotencyKeys().catch((error) => console.error('Idempotency key pruning failed:', error));
+  };
+
+  run();
+  setInterval(run, IDEMPOTENCY_PRUNE_INTERVAL_MINUTES * 60 * 1000);
+}
@@ -1,16 +1,26 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticate, requirePermission, requireDevice, AuthRequest } from '../middleware/auth';
+import { canAccessUser, managedUserFilter } from '../services/permissions';
+import { parseTeamFilter } from '../services/teams';
+import { idempotent } from '../middleware/idempotency';
+import { getOpenSession, recordPunch } from '../services/attendance';
+import { resolveAutoCheckOut } from '../services/autoCheckOut';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const MAX_BATCH_SIZE = 100;
+// Tolerate devices whose clock runs slightly ahead of the server
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
 // Get current user's attendance
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const { start, end, location_id } = req.query;
 
-    const where: any = { user_id: req.user!.user_id };
+    const where: any = { organization_id: req.user!.organization_id, user_id: req.user!.user_id, superseded_at: null };
 
     if (start) {
       where.timestamp = { ...where.timestamp, gte: new Date(start as string) };
@@ -38,7 +48,7 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
 router.get('/last', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const lastRecord = await prisma.attendance.findFirst({
-      where: { user_id: req.user!.user_id },
+      where: { organization_id: req.user!.organization_id, user_id: req.user!.user_id, superseded_at: null },
       orderBy: { timestamp: 'desc' },
     });
 
@@ -48,42 +58,163 @@ router.get('/last', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get current user's open session (null when checked out)
+router.get('/session', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const session = await getOpenSession(req.user!.user_id);
+    res.json(session);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get current user's auto check-outs that still need confirming
+router.get('/auto', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const attendance = await prisma.attendance.findMany({
+      where: {
+        organization_id: req.user!.organization_id,
+        user_id: req.user!.user_id,
+        auto: true,
+        auto_confirmed_at: null,
+        superseded_at: null,
+      },
+      include: { location: true, checkOutSession: { select: { started_at: true } } },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    res.json(attendance);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Confirm an auto check-out as it is, or move it earlier with { timestamp }
+router.post('/:id/confirm', authenticate, requireDevice, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { timestamp } = req.body;
+
+    let corrected: Date | undefined;
+    if (timestamp !== undefined && timestamp !== null) {
+      corrected = new Date(timestamp);
+      if (isNaN(corrected.getTime())) {
+        return res.status(400).json({ error: 'timestamp must be a valid date', code: 'INVALID_TIMESTAMP' });
+      }
+    }
+
+    const result = await resolveAutoCheckOut(req.user!, req.params.id, corrected);
+
+    if (result.error) {
+      return res.status(result.error.httpStatus).json({
+        error: result.error.message,
+        code: result.error.code,
+        ...result.error.details,
+      });
+    }
+
+    const { record, original } = result;
+    await recordAudit(
+      req,
+      record.id === original.id ? 'attendance.auto_check_out_confirm' : 'attendance.auto_check_out_correct',
+      { type: 'attendance', id: original.id },
+      { timestamp: original.timestamp, auto_confirmed_at: null },
+      { timestamp: record.timestamp, auto_confirmed_at: record.auto_confirmed_at, result_id: record.id }
+    );
+
+    res.json(record);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Check in/out
-router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, requireDevice, idempotent, async (req: AuthRequest, res: Response) => {
   try {
-    const { status, latitude, longitude, location_id } = req.body;
+    // Live punches are always timed by the server; only the batch route honours device time
+    const { timestamp: _, ...punch } = req.body;
+    const result = await recordPunch(req.user!, punch);
 
-    if (!status || latitude === undefined || longitude === undefined) {
-      return res.status(400).json({ error: 'Status, latitude, and longitude are required' });
+    if (result.error) {
+      return res.status(result.error.httpStatus).json({
+        error: result.error.message,
+        code: result.error.code,
+        ...result.error.details,
+      });
     }
 
-    if (status !== 'check_in' && status !== 'check_out') {
-      return res.status(400).json({ error: 'Status must be check_in or check_out' });
+    res.status(result.duplicate ? 200 : 201).json(result.record);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replay punches captured offline, in device-time order
+router.post('/batch', authenticate, requireDevice, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { punches } = req.body;
+
+    if (!Array.isArray(punches) || punches.length === 0) {
+      return res.status(400).json({ error: 'punches must be a non-empty array' });
     }
 
-    const record = await prisma.attendance.create({
-      data: {
-        user_id: req.user!.user_id,
-        status,
-        latitude,
-        longitude,
-        location_id: location_id || null,
-      },
-    });
+    if (punches.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} punches can be synced at once` });
+    }
+
+    const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+    const results: any[] = [];
+    const valid: { punch: any; timestamp: Date }[] = [];
+
+    for (const punch of punches) {
+      const timestamp = new Date(punch?.timestamp);
+      if (!punch?.client_id || typeof punch.client_id !== 'string') {
+        results.push({ client_id: punch?.client_id ?? null, result: 'rejected', code: 'INVALID_PUNCH', error: 'client_id is required' });
+      } else if (isNaN(timestamp.getTime()) || timestamp.getTime() > latestAllowed) {
+        results.push({ client_id: punch.client_id, result: 'rejected', code: 'INVALID_TIMESTAMP', error: 'timestamp must be a valid date that is not in the future' });
+      } else {
+        valid.push({ punch, timestamp });
+      }
+    }
+
+    valid.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Sequential on purpose: each punch changes the session state the next one is validated against
+    for (const { punch, timestamp } of valid) {
+      const result = await recordPunch(req.user!, { ...punch, timestamp });
 
-    res.status(201).json(record);
+      if (result.error) {
+        results.push({
+          client_id: punch.client_id,
+          result: 'rejected',
+          code: result.error.code,
+          error: result.error.message,
+        });
+      } else {
+        results.push({
+          client_id: punch.client_id,
+          result: result.duplicate ? 'duplicate' : 'synced',
+          record: result.record,
+        });
+      }
+    }
+
+    res.json({ results });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Get attendance for a specific user (admin only)
-router.get('/user/:userId', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Get attendance for a specific user (admins, or managers for employees they manage)
+router.get('/user/:userId', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
     const { start, end, location_id } = req.query;
 
-    const where: any = { user_id: userId };
+    if (!(await canAccessUser(req.user!, userId))) {
+      return res.status(403).json({ error: 'You can only view attendance for employees you manage', code: 'FORBIDDEN' });
+    }
+
+    const where: any = { organization_id: req.user!.organization_id, user_id: userId, superseded_at: null };
 
     if (start) {
       where.timestamp = { ...where.timestamp, gte: new Date(start as string) };
@@ -107,12 +238,18 @@ router.get('/user/:userId', authenticate, requireAdmin, async (req: AuthRequest,
   }
 });
 
-// Get all attendance (admin only) - for reports
-router.get('/all', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Get all attendance (admins, or managers for the employees they manage) - for reports
+// Optional ?team_id= or ?department_id= limits results to that team's or department's members
+router.get('/all', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
   try {
     const { start, end, location_id, user_id } = req.query;
 
-    const where: any = {};
+    const where: any = { organization_id: req.user!.organization_id, superseded_at: null };
+
+    const managedIds = await managedUserFilter(req.user!, parseTeamFilter(req.query));
+    if (managedIds) {
+      where.user_id = managedIds;
+    }
 
     if (start) {
       where.timestamp = { ...where.timestamp, gte: new Date(start as string) };
@@ -124,7 +261,11 @@ router.get('/all', authenticate, requireAdmin, async (req: AuthRequest, res: Res
       where.location_id = location_id;
     }
     if (user_id) {
-      where.user_id = user_id;
+      if (!(await canAccessUser(req.user!, user_id as string))) {
+        return res.status(403).json({ error: 'You can only view attendance for employees you manage', code: 'FORBIDDEN' });
+      }
+      // A user outside the requested team/department simply has no matching records
+      where.user_id = managedIds && !managedIds.in.includes(user_id as string) ? { in: [] } : user_id;
     }
 
     const attendance = await prisma.attendance.findMany({
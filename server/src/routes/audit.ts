@@ -0,0 +1,76 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Get audit events, newest first (admin only)
+// Optional filters: ?actor_id=, ?action=, ?target_type=, ?target_id=, ?start= and ?end= (ISO timestamps)
+// Pages with ?limit= and ?cursor=<next_cursor of the previous page>
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const { actor_id, action, target_type, target_id, start, end, cursor } = req.query;
+
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` });
+    }
+
+    const where: any = { organization_id: req.user!.organization_id };
+    if (actor_id) {
+      where.actor_id = actor_id;
+    }
+    if (action) {
+      where.action = action;
+    }
+    if (target_type) {
+      where.target_type = target_type;
+    }
+    if (target_id) {
+      where.target_id = target_id;
+    }
+
+    if (start || end) {
+      const startDate = start ? new Date(start as string) : null;
+      const endDate = end ? new Date(end as string) : null;
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: 'start and end must be valid dates' });
+      }
+      where.created_at = {
+        ...(startDate ? { gte: startDate } : {}),
+        ...(endDate ? { lte: endDate } : {}),
+      };
+    }
+
+    if (cursor) {
+      const cursorEvent = await prisma.auditEvent.findFirst({
+        where: { id: cursor as string, organization_id: req.user!.organization_id },
+      });
+      if (!cursorEvent) {
+        return res.status(400).json({ error: 'Unknown cursor' });
+      }
+    }
+
+    // One extra row tells whether there is another page
+    const events = await prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor as string }, skip: 1 } : {}),
+    });
+
+    const page = events.slice(0, limit);
+    res.json({
+      events: page,
+      next_cursor: events.length > limit ? page[page.length - 1].id : null,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,8 +1,30 @@
 import { Router, Request, Response } from 'express';
-import { register, login, getUserById } from '../services/auth';
+import {
+  login,
+  completeMfaLogin,
+  getUserById,
+  issueSession,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  RefreshTokenError,
+  DeviceMismatchError,
+  verifyDeviceResetToken,
+} from '../services/auth';
+import { LoginThrottleError } from '../services/loginThrottle';
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  regenerateRecoveryCodes,
+  disableTotp,
+  TwoFactorError,
+} from '../services/twoFactor';
+import { sendPasswordReset, redeemUserToken, UserTokenError } from '../services/userTokens';
+import { PrismaClient } from '@prisma/client';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
+const prisma = new PrismaClient();
 
 // Register - DISABLED (users are created by admin only)
 router.post('/register', async (req: Request, res: Response) => {
@@ -20,10 +42,224 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
-    const result = await login(email, password);
+    const result = await login(
+      email,
+      password,
+      { ip: req.ip || 'unknown', userAgent: req.header('User-Agent') },
+      req.header('X-Device-Id')
+    );
     res.json(result);
   } catch (error: any) {
-    res.status(401).json({ error: error.message });
+    sendLoginError(res, error);
+  }
+});
+
+// Login, second step - TOTP or recovery code for accounts with two-factor authentication
+router.post('/login/totp', async (req: Request, res: Response) => {
+  try {
+    const { mfa_token, code } = req.body;
+
+    if (!mfa_token || !code) {
+      return res.status(400).json({ error: 'mfa_token and code are required' });
+    }
+
+    const result = await completeMfaLogin(
+      mfa_token,
+      String(code),
+      { ip: req.ip || 'unknown', userAgent: req.header('User-Agent') },
+      req.header('X-Device-Id')
+    );
+    res.json(result);
+  } catch (error: any) {
+    sendLoginError(res, error);
+  }
+});
+
+function sendLoginError(res: Response, error: any) {
+  if (error instanceof LoginThrottleError) {
+    res.setHeader('Retry-After', String(error.toJSON().retry_after_seconds));
+    return res.status(error.httpStatus).json(error.toJSON());
+  }
+  if (error instanceof DeviceMismatchError) {
+    return res.status(403).json(error.toJSON());
+  }
+  res.status(401).json({ error: error.message });
+}
+
+// Request device reset - uses the reset_token returned with a DEVICE_MISMATCH error
+router.post('/request-device-reset', async (req: Request, res: Response) => {
+  let userId: string;
+  try {
+    userId = verifyDeviceResetToken(req.body.reset_token);
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired reset token' });
+  }
+
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { device_reset_requested: true },
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Exchange a refresh token for a new access token (the refresh token is rotated)
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return res.status(400).json({ error: 'refresh_token is required' });
+    }
+
+    const tokens = await rotateRefreshToken(refresh_token);
+    res.json(tokens);
+  } catch (error: any) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({ error: error.message, code: 'INVALID_REFRESH_TOKEN' });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Logout - revoke the refresh token for this device
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (refresh_token && typeof refresh_token === 'string') {
+      await revokeRefreshToken(refresh_token);
+    }
+    res.json({ message: 'Logged out' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Forgot password - emails a reset link/code. Always succeeds so emails can't be probed.
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    await sendPasswordReset(email.trim().toLowerCase(), { ip: req.ip || 'unknown', userAgent: req.header('User-Agent') });
+    res.json({ message: 'If an account exists for that email, a reset link has been sent.' });
+  } catch (error: any) {
+    if (error instanceof LoginThrottleError) {
+      res.setHeader('Retry-After', String(error.toJSON().retry_after_seconds));
+      return res.status(error.httpStatus).json(error.toJSON());
+    }
+    console.error('Error sending password reset:', error);
+    res.status(500).json({ error: 'Failed to send password reset email' });
+  }
+});
+
+// Reset password - redeems an invitation or password reset code
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    await redeemUserToken(token, password);
+    res.json({ message: 'Password has been set. You can now sign in.' });
+  } catch (error: any) {
+    if (error instanceof UserTokenError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Load the signed-in admin for the 2FA management routes below. These deliberately skip
+// requireAdmin, which refuses admins that still have to enroll.
+async function loadAdmin(req: AuthRequest, res: Response) {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.user_id } });
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+  if (user.role !== 'admin') {
+    res.status(403).json({ error: 'Admin access required' });
+    return null;
+  }
+  return user;
+}
+
+function sendTwoFactorError(res: Response, error: any) {
+  if (error instanceof TwoFactorError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  res.status(500).json({ error: error.message });
+}
+
+// Start two-factor enrollment - returns the secret and otpauth:// URI for the authenticator app
+router.post('/totp/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await loadAdmin(req, res);
+    if (!user) return;
+
+    res.json(await beginEnrollment(user));
+  } catch (error: any) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+// Confirm enrollment with a code; returns recovery codes and a new session that reflects 2FA.
+// Every other session of the user is signed out.
+router.post('/totp/enable', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await loadAdmin(req, res);
+    if (!user) return;
+
+    const recovery_codes = await confirmEnrollment(user, String(req.body.code || ''));
+    const updated = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+
+    await recordAudit(req, 'user.totp_enable', { type: 'user', id: user.id }, { totp_enabled: false }, { totp_enabled: true });
+
+    res.json({ recovery_codes, ...(await issueSession(updated)) });
+  } catch (error: any) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+// Replace recovery codes (requires a current code)
+router.post('/totp/recovery-codes', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await loadAdmin(req, res);
+    if (!user) return;
+
+    const recovery_codes = await regenerateRecoveryCodes(user, String(req.body.code || ''));
+    await recordAudit(req, 'user.totp_recovery_codes', { type: 'user', id: user.id });
+    res.json({ recovery_codes });
+  } catch (error: any) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+// Turn two-factor authentication off (only while it is optional); like enabling, it signs out every other session
+router.post('/totp/disable', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await loadAdmin(req, res);
+    if (!user) return;
+
+    await disableTotp(user, String(req.body.code || ''));
+    const updated = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+
+    await recordAudit(req, 'user.totp_disable', { type: 'user', id: user.id }, { totp_enabled: true }, { totp_enabled: false });
+
+    res.json(await issueSession(updated));
+  } catch (error: any) {
+    sendTwoFactorError(res, error);
   }
 });
 
@@ -0,0 +1,122 @@
+import { Router, Response } from 'express';
+import { PrismaClient, CorrectionStatus } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { canAccessUser, hasPermission, managedUserFilter } from '../services/permissions';
+import { createCorrectionRequest, reviewCorrectionRequest, CorrectionError } from '../services/corrections';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const CORRECTION_STATUSES: CorrectionStatus[] = ['pending', 'approved', 'rejected'];
+
+const CORRECTION_INCLUDE = {
+  user: { select: { id: true, email: true, full_name: true } },
+  reviewer: { select: { id: true, email: true, full_name: true } },
+  attendance: { include: { location: { select: { id: true, name: true } } } },
+};
+
+function sendCorrectionError(res: Response, error: CorrectionError) {
+  return res.status(error.httpStatus).json({ error: error.message, code: error.code });
+}
+
+// Get correction requests (employees see their own, reviewers those of employees they manage)
+// Optional ?status=pending|approved|rejected
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { status } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    if (hasPermission(req.user!, 'corrections:approve')) {
+      const managedIds = await managedUserFilter(req.user!);
+      if (managedIds) {
+        where.user_id = managedIds;
+      }
+    } else {
+      where.user_id = req.user!.user_id;
+    }
+
+    if (status) {
+      if (!CORRECTION_STATUSES.includes(status as CorrectionStatus)) {
+        return res.status(400).json({ error: `status must be one of ${CORRECTION_STATUSES.join(', ')}` });
+      }
+      where.status = status;
+    }
+
+    const corrections = await prisma.correctionRequest.findMany({
+      where,
+      include: CORRECTION_INCLUDE,
+      orderBy: { created_at: 'desc' },
+    });
+
+    // Attach the requested location's name for add_punch and change_location requests
+    const locationIds = Array.from(new Set(corrections.map((c) => c.location_id).filter((id): id is string => !!id)));
+    const locations = await prisma.location.findMany({
+      where: { id: { in: locationIds } },
+      select: { id: true, name: true },
+    });
+    const locationsById = new Map(locations.map((location) => [location.id, location]));
+
+    res.json(corrections.map((c) => ({ ...c, location: (c.location_id && locationsById.get(c.location_id)) || null })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Request a correction of your own attendance
+router.post('/', authenticate, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const correction = await createCorrectionRequest(req.user!, req.body);
+    res.status(201).json(correction);
+  } catch (error: any) {
+    if (error instanceof CorrectionError) {
+      return sendCorrectionError(res, error);
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Approve (POST /:id/approve) or reject (POST /:id/reject) a request, with an optional { note }
+// (admins, or managers for employees they manage)
+router.post(
+  '/:id/:decision(approve|reject)',
+  authenticate,
+  requirePermission('corrections:approve'),
+  idempotent,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, decision } = req.params;
+      const { note } = req.body;
+
+      if (note !== undefined && note !== null && typeof note !== 'string') {
+        return res.status(400).json({ error: 'note must be a string' });
+      }
+
+      const request = await prisma.correctionRequest.findFirst({
+        where: { id, organization_id: req.user!.organization_id },
+      });
+      if (!request || !(await canAccessUser(req.user!, request.user_id))) {
+        return res.status(404).json({ error: 'Correction request not found' });
+      }
+
+      const reviewed = await reviewCorrectionRequest(req.user!, request, decision === 'approve', note?.trim() || null);
+      await recordAudit(
+        req,
+        `correction.${decision}`,
+        { type: 'correction_request', id },
+        { status: request.status },
+        { status: reviewed.status, review_note: reviewed.review_note, result_id: reviewed.result_id }
+      );
+      res.json(reviewed);
+    } catch (error: any) {
+      if (error instanceof CorrectionError) {
+        return sendCorrectionError(res, error);
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
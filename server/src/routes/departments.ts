@@ -0,0 +1,115 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Departments of other organizations are reported as not found
+function findOrganizationDepartment(req: AuthRequest, id: string) {
+  return prisma.department.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
+// Get all departments with their teams
+router.get('/', authenticate, requirePermission('users:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const departments = await prisma.department.findMany({
+      where: { organization_id: req.user!.organization_id },
+      include: {
+        teams: {
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(departments);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create department (admin only)
+router.post('/', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const existing = await prisma.department.findFirst({
+      where: { organization_id: req.user!.organization_id, name: name.trim() },
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A department with this name already exists' });
+    }
+
+    const department = await prisma.department.create({
+      data: { organization_id: req.user!.organization_id, name: name.trim() },
+      include: { teams: { select: { id: true, name: true } } },
+    });
+
+    await recordAudit(req, 'department.create', { type: 'department', id: department.id }, null, { name: department.name });
+
+    res.status(201).json(department);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Rename department (admin only)
+router.put('/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const existing = await findOrganizationDepartment(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Department not found' });
+    }
+
+    const department = await prisma.department.update({
+      where: { id },
+      data: { name: name.trim() },
+      include: { teams: { select: { id: true, name: true } } },
+    });
+
+    await recordAudit(req, 'department.update', { type: 'department', id }, { name: existing.name }, { name: department.name });
+
+    res.json(department);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete department (admin only) - its teams are kept without a department
+router.delete('/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const department = await findOrganizationDepartment(req, id);
+    if (!department) {
+      return res.status(404).json({ error: 'Department not found' });
+    }
+
+    await prisma.department.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, 'department.delete', { type: 'department', id }, department, null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+import { Router, Response } from 'express';
+import { PrismaClient, AttendanceExceptionType } from '@prisma/client';
+import { authenticate, requireAdmin, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+import { canAccessUser, managedUserFilter } from '../services/permissions';
+import { evaluateExceptions, EXCEPTION_TYPES } from '../services/exceptions';
+import { getOrganizationTimeZone } from '../services/schedules';
+import { isValidDateString, localDateString, addDays, fromDateString, toDateString } from '../utils/time';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const MAX_EVALUATION_DAYS = 31;
+
+// Shared ?start=&end= (YYYY-MM-DD, inclusive) filter on the exception date
+function dateRangeFilter(start: unknown, end: unknown): { gte?: Date; lte?: Date } | string | undefined {
+  if ((start && !isValidDateString(start)) || (end && !isValidDateString(end))) {
+    return 'start and end must be YYYY-MM-DD';
+  }
+  if (!start && !end) {
+    return undefined;
+  }
+  return {
+    ...(start ? { gte: fromDateString(start as string) } : {}),
+    ...(end ? { lte: fromDateString(end as string) } : {}),
+  };
+}
+
+// Get exceptions (admins, or managers for the employees they manage)
+// Filters: ?user_id= ?location_id= ?type= ?start= ?end=
+router.get('/', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { user_id, location_id, type, start, end } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    const managedIds = await managedUserFilter(req.user!);
+    if (managedIds) {
+      where.user_id = managedIds;
+    }
+    if (user_id) {
+      if (!(await canAccessUser(req.user!, user_id as string))) {
+        return res.status(403).json({ error: 'You can only view exceptions for employees you manage', code: 'FORBIDDEN' });
+      }
+      where.user_id = user_id;
+    }
+    if (location_id) {
+      where.location_id = location_id;
+    }
+    if (type) {
+      if (!EXCEPTION_TYPES.includes(type as AttendanceExceptionType)) {
+        return res.status(400).json({ error: `type must be one of: ${EXCEPTION_TYPES.join(', ')}` });
+      }
+      where.type = type;
+    }
+
+    const dateFilter = dateRangeFilter(start, end);
+    if (typeof dateFilter === 'string') {
+      return res.status(400).json({ error: dateFilter });
+    }
+    if (dateFilter) {
+      where.date = dateFilter;
+    }
+
+    const exceptions = await prisma.attendanceException.findMany({
+      where,
+      include: {
+        location: { select: { id: true, name: true } },
+        user: { select: { id: true, email: true, full_name: true } },
+      },
+      orderBy: [{ date: 'desc' }, { expected_at: 'desc' }],
+    });
+
+    res.json(exceptions.map((exception) => ({ ...exception, date: toDateString(exception.date) })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Number of exceptions per user in ?start= to ?end=, for list badges
+router.get('/counts', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { start, end } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    const managedIds = await managedUserFilter(req.user!);
+    if (managedIds) {
+      where.user_id = managedIds;
+    }
+
+    const dateFilter = dateRangeFilter(start, end);
+    if (typeof dateFilter === 'string') {
+      return res.status(400).json({ error: dateFilter });
+    }
+    if (dateFilter) {
+      where.date = dateFilter;
+    }
+
+    const counts = await prisma.attendanceException.groupBy({
+      by: ['user_id'],
+      where,
+      _count: { _all: true },
+    });
+
+    res.json(counts.map((row) => ({ user_id: row.user_id, count: row._count._all })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run the exception engine now (admin only) for ?date= or a ?start= to ?end= range.
+// Defaults to today so far in the organization's time zone.
+router.post('/evaluate', authenticate, requireAdmin, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const timeZone = await getOrganizationTimeZone(req.user!.organization_id);
+    const today = localDateString(new Date(), timeZone);
+    const { date } = req.body;
+    const start = req.body.start || date || today;
+    const end = req.body.end || date || start;
+
+    if (!isValidDateString(start) || !isValidDateString(end) || start > end) {
+      return res.status(400).json({ error: 'date, start and end must be YYYY-MM-DD with start <= end' });
+    }
+    if (end > today) {
+      return res.status(400).json({ error: 'Future dates cannot be evaluated' });
+    }
+    if (addDays(start, MAX_EVALUATION_DAYS - 1) < end) {
+      return res.status(400).json({ error: `At most ${MAX_EVALUATION_DAYS} days can be evaluated at once` });
+    }
+
+    const results: { date: string; exceptions: number }[] = [];
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+      results.push({ date: day, exceptions: await evaluateExceptions(req.user!.organization_id, day) });
+    }
+
+    await recordAudit(req, 'exceptions.evaluate', { type: 'organization', id: req.user!.organization_id }, null, { start, end, results });
+
+    res.json({ results });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,256 @@
+import express, { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+import { reevaluateExceptions } from '../services/exceptions';
+import { getUserHolidays, importHolidays } from '../services/holidays';
+import { parseIcs, IcsParseResult } from '../services/icalendar';
+import { fromDateString, isValidDateString, toDateString } from '../utils/time';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const IMPORT_SIZE_LIMIT = '5mb';
+
+// Calendars of other organizations are reported as not found
+function findOrganizationCalendar(req: AuthRequest, id: string) {
+  return prisma.holidayCalendar.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
+function toHolidayJson<T extends { date: Date }>(holiday: T) {
+  return { ...holiday, date: toDateString(holiday.date) };
+}
+
+// Get holiday calendars with their holiday count and the locations observing them
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const calendars = await prisma.holidayCalendar.findMany({
+      where: { organization_id: req.user!.organization_id },
+      include: {
+        locations: { select: { id: true, name: true } },
+        _count: { select: { holidays: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(calendars);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the holidays observed at your own locations from ?start= to ?end= (YYYY-MM-DD)
+router.get('/observed', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { start, end } = req.query;
+    if (!isValidDateString(start) || !isValidDateString(end) || start > end) {
+      return res.status(400).json({ error: 'start and end must be YYYY-MM-DD with start <= end' });
+    }
+
+    res.json(await getUserHolidays(req.user!.user_id, start, end));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create holiday calendar (admin only)
+router.post('/', authenticate, requirePermission('locations:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const existing = await prisma.holidayCalendar.findFirst({
+      where: { organization_id: req.user!.organization_id, name: name.trim() },
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A holiday calendar with this name already exists' });
+    }
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: { organization_id: req.user!.organization_id, name: name.trim() },
+    });
+
+    await recordAudit(req, 'holiday_calendar.create', { type: 'holiday_calendar', id: calendar.id }, null, calendar);
+
+    res.status(201).json(calendar);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Rename holiday calendar (admin only)
+router.put('/:id', authenticate, requirePermission('locations:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const existing = await findOrganizationCalendar(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const calendar = await prisma.holidayCalendar.update({ where: { id }, data: { name: name.trim() } });
+
+    await recordAudit(req, 'holiday_calendar.update', { type: 'holiday_calendar', id }, existing, calendar);
+
+    res.json(calendar);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete holiday calendar (admin only) - its locations no longer observe any holidays
+router.delete('/:id', authenticate, requirePermission('locations:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const calendar = await findOrganizationCalendar(req, id);
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const holidays = await prisma.holiday.findMany({ where: { calendar_id: id }, select: { date: true } });
+    await prisma.holidayCalendar.delete({ where: { id } });
+
+    await recordAudit(req, 'holiday_calendar.delete', { type: 'holiday_calendar', id }, calendar, null);
+    await reevaluateExceptions(req.user!.organization_id, holidays.map((holiday) => toDateString(holiday.date)));
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the holidays of a calendar, optionally only those of ?year=
+router.get('/:id/holidays', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const calendar = await findOrganizationCalendar(req, req.params.id);
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const where: any = { calendar_id: calendar.id };
+    if (req.query.year) {
+      const year = Number(req.query.year);
+      if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ error: 'year must be a four-digit year' });
+      }
+      where.date = { gte: fromDateString(`${year}-01-01`), lte: fromDateString(`${year}-12-31`) };
+    }
+
+    const holidays = await prisma.holiday.findMany({ where, orderBy: { date: 'asc' } });
+    res.json(holidays.map(toHolidayJson));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Add a holiday by hand (admin only); a holiday already on that date is renamed
+router.post('/:id/holidays', authenticate, requirePermission('locations:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { date, name } = req.body;
+
+    if (!isValidDateString(date)) {
+      return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    }
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const calendar = await findOrganizationCalendar(req, req.params.id);
+    if (!calendar) {
+      return res.status(404).json({ error: 'Holiday calendar not found' });
+    }
+
+    const holiday = await prisma.holiday.upsert({
+      where: { calendar_id_date: { calendar_id: calendar.id, date: fromDateString(date) } },
+      create: { calendar_id: calendar.id, date: fromDateString(date), name: name.trim() },
+      update: { name: name.trim() },
+    });
+
+    await recordAudit(req, 'holiday.create', { type: 'holiday_calendar', id: calendar.id }, null, toHolidayJson(holiday));
+    await reevaluateExceptions(req.user!.organization_id, [date]);
+
+    res.status(201).json(toHolidayJson(holiday));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Remove a holiday (admin only)
+router.delete('/:id/holidays/:holidayId', authenticate, requirePermission('locations:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const calendar = await findOrganizationCalendar(req, req.params.id);
+    const holiday = calendar
+      ? await prisma.holiday.findFirst({ where: { id: req.params.holidayId, calendar_id: calendar.id } })
+      : null;
+    if (!holiday) {
+      return res.status(404).json({ error: 'Holiday not found' });
+    }
+
+    await prisma.holiday.delete({ where: { id: holiday.id } });
+
+    await recordAudit(req, 'holiday.delete', { type: 'holiday_calendar', id: calendar!.id }, toHolidayJson(holiday), null);
+    await reevaluateExceptions(req.user!.organization_id, [toDateString(holiday.date)]);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import holidays from an iCalendar file (admin only)
+// The body is the .ics file itself, or { ics } as JSON; ?dry_run=true only reports what would happen
+router.post(
+  '/:id/import',
+  authenticate,
+  requirePermission('locations:manage'),
+  express.text({ type: ['text/calendar', 'text/plain'], limit: IMPORT_SIZE_LIMIT }),
+  idempotent,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const dryRun = req.query.dry_run === 'true';
+
+      const calendar = await findOrganizationCalendar(req, req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ error: 'Holiday calendar not found' });
+      }
+
+      let parsed: IcsParseResult;
+      try {
+        parsed = parseIcs(typeof req.body === 'string' ? req.body : req.body?.ics);
+      } catch (parseError: any) {
+        return res.status(400).json({ error: parseError.message, code: 'INVALID_IMPORT_FILE' });
+      }
+
+      let counts = { created: 0, updated: 0 };
+      if (!dryRun && parsed.holidays.length > 0) {
+        counts = await importHolidays(calendar.id, parsed.holidays);
+        await recordAudit(req, 'holiday_calendar.import', { type: 'holiday_calendar', id: calendar.id }, null, counts);
+        await reevaluateExceptions(
+          req.user!.organization_id,
+          parsed.holidays.map((holiday) => holiday.date)
+        );
+      }
+
+      res.status(dryRun ? 200 : 201).json({
+        dry_run: dryRun,
+        holidays: parsed.holidays.map(({ date, name }) => ({ date, name })),
+        ...counts,
+        errors: parsed.errors,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
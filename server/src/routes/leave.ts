@@ -0,0 +1,356 @@
+import { Router, Response } from 'express';
+import { PrismaClient, LeaveStatus } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { canAccessUser, hasPermission, managedUserFilter } from '../services/permissions';
+import { recordAudit } from '../services/audit';
+import { getOrganizationTimeZone } from '../services/schedules';
+import {
+  createLeaveRequest,
+  reviewLeaveRequest,
+  cancelLeaveRequest,
+  getLeaveBalances,
+  LeaveError,
+} from '../services/leave';
+import { isValidDateString, fromDateString, localDateString, toDateString } from '../utils/time';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const LEAVE_STATUSES: LeaveStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+const LEAVE_REQUEST_INCLUDE = {
+  leave_type: { select: { id: true, name: true, paid: true } },
+  user: { select: { id: true, email: true, full_name: true } },
+  reviewer: { select: { id: true, email: true, full_name: true } },
+};
+
+function sendLeaveError(res: Response, error: LeaveError) {
+  return res.status(error.httpStatus).json({ error: error.message, code: error.code });
+}
+
+// Dates are sent as YYYY-MM-DD, like the columns they come from
+function toLeaveRequestJson<T extends { start_date: Date; end_date: Date }>(request: T) {
+  return { ...request, start_date: toDateString(request.start_date), end_date: toDateString(request.end_date) };
+}
+
+// annual_days must be a non-negative number, or null for types without a balance
+function isValidAnnualDays(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && isFinite(value) && value >= 0);
+}
+
+// Leave types of other organizations are reported as not found
+function findOrganizationLeaveType(req: AuthRequest, id: string) {
+  return prisma.leaveType.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
+// Get the organization's leave types
+router.get('/types', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const leaveTypes = await prisma.leaveType.findMany({
+      where: { organization_id: req.user!.organization_id },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(leaveTypes);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create leave type (admin only)
+router.post('/types', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, paid = true, annual_days = null } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (typeof paid !== 'boolean') {
+      return res.status(400).json({ error: 'paid must be a boolean' });
+    }
+    if (!isValidAnnualDays(annual_days)) {
+      return res.status(400).json({ error: 'annual_days must be a non-negative number or null' });
+    }
+
+    const existing = await prisma.leaveType.findFirst({
+      where: { organization_id: req.user!.organization_id, name: name.trim() },
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A leave type with this name already exists' });
+    }
+
+    const leaveType = await prisma.leaveType.create({
+      data: { organization_id: req.user!.organization_id, name: name.trim(), paid, annual_days },
+    });
+
+    await recordAudit(req, 'leave_type.create', { type: 'leave_type', id: leaveType.id }, null, leaveType);
+
+    res.status(201).json(leaveType);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update leave type (admin only)
+router.put('/types/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, paid, annual_days } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'name cannot be empty' });
+    }
+    if (paid !== undefined && typeof paid !== 'boolean') {
+      return res.status(400).json({ error: 'paid must be a boolean' });
+    }
+    if (!isValidAnnualDays(annual_days)) {
+      return res.status(400).json({ error: 'annual_days must be a non-negative number or null' });
+    }
+
+    const existing = await findOrganizationLeaveType(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Leave type not found' });
+    }
+
+    const leaveType = await prisma.leaveType.update({
+      where: { id },
+      data: { name: name?.trim(), paid, annual_days },
+    });
+
+    await recordAudit(req, 'leave_type.update', { type: 'leave_type', id }, existing, leaveType);
+
+    res.json(leaveType);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete leave type (admin only) - refused once it has been used
+router.delete('/types/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const leaveType = await findOrganizationLeaveType(req, id);
+    if (!leaveType) {
+      return res.status(404).json({ error: 'Leave type not found' });
+    }
+
+    const [requests, adjustments] = await Promise.all([
+      prisma.leaveRequest.count({ where: { leave_type_id: id } }),
+      prisma.leaveAdjustment.count({ where: { leave_type_id: id } }),
+    ]);
+    if (requests > 0 || adjustments > 0) {
+      return res.status(400).json({ error: 'This leave type has been used and cannot be deleted', code: 'LEAVE_TYPE_IN_USE' });
+    }
+
+    await prisma.leaveType.delete({ where: { id } });
+
+    await recordAudit(req, 'leave_type.delete', { type: 'leave_type', id }, leaveType, null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get leave requests (employees see their own, reviewers those of employees they manage)
+// Optional ?status=, ?user_id= and ?start= / ?end= (YYYY-MM-DD) for requests overlapping that range
+router.get('/requests', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { status, user_id, start, end } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    if (hasPermission(req.user!, 'leave:approve')) {
+      const managedIds = await managedUserFilter(req.user!);
+      if (managedIds) {
+        where.user_id = managedIds;
+      }
+    } else {
+      where.user_id = req.user!.user_id;
+    }
+
+    if (user_id) {
+      if (user_id !== req.user!.user_id && !(await canAccessUser(req.user!, user_id as string))) {
+        return res.status(403).json({ error: 'You can only view leave of employees you manage', code: 'FORBIDDEN' });
+      }
+      where.user_id = user_id;
+    }
+
+    if (status) {
+      if (!LEAVE_STATUSES.includes(status as LeaveStatus)) {
+        return res.status(400).json({ error: `status must be one of ${LEAVE_STATUSES.join(', ')}` });
+      }
+      where.status = status;
+    }
+
+    if ((start && !isValidDateString(start)) || (end && !isValidDateString(end))) {
+      return res.status(400).json({ error: 'start and end must be YYYY-MM-DD' });
+    }
+    if (start) {
+      where.end_date = { gte: fromDateString(start as string) };
+    }
+    if (end) {
+      where.start_date = { lte: fromDateString(end as string) };
+    }
+
+    const requests = await prisma.leaveRequest.findMany({
+      where,
+      include: LEAVE_REQUEST_INCLUDE,
+      orderBy: { start_date: 'desc' },
+    });
+
+    res.json(requests.map(toLeaveRequestJson));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Request leave for yourself
+router.post('/requests', authenticate, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const request = await createLeaveRequest(req.user!, req.body);
+    res.status(201).json(toLeaveRequestJson(request));
+  } catch (error: any) {
+    if (error instanceof LeaveError) {
+      return sendLeaveError(res, error);
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Withdraw your own pending request, or approved leave that hasn't started yet
+router.post('/requests/:id/cancel', authenticate, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const request = await prisma.leaveRequest.findFirst({
+      where: { id: req.params.id, organization_id: req.user!.organization_id, user_id: req.user!.user_id },
+    });
+    if (!request) {
+      return res.status(404).json({ error: 'Leave request not found' });
+    }
+
+    const cancelled = await cancelLeaveRequest(req.user!, request);
+    res.json(toLeaveRequestJson(cancelled));
+  } catch (error: any) {
+    if (error instanceof LeaveError) {
+      return sendLeaveError(res, error);
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Approve (POST /requests/:id/approve) or reject (POST /requests/:id/reject) a request, with an
+// optional { note } (admins, or managers for employees they manage)
+router.post(
+  '/requests/:id/:decision(approve|reject)',
+  authenticate,
+  requirePermission('leave:approve'),
+  idempotent,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, decision } = req.params;
+      const { note } = req.body;
+
+      if (note !== undefined && note !== null && typeof note !== 'string') {
+        return res.status(400).json({ error: 'note must be a string' });
+      }
+
+      const request = await prisma.leaveRequest.findFirst({
+        where: { id, organization_id: req.user!.organization_id },
+      });
+      if (!request || !(await canAccessUser(req.user!, request.user_id))) {
+        return res.status(404).json({ error: 'Leave request not found' });
+      }
+
+      const reviewed = await reviewLeaveRequest(req.user!, request, decision === 'approve', note?.trim() || null);
+      await recordAudit(
+        req,
+        `leave.${decision}`,
+        { type: 'leave_request', id },
+        { status: request.status },
+        { status: reviewed.status, review_note: reviewed.review_note }
+      );
+      res.json(toLeaveRequestJson(reviewed));
+    } catch (error: any) {
+      if (error instanceof LeaveError) {
+        return sendLeaveError(res, error);
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get leave balances for a year (?year=, default the current one)
+// Employees see their own; reviewers may pass ?user_id= for employees they manage
+router.get('/balances', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = (req.query.user_id as string) || req.user!.user_id;
+    if (userId !== req.user!.user_id && !(await canAccessUser(req.user!, userId))) {
+      return res.status(403).json({ error: 'You can only view balances of employees you manage', code: 'FORBIDDEN' });
+    }
+
+    const timeZone = await getOrganizationTimeZone(req.user!.organization_id);
+    const year = req.query.year ? Number(req.query.year) : Number(localDateString(new Date(), timeZone).slice(0, 4));
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ error: 'year must be a four-digit year' });
+    }
+
+    res.json(await getLeaveBalances(req.user!.organization_id, userId, year));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Adjust a user's balance for a year, e.g. carried-over days (admin only)
+router.post('/adjustments', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { user_id, leave_type_id, year, days, note } = req.body;
+
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ error: 'year must be a four-digit year' });
+    }
+    if (typeof days !== 'number' || !isFinite(days) || days === 0) {
+      return res.status(400).json({ error: 'days must be a non-zero number' });
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return res.status(400).json({ error: 'note must be a string' });
+    }
+
+    const [user, leaveType] = await Promise.all([
+      typeof user_id === 'string'
+        ? prisma.user.findFirst({ where: { id: user_id, organization_id: req.user!.organization_id } })
+        : null,
+      typeof leave_type_id === 'string' ? findOrganizationLeaveType(req, leave_type_id) : null,
+    ]);
+    if (!user) {
+      return res.status(400).json({ error: 'Unknown user_id' });
+    }
+    if (!leaveType) {
+      return res.status(400).json({ error: 'Unknown leave_type_id' });
+    }
+    if (leaveType.annual_days === null) {
+      return res.status(400).json({ error: `${leaveType.name} has no balance to adjust` });
+    }
+
+    const adjustment = await prisma.leaveAdjustment.create({
+      data: {
+        organization_id: req.user!.organization_id,
+        user_id: user.id,
+        leave_type_id: leaveType.id,
+        year,
+        days,
+        note: note?.trim() || null,
+        created_by: req.user!.user_id,
+      },
+    });
+
+    await recordAudit(req, 'leave.adjust', { type: 'user', id: user.id }, null, adjustment);
+
+    res.status(201).json(adjustment);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
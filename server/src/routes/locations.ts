@@ -1,19 +1,56 @@
-import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import express, { Router, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { validateBoundary, getBoundaryCircle } from '../shared/geofencing';
+import { validateAutoCheckOutPolicy } from '../services/autoCheckOut';
+import { recordAudit } from '../services/audit';
+import { parseGeoJson, parseKml, toGeoJson, toKml, toCsv, ParseResult } from '../services/locationFormats';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const IMPORT_SIZE_LIMIT = '5mb';
+
+// null clears the override so SCHEDULE_GRACE_MINUTES applies
+function isValidGraceMinutes(value: unknown): boolean {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+}
+
+function isValidPaidBreakMinutes(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+}
+
+// null detaches the location from its holiday calendar
+async function isValidHolidayCalendar(req: AuthRequest, value: unknown): Promise<boolean> {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  return (
+    typeof value === 'string' &&
+    (await prisma.holidayCalendar.count({ where: { id: value, organization_id: req.user!.organization_id } })) > 0
+  );
+}
+
+// Locations of other organizations are reported as not found
+function findOrganizationLocation(req: AuthRequest, id: string) {
+  return prisma.location.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
 // Get locations (admins see all, employees see only assigned)
+// Archived locations are left out unless an admin asks for ?include_archived=true
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.user_id;
     const userRole = req.user!.role;
 
-    // Admins see all locations
+    // Admins see all locations of their organization
     if (userRole === 'admin') {
       const locations = await prisma.location.findMany({
+        where: {
+          organization_id: req.user!.organization_id,
+          ...(req.query.include_archived === 'true' ? {} : { archived_at: null }),
+        },
         orderBy: { created_at: 'desc' },
       });
       return res.json(locations);
@@ -24,6 +61,7 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
       where: { id: userId },
       select: {
         assignedLocations: {
+          where: { location: { archived_at: null } },
           select: {
             location: true,
           },
@@ -38,25 +76,162 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Export all active locations (admin only)
+router.get('/export', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const format = (req.query.format as string) || 'geojson';
+    const locations = await prisma.location.findMany({
+      where: { organization_id: req.user!.organization_id, archived_at: null },
+      orderBy: { name: 'asc' },
+    });
+
+    if (format === 'geojson') {
+      res.setHeader('Content-Disposition', 'attachment; filename="locations.geojson"');
+      return res.type('application/geo+json').send(JSON.stringify(toGeoJson(locations), null, 2));
+    }
+    if (format === 'kml') {
+      res.setHeader('Content-Disposition', 'attachment; filename="locations.kml"');
+      return res.type('application/vnd.google-earth.kml+xml').send(toKml(locations));
+    }
+    if (format === 'csv') {
+      res.setHeader('Content-Disposition', 'attachment; filename="locations.csv"');
+      return res.type('text/csv').send(toCsv(locations));
+    }
+
+    res.status(400).json({ error: 'format must be geojson, kml or csv' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import locations from GeoJSON or KML (admin only)
+// The body is the file itself; ?dry_run=true only reports what would happen
+router.post(
+  '/import',
+  authenticate,
+  requireAdmin,
+  express.text({ type: ['application/vnd.google-earth.kml+xml', 'application/xml', 'text/xml', 'text/plain'], limit: IMPORT_SIZE_LIMIT }),
+  idempotent,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const dryRun = req.query.dry_run === 'true';
+      const format = (req.query.format as string) || (typeof req.body === 'string' ? 'kml' : 'geojson');
+
+      let parsed: ParseResult;
+      try {
+        if (format === 'geojson') {
+          parsed = parseGeoJson(req.body);
+        } else if (format === 'kml') {
+          parsed = parseKml(req.body);
+        } else {
+          return res.status(400).json({ error: 'format must be geojson or kml' });
+        }
+      } catch (parseError: any) {
+        return res.status(400).json({ error: parseError.message, code: 'INVALID_IMPORT_FILE' });
+      }
+
+      // Duplicates are matched by name, against existing locations and within the file
+      const existing = await prisma.location.findMany({
+        where: { organization_id: req.user!.organization_id },
+        select: { id: true, name: true },
+      });
+      const existingByName = new Map(existing.map((location) => [location.name.trim().toLowerCase(), location.id]));
+      const seen = new Set<string>();
+      const duplicates: { index: number; name: string; existing_id?: string }[] = [];
+      const toCreate = parsed.locations.filter((location) => {
+        const key = location.name.toLowerCase();
+        if (existingByName.has(key) || seen.has(key)) {
+          duplicates.push({ index: location.index, name: location.name, existing_id: existingByName.get(key) });
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+      let created: any[] = [];
+      if (!dryRun && toCreate.length > 0) {
+        created = await prisma.$transaction(
+          toCreate.map(({ index, boundary, ...location }) =>
+            prisma.location.create({
+              data: {
+                ...location,
+                boundary: boundary ?? undefined,
+                organization_id: req.user!.organization_id,
+                created_by: req.user!.user_id,
+              },
+            })
+          )
+        );
+        await recordAudit(req, 'location.import', { type: 'location' }, null, {
+          format,
+          created: created.map((location) => ({ id: location.id, name: location.name })),
+        });
+      }
+
+      res.status(dryRun ? 200 : 201).json({
+        dry_run: dryRun,
+        total: parsed.locations.length + parsed.errors.length,
+        valid: toCreate.length,
+        created: dryRun ? [] : created,
+        duplicates,
+        errors: parsed.errors,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Create location (admin only)
-router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, requireAdmin, idempotent, async (req: AuthRequest, res: Response) => {
   try {
-    const { name, latitude, longitude, radius_meters } = req.body;
+    const { name, latitude, longitude, radius_meters, boundary, grace_minutes, paid_break_minutes, holiday_calendar_id } = req.body;
+    const { auto_check_out = 'none', auto_check_out_minute, auto_check_out_hours } = req.body;
 
-    if (!name || latitude === undefined || longitude === undefined || !radius_meters) {
+    if (boundary) {
+      const boundaryError = validateBoundary(boundary);
+      if (!name || boundaryError) {
+        return res.status(400).json({ error: boundaryError || 'Name is required' });
+      }
+    } else if (!name || latitude === undefined || longitude === undefined || !radius_meters) {
       return res.status(400).json({ error: 'Name, latitude, longitude, and radius_meters are required' });
     }
 
+    if (!isValidGraceMinutes(grace_minutes)) {
+      return res.status(400).json({ error: 'grace_minutes must be a non-negative integer' });
+    }
+
+    if (!isValidPaidBreakMinutes(paid_break_minutes)) {
+      return res.status(400).json({ error: 'paid_break_minutes must be a non-negative integer' });
+    }
+
+    if (!(await isValidHolidayCalendar(req, holiday_calendar_id))) {
+      return res.status(400).json({ error: 'Unknown holiday_calendar_id' });
+    }
+
+    const policyError = validateAutoCheckOutPolicy({ auto_check_out, auto_check_out_minute, auto_check_out_hours });
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
     const location = await prisma.location.create({
       data: {
         name,
-        latitude,
-        longitude,
-        radius_meters,
+        // Polygon locations get an enclosing circle as their center/radius
+        ...(boundary ? { ...getBoundaryCircle(boundary), boundary } : { latitude, longitude, radius_meters }),
+        grace_minutes,
+        paid_break_minutes,
+        holiday_calendar_id,
+        auto_check_out,
+        auto_check_out_minute,
+        auto_check_out_hours,
+        organization_id: req.user!.organization_id,
         created_by: req.user!.user_id,
       },
     });
 
+    await recordAudit(req, 'location.create', { type: 'location', id: location.id }, null, location);
+
     res.status(201).json(location);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -64,40 +239,126 @@ router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respo
 });
 
 // Update location (admin only)
-router.put('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.put('/:id', authenticate, requireAdmin, idempotent, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, latitude, longitude, radius_meters } = req.body;
+    const { name, latitude, longitude, radius_meters, boundary, grace_minutes, paid_break_minutes, holiday_calendar_id } = req.body;
+    const { auto_check_out, auto_check_out_minute, auto_check_out_hours } = req.body;
+
+    if (boundary) {
+      const boundaryError = validateBoundary(boundary);
+      if (boundaryError) {
+        return res.status(400).json({ error: boundaryError });
+      }
+    }
+
+    if (!isValidGraceMinutes(grace_minutes)) {
+      return res.status(400).json({ error: 'grace_minutes must be a non-negative integer' });
+    }
+
+    if (!isValidPaidBreakMinutes(paid_break_minutes)) {
+      return res.status(400).json({ error: 'paid_break_minutes must be a non-negative integer' });
+    }
+
+    if (!(await isValidHolidayCalendar(req, holiday_calendar_id))) {
+      return res.status(400).json({ error: 'Unknown holiday_calendar_id' });
+    }
+
+    const existing = await findOrganizationLocation(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+
+    const policyError = validateAutoCheckOutPolicy({
+      auto_check_out: auto_check_out ?? existing.auto_check_out,
+      auto_check_out_minute: auto_check_out_minute === undefined ? existing.auto_check_out_minute : auto_check_out_minute,
+      auto_check_out_hours: auto_check_out_hours === undefined ? existing.auto_check_out_hours : auto_check_out_hours,
+    });
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
 
     const location = await prisma.location.update({
       where: { id },
       data: {
         name,
-        latitude,
-        longitude,
-        radius_meters,
+        grace_minutes,
+        paid_break_minutes,
+        holiday_calendar_id,
+        auto_check_out,
+        auto_check_out_minute,
+        auto_check_out_hours,
+        // boundary: null turns a polygon location back into a circle
+        ...(boundary
+          ? { ...getBoundaryCircle(boundary), boundary }
+          : {
+              latitude,
+              longitude,
+              radius_meters,
+              ...(boundary === null ? { boundary: Prisma.DbNull } : {}),
+            }),
       },
     });
 
+    await recordAudit(req, 'location.update', { type: 'location', id }, existing, location);
+
     res.json(location);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Delete location (admin only)
-router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Archive location (admin only) - no new check-ins, but its attendance, sessions,
+// assignments and schedules stay for historical reports
+router.delete('/:id', authenticate, requireAdmin, idempotent, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    await prisma.location.delete({
+    const location = await findOrganizationLocation(req, id);
+    if (!location) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+    if (location.archived_at) {
+      return res.status(400).json({ error: 'Location is already archived' });
+    }
+
+    const archived = await prisma.location.update({
       where: { id },
+      data: { archived_at: new Date() },
     });
 
+    await recordAudit(req, 'location.archive', { type: 'location', id }, location, archived);
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Restore an archived location (admin only)
+router.post('/:id/restore', authenticate, requireAdmin, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const location = await findOrganizationLocation(req, id);
+    if (!location) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+    if (!location.archived_at) {
+      return res.status(400).json({ error: 'Location is not archived' });
+    }
+
+    const restored = await prisma.location.update({
+      where: { id },
+      data: { archived_at: null },
+    });
+
+    await recordAudit(req, 'location.restore', { type: 'location', id }, location, restored);
+
+    res.json(restored);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,88 @@
+import { Router, Response } from 'express';
+import { authenticate, requireSuperAdmin, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+import { getOrganizationTimeZone } from '../services/schedules';
+import {
+  listOrganizations,
+  createOrganization,
+  updateOrganizationTimeZone,
+  OrganizationError,
+} from '../services/organizations';
+
+const router = Router();
+
+// List organizations (super admin only)
+router.get('/', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizations = await listOrganizations();
+    res.json(organizations);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create organization with its first admin (super admin only)
+// Without admin.password the admin is sent an invitation
+router.post('/', authenticate, requireSuperAdmin, idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, admin, timezone } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (!admin || !admin.email || !admin.full_name) {
+      return res.status(400).json({ error: 'admin.email and admin.full_name are required' });
+    }
+
+    const organization = await createOrganization(
+      name.trim(),
+      {
+        email: admin.email,
+        full_name: admin.full_name,
+        password: admin.password || undefined,
+      },
+      timezone || undefined
+    );
+
+    await recordAudit(req, 'organization.create', { type: 'organization', id: organization.id }, null, organization);
+
+    res.status(201).json(organization);
+  } catch (error: any) {
+    if (error instanceof OrganizationError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update the caller's own organization (admin only); schedule times are read in its time zone
+router.put('/current', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { timezone } = req.body;
+
+    if (!timezone || typeof timezone !== 'string') {
+      return res.status(400).json({ error: 'timezone is required' });
+    }
+
+    const previous = await getOrganizationTimeZone(req.user!.organization_id);
+    const organization = await updateOrganizationTimeZone(req.user!.organization_id, timezone);
+
+    await recordAudit(
+      req,
+      'organization.update',
+      { type: 'organization', id: organization.id },
+      { timezone: previous },
+      { timezone: organization.timezone }
+    );
+
+    res.json(organization);
+  } catch (error: any) {
+    if (error instanceof OrganizationError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
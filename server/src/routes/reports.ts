@@ -0,0 +1,108 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { getManagedUserIds } from '../services/permissions';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+interface GroupTotals {
+  headcount: number;
+  minutes: number;
+  sessions: number;
+}
+
+// Per-department headcount and worked hours, with a breakdown by team.
+// Hours come from closed sessions that started within ?start= and ?end=.
+// Teams without a department are grouped under department id null.
+router.get('/departments', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { start, end } = req.query;
+
+    const managedIds = await getManagedUserIds(req.user!);
+
+    const teams = await prisma.team.findMany({
+      where: { organization_id: req.user!.organization_id },
+      include: {
+        department: { select: { id: true, name: true } },
+        members: { select: { user_id: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const memberIds = new Set(teams.flatMap((team) => team.members.map((member) => member.user_id)));
+    const visibleIds = Array.from(memberIds).filter((id) => managedIds === null || managedIds.includes(id));
+
+    const sessionWhere: any = {
+      organization_id: req.user!.organization_id,
+      user_id: { in: visibleIds },
+      duration_minutes: { not: null },
+    };
+    if (start) {
+      sessionWhere.started_at = { ...sessionWhere.started_at, gte: new Date(start as string) };
+    }
+    if (end) {
+      sessionWhere.started_at = { ...sessionWhere.started_at, lte: new Date(end as string) };
+    }
+
+    const sessions = await prisma.session.groupBy({
+      by: ['user_id'],
+      where: sessionWhere,
+      _sum: { duration_minutes: true },
+      _count: { _all: true },
+    });
+
+    const workedByUser = new Map(
+      sessions.map((row) => [row.user_id, { minutes: row._sum.duration_minutes || 0, sessions: row._count._all }])
+    );
+
+    const totalsFor = (userIds: Set<string>): GroupTotals => {
+      let minutes = 0;
+      let sessionCount = 0;
+      for (const userId of userIds) {
+        const worked = workedByUser.get(userId);
+        if (worked) {
+          minutes += worked.minutes;
+          sessionCount += worked.sessions;
+        }
+      }
+      return { headcount: userIds.size, minutes, sessions: sessionCount };
+    };
+
+    const visible = new Set(visibleIds);
+    const departments = new Map<string | null, { id: string | null; name: string; members: Set<string>; teams: any[] }>();
+
+    for (const team of teams) {
+      const members = new Set(team.members.map((member) => member.user_id).filter((id) => visible.has(id)));
+      // Managers only see the teams that include someone they manage
+      if (managedIds !== null && members.size === 0) {
+        continue;
+      }
+
+      const key = team.department?.id ?? null;
+      if (!departments.has(key)) {
+        departments.set(key, {
+          id: key,
+          name: team.department?.name ?? 'No department',
+          members: new Set(),
+          teams: [],
+        });
+      }
+
+      const department = departments.get(key)!;
+      members.forEach((id) => department.members.add(id));
+      department.teams.push({ id: team.id, name: team.name, ...totalsFor(members) });
+    }
+
+    const report = Array.from(departments.values()).map(({ members, ...department }) => ({
+      ...department,
+      ...totalsFor(members),
+    }));
+
+    res.json(report);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
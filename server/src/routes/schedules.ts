@@ -0,0 +1,286 @@
+import { Router, Response } from 'express';
+import { PrismaClient, Schedule } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+import { canAccessUser, getManagedUserIds, hasPermission, managedUserFilter } from '../services/permissions';
+import {
+  validateScheduleInput,
+  getShifts,
+  getNextShift,
+  getOrganizationTimeZone,
+  ScheduleInput,
+} from '../services/schedules';
+import { isValidDateString, localDateString, addDays, toDateString, fromDateString } from '../utils/time';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const MAX_SHIFT_RANGE_DAYS = 62;
+
+// Dates are returned as YYYY-MM-DD, the same way they are accepted
+function toScheduleJson(schedule: Schedule) {
+  return {
+    ...schedule,
+    date: schedule.date && toDateString(schedule.date),
+    effective_from: schedule.effective_from && toDateString(schedule.effective_from),
+    effective_until: schedule.effective_until && toDateString(schedule.effective_until),
+  };
+}
+
+function toScheduleData(input: ScheduleInput) {
+  const optionalDate = (value: unknown) => (value === undefined ? undefined : value ? fromDateString(value as string) : null);
+  return {
+    weekday: input.weekday as number | null | undefined,
+    date: optionalDate(input.date),
+    start_minute: input.start_minute as number | undefined,
+    end_minute: input.end_minute as number | undefined,
+    effective_from: optionalDate(input.effective_from),
+    effective_until: optionalDate(input.effective_until),
+  };
+}
+
+// Schedules of other organizations are reported as not found
+function findOrganizationSchedule(req: AuthRequest, id: string) {
+  return prisma.schedule.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
+// Get schedule definitions (employees see their own, managers those they manage, admins everyone)
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { user_id, location_id } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    if (hasPermission(req.user!, 'attendance:read')) {
+      const managedIds = await managedUserFilter(req.user!);
+      if (managedIds) {
+        where.user_id = managedIds;
+      }
+      if (user_id) {
+        if (!(await canAccessUser(req.user!, user_id as string))) {
+          return res.status(403).json({ error: 'You can only view schedules for employees you manage', code: 'FORBIDDEN' });
+        }
+        where.user_id = user_id;
+      }
+    } else {
+      where.user_id = req.user!.user_id;
+    }
+
+    if (location_id) {
+      where.location_id = location_id;
+    }
+
+    const schedules = await prisma.schedule.findMany({
+      where,
+      include: {
+        location: { select: { id: true, name: true } },
+        user: { select: { id: true, email: true, full_name: true } },
+      },
+      orderBy: [{ weekday: 'asc' }, { date: 'asc' }, { start_minute: 'asc' }],
+    });
+
+    res.json(schedules.map(toScheduleJson));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get current user's current or next shift (null when nothing is scheduled this week)
+router.get('/next', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const shift = await getNextShift(req.user!.organization_id, req.user!.user_id);
+    if (!shift) {
+      return res.json(null);
+    }
+
+    const location = await prisma.location.findUnique({
+      where: { id: shift.location_id },
+      select: { id: true, name: true },
+    });
+
+    res.json({ ...shift, location });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get shifts between ?start= and ?end= (YYYY-MM-DD), each classified against recorded sessions
+router.get('/shifts', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { start, end, user_id } = req.query;
+
+    if (!isValidDateString(start) || !isValidDateString(end) || start > end) {
+      return res.status(400).json({ error: 'start and end must be YYYY-MM-DD with start <= end' });
+    }
+    if (addDays(start, MAX_SHIFT_RANGE_DAYS) < end) {
+      return res.status(400).json({ error: `At most ${MAX_SHIFT_RANGE_DAYS} days can be requested at once` });
+    }
+
+    let userIds: string[] | null;
+    if (user_id) {
+      if (!(await canAccessUser(req.user!, user_id as string))) {
+        return res.status(403).json({ error: 'You can only view shifts for employees you manage', code: 'FORBIDDEN' });
+      }
+      userIds = [user_id as string];
+    } else if (hasPermission(req.user!, 'attendance:read')) {
+      userIds = await getManagedUserIds(req.user!);
+    } else {
+      userIds = [req.user!.user_id];
+    }
+
+    const shifts = await getShifts(req.user!.organization_id, userIds, start, end);
+    res.json(shifts);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Expected vs. actual roster for one day (?date=YYYY-MM-DD, default today in the organization's time zone).
+// Sessions that don't belong to any shift are listed as unscheduled.
+router.get('/roster', authenticate, requirePermission('attendance:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const timeZone = await getOrganizationTimeZone(req.user!.organization_id);
+    const date = (req.query.date as string) || localDateString(new Date(), timeZone);
+
+    if (!isValidDateString(date)) {
+      return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    }
+
+    const managedIds = await getManagedUserIds(req.user!);
+    const shifts = await getShifts(req.user!.organization_id, managedIds, date, date);
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        organization_id: req.user!.organization_id,
+        ...(managedIds ? { user_id: { in: managedIds } } : {}),
+        started_at: { gte: fromDateString(addDays(date, -1)), lt: fromDateString(addDays(date, 2)) },
+      },
+      select: { id: true, user_id: true, location_id: true, started_at: true, ended_at: true },
+    });
+    const matched = new Set(shifts.flatMap((shift) => shift.session_ids));
+    const unscheduled = sessions.filter(
+      (session) => !matched.has(session.id) && localDateString(session.started_at, timeZone) === date
+    );
+
+    const userIds = Array.from(new Set([...shifts, ...unscheduled].map((entry) => entry.user_id)));
+    const locationIds = Array.from(new Set([...shifts, ...unscheduled].map((entry) => entry.location_id)));
+    const [users, locations] = await Promise.all([
+      prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, email: true, full_name: true } }),
+      prisma.location.findMany({
+        where: { id: { in: locationIds.filter((id): id is string => !!id) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const locationsById = new Map(locations.map((location) => [location.id, location]));
+
+    res.json({
+      date,
+      timezone: timeZone,
+      shifts: shifts.map((shift) => ({
+        ...shift,
+        user: usersById.get(shift.user_id) ?? null,
+        location: locationsById.get(shift.location_id) ?? null,
+      })),
+      unscheduled: unscheduled.map((session) => ({
+        ...session,
+        user: usersById.get(session.user_id) ?? null,
+        location: (session.location_id && locationsById.get(session.location_id)) || null,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create schedule (admins, or managers for employees they manage)
+router.post('/', authenticate, requirePermission('schedules:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationError = validateScheduleInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { user_id, location_id } = req.body;
+
+    if (!(await canAccessUser(req.user!, user_id))) {
+      return res.status(403).json({ error: 'You can only schedule employees you manage', code: 'FORBIDDEN' });
+    }
+
+    const location = await prisma.location.findFirst({
+      where: { id: location_id, organization_id: req.user!.organization_id, archived_at: null },
+    });
+    if (!location) {
+      return res.status(400).json({ error: 'Unknown location_id' });
+    }
+
+    const schedule = await prisma.schedule.create({
+      data: {
+        ...toScheduleData(req.body),
+        start_minute: req.body.start_minute,
+        end_minute: req.body.end_minute,
+        organization_id: req.user!.organization_id,
+        user_id,
+        location_id,
+      },
+    });
+
+    await recordAudit(req, 'schedule.create', { type: 'schedule', id: schedule.id }, null, toScheduleJson(schedule));
+
+    res.status(201).json(toScheduleJson(schedule));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update schedule times or dates (admins, or managers for employees they manage)
+router.put('/:id', authenticate, requirePermission('schedules:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await findOrganizationSchedule(req, id);
+    if (!existing || !(await canAccessUser(req.user!, existing.user_id))) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const { user_id: _user, location_id: _location, ...changes } = req.body;
+    const validationError = validateScheduleInput({ ...toScheduleJson(existing), ...changes });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const schedule = await prisma.schedule.update({
+      where: { id },
+      data: toScheduleData(changes),
+    });
+
+    await recordAudit(req, 'schedule.update', { type: 'schedule', id }, toScheduleJson(existing), toScheduleJson(schedule));
+
+    res.json(toScheduleJson(schedule));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete schedule (admins, or managers for employees they manage)
+router.delete('/:id', authenticate, requirePermission('schedules:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await findOrganizationSchedule(req, id);
+    if (!existing || !(await canAccessUser(req.user!, existing.user_id))) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    await prisma.schedule.delete({ where: { id } });
+
+    await recordAudit(req, 'schedule.delete', { type: 'schedule', id }, toScheduleJson(existing), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { canAccessUser, hasPermission, managedUserFilter } from '../services/permissions';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Your own sessions need no permission. Anyone else's go through requirePermission,
+// which also holds back admins that still have to set up 2FA.
+function requireSessionAccess(req: AuthRequest, res: Response, next: NextFunction) {
+  if (isOwnSessionsRequest(req)) {
+    return next();
+  }
+  return requirePermission('attendance:read')(req, res, next);
+}
+
+// Without ?user_id=, users that can read attendance get everyone they manage
+function isOwnSessionsRequest(req: AuthRequest): boolean {
+  const { user_id } = req.query;
+  return user_id ? user_id === req.user!.user_id : !hasPermission(req.user!, 'attendance:read');
+}
+
+// Get sessions (employees see their own, managers those they manage, admins anyone)
+router.get('/', authenticate, requireSessionAccess, async (req: AuthRequest, res: Response) => {
+  try {
+    const { start, end, location_id, user_id } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+
+    if (isOwnSessionsRequest(req)) {
+      where.user_id = req.user!.user_id;
+    } else {
+      const managedIds = await managedUserFilter(req.user!);
+      if (managedIds) {
+        where.user_id = managedIds;
+      }
+      if (user_id) {
+        if (!(await canAccessUser(req.user!, user_id as string))) {
+          return res.status(403).json({ error: 'You can only view sessions for employees you manage', code: 'FORBIDDEN' });
+        }
+        where.user_id = user_id;
+      }
+    }
+
+    if (start) {
+      where.started_at = { ...where.started_at, gte: new Date(start as string) };
+    }
+    if (end) {
+      where.started_at = { ...where.started_at, lte: new Date(end as string) };
+    }
+    if (location_id) {
+      where.location_id = location_id;
+    }
+
+    const sessions = await prisma.session.findMany({
+      where,
+      include: {
+        location: true,
+        user: {
+          select: {
+            id: true,
+            email: true,
+            full_name: true,
+          },
+        },
+      },
+      orderBy: { started_at: 'asc' },
+    });
+
+    res.json(sessions);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
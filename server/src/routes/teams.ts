@@ -0,0 +1,238 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const teamInclude = {
+  department: {
+    select: { id: true, name: true },
+  },
+  members: {
+    select: {
+      user: {
+        select: { id: true, email: true, full_name: true, role: true },
+      },
+    },
+  },
+};
+
+// Teams of other organizations are reported as not found
+function findOrganizationTeam(req: AuthRequest, id: string) {
+  return prisma.team.findFirst({ where: { id, organization_id: req.user!.organization_id }, include: teamInclude });
+}
+
+// Departments and members must come from the caller's organization
+async function validateTeamReferences(
+  organizationId: string,
+  departmentId: string | null | undefined,
+  userIds: string[]
+): Promise<string | null> {
+  if (departmentId) {
+    const department = await prisma.department.findFirst({
+      where: { id: departmentId, organization_id: organizationId },
+    });
+    if (!department) {
+      return 'Unknown department_id';
+    }
+  }
+
+  const users = await prisma.user.count({
+    where: { id: { in: userIds }, organization_id: organizationId },
+  });
+  return users === new Set(userIds).size ? null : 'Unknown user in member list';
+}
+
+// Flatten the members relation for easier frontend use
+function flattenMembers<T extends { members: { user: unknown }[] }>(team: T) {
+  return { ...team, members: team.members.map((member) => member.user) };
+}
+
+// What the audit log records about a team
+function auditSnapshot(team: { name: string; department_id: string | null; members: { user: { id: string } }[] }) {
+  return {
+    name: team.name,
+    department_id: team.department_id,
+    member_ids: team.members.map((member) => member.user.id).sort(),
+  };
+}
+
+// Get teams (admins see all, managers see the teams they belong to)
+router.get('/', authenticate, requirePermission('users:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { department_id } = req.query;
+
+    const where: any = { organization_id: req.user!.organization_id };
+    if (department_id) {
+      where.department_id = department_id;
+    }
+    if (req.user!.role !== 'admin') {
+      where.members = { some: { user_id: req.user!.user_id } };
+    }
+
+    const teams = await prisma.team.findMany({
+      where,
+      include: teamInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(teams.map(flattenMembers));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create team (admin only)
+router.post('/', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, department_id, member_ids } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const referenceError = await validateTeamReferences(req.user!.organization_id, department_id, member_ids || []);
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const existing = await prisma.team.findFirst({
+      where: { organization_id: req.user!.organization_id, name: name.trim() },
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A team with this name already exists' });
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        organization_id: req.user!.organization_id,
+        name: name.trim(),
+        department_id: department_id || null,
+        members: {
+          create: (member_ids || []).map((userId: string) => ({
+            user: { connect: { id: userId } },
+          })),
+        },
+      },
+      include: teamInclude,
+    });
+
+    await recordAudit(req, 'team.create', { type: 'team', id: team.id }, null, auditSnapshot(team));
+
+    res.status(201).json(flattenMembers(team));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update team name or department (admin only)
+router.put('/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, department_id } = req.body;
+
+    const data: any = {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'name cannot be empty' });
+      }
+      data.name = name.trim();
+    }
+    if (department_id !== undefined) {
+      data.department_id = department_id || null;
+    }
+
+    const existing = await findOrganizationTeam(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const referenceError = await validateTeamReferences(req.user!.organization_id, department_id, []);
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const team = await prisma.team.update({
+      where: { id },
+      data,
+      include: teamInclude,
+    });
+
+    await recordAudit(req, 'team.update', { type: 'team', id }, auditSnapshot(existing), auditSnapshot(team));
+
+    res.json(flattenMembers(team));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replace team members (admin only)
+router.put('/:id/members', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { user_ids } = req.body;
+
+    if (!Array.isArray(user_ids)) {
+      return res.status(400).json({ error: 'user_ids must be an array' });
+    }
+
+    const existing = await findOrganizationTeam(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const referenceError = await validateTeamReferences(req.user!.organization_id, null, user_ids);
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    await prisma.$transaction([
+      prisma.teamMember.deleteMany({ where: { team_id: id } }),
+      prisma.teamMember.createMany({
+        data: user_ids.map((userId: string) => ({ team_id: id, user_id: userId })),
+      }),
+    ]);
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: teamInclude,
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    await recordAudit(req, 'team.members', { type: 'team', id }, auditSnapshot(existing), auditSnapshot(team));
+
+    res.json(flattenMembers(team));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete team (admin only)
+router.delete('/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const team = await findOrganizationTeam(req, id);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    await prisma.team.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, 'team.delete', { type: 'team', id }, auditSnapshot(team), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
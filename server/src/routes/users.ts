@@ -1,15 +1,46 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
-import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { revokeAllSessions } from '../services/auth';
+import { sendInvite, revokeUserTokens } from '../services/userTokens';
+import { checkOutDeactivatedUser } from '../services/autoCheckOut';
+import { unlockUser } from '../services/loginThrottle';
+import { isTotpRequired } from '../services/twoFactor';
+import { isSuperAdmin } from '../services/organizations';
+import { canAccessUser, managedUserFilter } from '../services/permissions';
+import { parseTeamFilter } from '../services/teams';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Get all users (admin only)
-router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Roles an admin can give to a user
+const ASSIGNABLE_ROLES = ['employee', 'manager', 'admin'];
+
+// Users of other organizations are reported as not found
+function findOrganizationUser(req: AuthRequest, id: string) {
+  return prisma.user.findFirst({ where: { id, organization_id: req.user!.organization_id } });
+}
+
+async function locationsBelongToOrganization(locationIds: string[], organizationId: string): Promise<boolean> {
+  const count = await prisma.location.count({
+    where: { id: { in: locationIds }, organization_id: organizationId },
+  });
+  return count === new Set(locationIds).size;
+}
+
+// Get all users (admins see everyone, managers see the employees they manage)
+// Optional ?team_id= or ?department_id= narrows the list; ?include_deactivated=true adds deactivated users
+router.get('/', authenticate, requirePermission('users:read'), async (req: AuthRequest, res: Response) => {
   try {
     const users = await prisma.user.findMany({
+      where: {
+        organization_id: req.user!.organization_id,
+        id: await managedUserFilter(req.user!, parseTeamFilter(req.query)),
+        ...(req.query.include_deactivated === 'true' ? {} : { deactivated_at: null }),
+      },
       select: {
         id: true,
         email: true,
@@ -17,7 +48,10 @@ router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respon
         role: true,
         device_id: true,
         device_reset_requested: true,
+        locked_until: true,
+        deactivated_at: true,
         created_at: true,
+        password_hash: true,
         assignedLocations: {
           select: {
             location: {
@@ -28,14 +62,26 @@ router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respon
             },
           },
         },
+        teamMemberships: {
+          select: {
+            team: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
       },
       orderBy: { full_name: 'asc' },
     });
 
-    // Flatten the assignedLocations for easier frontend use
-    const usersWithLocations = users.map((user) => ({
+    // Flatten the assignedLocations for easier frontend use; only expose whether a password is set
+    const usersWithLocations = users.map(({ password_hash, teamMemberships, ...user }) => ({
       ...user,
+      invite_pending: !password_hash,
       assignedLocations: user.assignedLocations.map((al) => al.location),
+      teams: teamMemberships.map((tm) => tm.team),
     }));
 
     res.json(usersWithLocations);
@@ -45,30 +91,50 @@ router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respon
 });
 
 // Create user (admin only)
-router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
-    const { email, password, full_name, location_ids } = req.body;
+    const { email, password, full_name, location_ids, send_invite, role = 'employee' } = req.body;
+
+    if (!email || !full_name) {
+      return res.status(400).json({ error: 'Email and full_name are required' });
+    }
+
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    }
 
-    if (!email || !password || !full_name) {
-      return res.status(400).json({ error: 'Email, password, and full_name are required' });
+    // Either the admin sets a password or the user picks one through an emailed invitation
+    if (!send_invite && !password) {
+      return res.status(400).json({ error: 'Password is required unless send_invite is set' });
+    }
+
+    if (!(await locationsBelongToOrganization(location_ids || [], req.user!.organization_id))) {
+      return res.status(400).json({ error: 'Unknown location in location_ids' });
     }
 
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({ where: { email } });
+    if (existingUser?.deactivated_at && existingUser.organization_id === req.user!.organization_id) {
+      return res.status(400).json({
+        error: 'This email belongs to a deactivated user. Restore the user instead.',
+        code: 'USER_DEACTIVATED',
+      });
+    }
     if (existingUser) {
       return res.status(400).json({ error: 'Email already registered' });
     }
 
     // Hash password
-    const password_hash = await bcrypt.hash(password, 10);
+    const password_hash = send_invite ? null : await bcrypt.hash(password, 10);
 
     // Create user with location assignments
     const user = await prisma.user.create({
       data: {
+        organization_id: req.user!.organization_id,
         email,
         password_hash,
         full_name,
-        role: 'employee',
+        role,
         assignedLocations: {
           create: (location_ids || []).map((locationId: string) => ({
             location: { connect: { id: locationId } },
@@ -96,12 +162,20 @@ router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respo
       },
     });
 
+    const invite_expires_at = send_invite ? await sendInvite(user) : null;
+
     // Flatten the assignedLocations
     const userWithLocations = {
       ...user,
       assignedLocations: user.assignedLocations.map((al) => al.location),
+      invite_expires_at,
     };
 
+    await recordAudit(req, 'user.create', { type: 'user', id: user.id }, null, {
+      ...userWithLocations,
+      invited: !!send_invite,
+    });
+
     res.status(201).json(userWithLocations);
   } catch (error: any) {
     console.error('Error creating user:', error);
@@ -110,7 +184,7 @@ router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Respo
 });
 
 // Update user's assigned locations (admin only)
-router.put('/:id/locations', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+router.put('/:id/locations', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const { location_ids } = req.body;
@@ -119,6 +193,19 @@ router.put('/:id/locations', authenticate, requireAdmin, async (req: AuthRequest
       return res.status(400).json({ error: 'location_ids must be an array' });
     }
 
+    if (!(await findOrganizationUser(req, id))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await locationsBelongToOrganization(location_ids, req.user!.organization_id))) {
+      return res.status(400).json({ error: 'Unknown location in location_ids' });
+    }
+
+    const previous = await prisma.userLocation.findMany({
+      where: { user_id: id },
+      select: { location_id: true },
+    });
+
     // Delete existing assignments
     await prisma.userLocation.deleteMany({
       where: { user_id: id },
@@ -167,6 +254,14 @@ router.put('/:id/locations', authenticate, requireAdmin, async (req: AuthRequest
       assignedLocations: user.assignedLocations.map((al) => al.location),
     };
 
+    await recordAudit(
+      req,
+      'user.locations',
+      { type: 'user', id },
+      { location_ids: previous.map((assignment) => assignment.location_id).sort() },
+      { location_ids: user.assignedLocations.map((al) => al.location.id).sort() }
+    );
+
     res.json(userWithLocations);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -185,7 +280,11 @@ router.get('/profile', authenticate, async (req: AuthRequest, res: Response) =>
         role: true,
         device_id: true,
         device_reset_requested: true,
+        totp_enabled: true,
         created_at: true,
+        organization: {
+          select: { id: true, name: true, timezone: true },
+        },
       },
     });
 
@@ -193,20 +292,31 @@ router.get('/profile', authenticate, async (req: AuthRequest, res: Response) =>
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json(user);
+    res.json({ ...user, totp_required: isTotpRequired(user), super_admin: isSuperAdmin(user) });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Update device_id (for device binding)
-router.patch('/device', authenticate, async (req: AuthRequest, res: Response) => {
+// Reset device for user (admin only)
+router.post('/:id/reset-device', authenticate, requirePermission('devices:reset'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
-    const { device_id } = req.body;
+    const { id } = req.params;
+
+    // Managers can't clear their own binding; that still takes an admin
+    const isOwnDevice = id === req.user!.user_id && req.user!.role !== 'admin';
+    if (isOwnDevice || !(await canAccessUser(req.user!, id))) {
+      return res.status(403).json({ error: 'You can only reset devices for employees you manage', code: 'FORBIDDEN' });
+    }
+
+    const existing = await findOrganizationUser(req, id);
 
     const user = await prisma.user.update({
-      where: { id: req.user!.user_id },
-      data: { device_id },
+      where: { id },
+      data: {
+        device_id: null,
+        device_reset_requested: false,
+      },
       select: {
         id: true,
         email: true,
@@ -218,37 +328,113 @@ router.patch('/device', authenticate, async (req: AuthRequest, res: Response) =>
       },
     });
 
+    // Sessions on the old device must not survive the reset
+    await revokeAllSessions(id);
+
+    await recordAudit(
+      req,
+      'user.reset_device',
+      { type: 'user', id },
+      { device_id: existing?.device_id, device_reset_requested: existing?.device_reset_requested },
+      { device_id: user.device_id, device_reset_requested: user.device_reset_requested }
+    );
+
     res.json(user);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Request device reset
-router.post('/request-device-reset', authenticate, async (req: AuthRequest, res: Response) => {
+// Resend invitation (admin only) - previous invitation codes stop working
+router.post('/:id/resend-invite', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
-    await prisma.user.update({
-      where: { id: req.user!.user_id },
-      data: { device_reset_requested: true },
-    });
+    const { id } = req.params;
+
+    const user = await findOrganizationUser(req, id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.password_hash) {
+      return res.status(400).json({ error: 'User has already accepted the invitation' });
+    }
+    if (user.deactivated_at) {
+      return res.status(400).json({ error: 'User is deactivated' });
+    }
+
+    const invite_expires_at = await sendInvite(user);
+    await recordAudit(req, 'user.resend_invite', { type: 'user', id }, null, { email: user.email, invite_expires_at });
+    res.json({ success: true, invite_expires_at });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Unlock user after failed logins (admin only)
+router.post('/:id/unlock', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await findOrganizationUser(req, id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
 
+    await unlockUser(id);
+    await recordAudit(
+      req,
+      'user.unlock',
+      { type: 'user', id },
+      { failed_login_count: user.failed_login_count, locked_until: user.locked_until },
+      { failed_login_count: 0, locked_until: null }
+    );
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Reset device for user (admin only)
-router.post('/:id/reset-device', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Revoke all sessions for user (admin only) - forces sign-in again on every device
+router.post('/:id/revoke-sessions', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
+    const user = await findOrganizationUser(req, id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revoked = await revokeAllSessions(id);
+    await recordAudit(req, 'user.revoke_sessions', { type: 'user', id }, null, { revoked });
+    res.json({ success: true, revoked });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change user's role (admin only)
+router.put('/:id/role', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    }
+
+    // Prevent admins from locking themselves out
+    if (id === req.user!.user_id) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    const existing = await findOrganizationUser(req, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     const user = await prisma.user.update({
       where: { id },
-      data: {
-        device_id: null,
-        device_reset_requested: false,
-      },
+      data: { role },
       select: {
         id: true,
         email: true,
@@ -260,37 +446,87 @@ router.post('/:id/reset-device', authenticate, requireAdmin, async (req: AuthReq
       },
     });
 
+    // Requests already use the new role; signing in again gives the app a token that carries it
+    await revokeAllSessions(id);
+
+    await recordAudit(req, 'user.role', { type: 'user', id }, { role: existing.role }, { role: user.role });
+
     res.json(user);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Delete user (admin only)
-router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response) => {
+// Deactivate user (admin only) - blocks sign-in and hides the user from active lists.
+// Attendance, sessions and created locations are kept as payroll records.
+router.delete('/:id', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    // Prevent deleting yourself
+    // Prevent deactivating yourself
     if (id === req.user!.user_id) {
-      return res.status(400).json({ error: 'Cannot delete yourself' });
+      return res.status(400).json({ error: 'Cannot deactivate yourself' });
     }
 
-    // Delete attendance records first (foreign key constraint)
-    await prisma.attendance.deleteMany({
-      where: { user_id: id },
-    });
+    const user = await findOrganizationUser(req, id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.deactivated_at) {
+      return res.status(400).json({ error: 'User is already deactivated' });
+    }
 
-    // Delete any locations created by the user
-    await prisma.location.deleteMany({
-      where: { created_by: id },
+    const deactivated = await prisma.user.update({
+      where: { id },
+      data: { deactivated_at: new Date() },
     });
 
-    // Delete the user
-    await prisma.user.delete({
+    // Sign out every device (authenticate refuses the access tokens still out there),
+    // void pending invite and reset codes, and end a session left open
+    await revokeAllSessions(id);
+    await revokeUserTokens(id);
+    await checkOutDeactivatedUser(id, deactivated.deactivated_at!);
+
+    await recordAudit(
+      req,
+      'user.deactivate',
+      { type: 'user', id },
+      { deactivated_at: null },
+      { deactivated_at: deactivated.deactivated_at }
+    );
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Restore a deactivated user (admin only)
+router.post('/:id/restore', authenticate, requirePermission('users:manage'), idempotent, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await findOrganizationUser(req, id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.deactivated_at) {
+      return res.status(400).json({ error: 'User is not deactivated' });
+    }
+
+    await prisma.user.update({
       where: { id },
+      data: { deactivated_at: null },
     });
 
+    await recordAudit(
+      req,
+      'user.restore',
+      { type: 'user', id },
+      { deactivated_at: user.deactivated_at },
+      { deactivated_at: null }
+    );
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
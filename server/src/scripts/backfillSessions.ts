@@ -0,0 +1,74 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { rebuildSessions } from '../services/corrections';
+
+/**
+ * One-off backfill for attendance recorded before sessions existed. Run it once
+ * after `prisma db push` has created the sessions table and before the server
+ * takes punches again (`npm run build && npm run sessions:backfill`); without it
+ * earlier history is missing from reports and anyone checked in at the time
+ * can't check out.
+ *
+ * Each user's check-ins and check-outs that aren't part of a session yet are
+ * paired in time order, so running it again only picks up what is left. Users
+ * whose punches don't pair up are listed, to be fixed with corrections.
+ */
+
+const prisma = new PrismaClient();
+
+// Pairing years of one user's punches can outlast the default 5 second transaction
+const USER_TIMEOUT_MS = 60 * 1000;
+
+// Earliest check_in or check_out not yet part of any session
+function firstUnpairedPunch(userId: string) {
+  return prisma.attendance.findFirst({
+    where: {
+      user_id: userId,
+      superseded_at: null,
+      status: { in: ['check_in', 'check_out'] },
+      checkInSession: { is: null },
+      checkOutSession: { is: null },
+    },
+    orderBy: { timestamp: 'asc' },
+  });
+}
+
+async function backfillSessions(): Promise<void> {
+  const users = await prisma.user.findMany({
+    where: { attendance: { some: {} } },
+    select: { id: true, email: true },
+    orderBy: { email: 'asc' },
+  });
+
+  let paired = 0;
+  const failed: string[] = [];
+  for (const user of users) {
+    const punch = await firstUnpairedPunch(user.id);
+    if (!punch) {
+      continue;
+    }
+
+    try {
+      await prisma.$transaction((tx) => rebuildSessions(tx, user.id, punch.timestamp), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        timeout: USER_TIMEOUT_MS,
+      });
+      paired++;
+    } catch (error: any) {
+      failed.push(user.email);
+      console.error(`${user.email}: ${error.message}`);
+    }
+  }
+
+  console.log(`Paired the punches of ${paired} user(s); ${users.length - paired - failed.length} were already up to date`);
+  if (failed.length > 0) {
+    console.error(`Punches of ${failed.length} user(s) don't form valid sessions: ${failed.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+backfillSessions()
+  .catch((error) => {
+    console.error('Session backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,329 @@
+import { PrismaClient, Prisma, Attendance, Location, Session } from '@prisma/client';
+import { TokenPayload } from './auth';
+import { isValidCoordinates, isWithinFence, getDistanceOutsideLocation } from '../shared/geofencing';
+import { parsePositionSignals, evaluatePunchSignals } from './punchPolicy';
+
+const prisma = new PrismaClient();
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type PunchStatus = 'check_in' | 'check_out' | 'break_start' | 'break_end';
+
+export const PUNCH_STATUSES: PunchStatus[] = ['check_in', 'check_out', 'break_start', 'break_end'];
+
+export interface OpenSession {
+  id: string;
+  check_in_id: string;
+  started_at: Date;
+  break_started_at: Date | null;
+  break_minutes: number;
+  location_id: string | null;
+  location: Location | null;
+}
+
+export interface PunchInput {
+  status: unknown;
+  latitude: unknown;
+  longitude: unknown;
+  location_id?: unknown;
+  client_id?: unknown;
+  accuracy?: unknown;
+  altitude?: unknown;
+  speed?: unknown;
+  is_mocked?: unknown;
+  // Device-side time of the punch, only honoured for queued offline punches
+  timestamp?: Date;
+}
+
+export interface PunchError {
+  httpStatus: number;
+  code: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export type PunchResult =
+  | { record: Attendance; duplicate: boolean; error?: undefined }
+  | { error: PunchError };
+
+export interface TransitionError {
+  code: 'SESSION_ALREADY_OPEN' | 'NO_OPEN_SESSION' | 'LOCATION_MISMATCH' | 'ALREADY_ON_BREAK' | 'NOT_ON_BREAK';
+  message: string;
+}
+
+/**
+ * Returns the user's currently open session, i.e. a check_in that has not
+ * been followed by a check_out yet.
+ */
+export async function getOpenSession(userId: string, db: Db = prisma): Promise<OpenSession | null> {
+  const session = await db.session.findFirst({
+    where: { user_id: userId, ended_at: null },
+    include: { location: true },
+    orderBy: { started_at: 'desc' },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  return {
+    id: session.id,
+    check_in_id: session.check_in_id,
+    started_at: session.started_at,
+    break_started_at: session.break_started_at,
+    break_minutes: session.break_minutes,
+    location_id: session.location_id,
+    location: session.location,
+  };
+}
+
+function isPunchStatus(value: unknown): value is PunchStatus {
+  return PUNCH_STATUSES.includes(value as PunchStatus);
+}
+
+/**
+ * Minutes worked in a session: its wall time minus the break time beyond
+ * what the location pays for
+ */
+export function workedMinutes(startedAt: Date, endedAt: Date, breakMinutes: number, paidBreakMinutes: number): number {
+  const wallMinutes = (endedAt.getTime() - startedAt.getTime()) / 60000;
+  return Math.max(0, wallMinutes - Math.max(0, breakMinutes - paidBreakMinutes));
+}
+
+/**
+ * Validates a punch against the user's open session.
+ * A user can have at most one open session, and it must be closed at the
+ * location where it was opened. Breaks can only start and end inside it.
+ */
+export function validateTransition(
+  openSession: OpenSession | null,
+  status: PunchStatus,
+  locationId: string
+): TransitionError | null {
+  if (status === 'check_in' && openSession) {
+    return {
+      code: 'SESSION_ALREADY_OPEN',
+      message: `You are already checked in${openSession.location ? ` at ${openSession.location.name}` : ''}`,
+    };
+  }
+
+  if (status === 'check_in') {
+    return null;
+  }
+
+  if (!openSession) {
+    return { code: 'NO_OPEN_SESSION', message: 'You are not checked in' };
+  }
+  if (openSession.location_id && openSession.location_id !== locationId) {
+    const action = status === 'check_out' ? 'check out' : 'record breaks';
+    return {
+      code: 'LOCATION_MISMATCH',
+      message: `You must ${action} at ${openSession.location?.name || 'the location you checked in at'}`,
+    };
+  }
+  if (status === 'break_start' && openSession.break_started_at) {
+    return { code: 'ALREADY_ON_BREAK', message: 'You are already on a break' };
+  }
+  if (status === 'break_end' && !openSession.break_started_at) {
+    return { code: 'NOT_ON_BREAK', message: 'You are not on a break' };
+  }
+
+  return null;
+}
+
+/**
+ * Links a punch to the user's sessions: a check_in opens a new session, break
+ * punches start and end a break in the open one, and a check_out closes it,
+ * storing the worked duration. Checking out during a break ends the break.
+ * Must run in the same transaction that created the attendance record.
+ */
+export async function applyPunchToSession(
+  db: Db,
+  record: Attendance,
+  openSession: OpenSession | null
+): Promise<Session> {
+  if (record.status === 'check_in') {
+    return db.session.create({
+      data: {
+        organization_id: record.organization_id,
+        user_id: record.user_id,
+        location_id: record.location_id,
+        check_in_id: record.id,
+        started_at: record.timestamp,
+      },
+    });
+  }
+
+  if (!openSession) {
+    throw new Error('Cannot update a session that is not open');
+  }
+
+  if (record.status === 'break_start') {
+    return db.session.update({
+      where: { id: openSession.id },
+      data: { break_started_at: record.timestamp },
+    });
+  }
+
+  const breakMinutes =
+    openSession.break_minutes +
+    (openSession.break_started_at ? (record.timestamp.getTime() - openSession.break_started_at.getTime()) / 60000 : 0);
+
+  if (record.status === 'break_end') {
+    return db.session.update({
+      where: { id: openSession.id },
+      data: { break_started_at: null, break_minutes: breakMinutes },
+    });
+  }
+
+  return db.session.update({
+    where: { id: openSession.id },
+    data: {
+      check_out_id: record.id,
+      ended_at: record.timestamp,
+      break_started_at: null,
+      break_minutes: breakMinutes,
+      duration_minutes: workedMinutes(
+        openSession.started_at,
+        record.timestamp,
+        breakMinutes,
+        openSession.location?.paid_break_minutes ?? 0
+      ),
+    },
+  });
+}
+
+function punchError(httpStatus: number, code: string, message: string, details?: Record<string, any>): { error: PunchError } {
+  return { error: { httpStatus, code, message, details } };
+}
+
+/**
+ * Validates and stores a single punch: input shape, location assignment,
+ * server-side geofence check, session transition and ordering.
+ * Punches carrying a client_id that was already stored are reported as duplicates.
+ */
+export async function recordPunch(user: TokenPayload, input: PunchInput): Promise<PunchResult> {
+  const { status, latitude, longitude, location_id, client_id, timestamp } = input;
+
+  if (!status || latitude === undefined || longitude === undefined) {
+    return punchError(400, 'INVALID_PUNCH', 'Status, latitude, and longitude are required');
+  }
+
+  if (!isPunchStatus(status)) {
+    return punchError(400, 'INVALID_PUNCH', `Status must be one of ${PUNCH_STATUSES.join(', ')}`);
+  }
+
+  if (!isValidCoordinates(latitude, longitude)) {
+    return punchError(400, 'INVALID_COORDINATES', 'Latitude and longitude must be valid numbers');
+  }
+
+  if (!location_id || typeof location_id !== 'string') {
+    return punchError(400, 'LOCATION_REQUIRED', 'location_id is required');
+  }
+
+  if (client_id !== undefined && client_id !== null && typeof client_id !== 'string') {
+    return punchError(400, 'INVALID_PUNCH', 'client_id must be a string');
+  }
+
+  const coords = { latitude: latitude as number, longitude: longitude as number };
+  const signals = parsePositionSignals(input);
+
+  if (client_id) {
+    const existing = await prisma.attendance.findUnique({
+      where: { user_id_client_id: { user_id: user.user_id, client_id } },
+    });
+    if (existing) {
+      return { record: existing, duplicate: true };
+    }
+  }
+
+  const location = await prisma.location.findFirst({
+    where: { id: location_id, organization_id: user.organization_id },
+  });
+  if (!location) {
+    return punchError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+  }
+
+  // Sessions already open at an archived location can still be finished; offline punches
+  // recorded before it was archived are accepted too
+  if (location.archived_at && status === 'check_in' && (timestamp || new Date()) >= location.archived_at) {
+    return punchError(403, 'LOCATION_ARCHIVED', `${location.name} has been archived`);
+  }
+
+  // Admins can punch at any location (they see all of them), employees only at assigned ones
+  if (user.role !== 'admin') {
+    const assignment = await prisma.userLocation.findUnique({
+      where: {
+        user_id_location_id: {
+          user_id: user.user_id,
+          location_id,
+        },
+      },
+    });
+    if (!assignment) {
+      return punchError(403, 'LOCATION_NOT_ASSIGNED', 'You are not assigned to this location');
+    }
+  }
+
+  // Recompute the geofence check server-side, never trust the client's verdict
+  if (!isWithinFence(coords, location)) {
+    return punchError(403, 'OUTSIDE_GEOFENCE', `You are outside ${location.name}`, {
+      distance_outside_meters: Math.round(getDistanceOutsideLocation(coords, location)),
+      radius_meters: location.radius_meters,
+    });
+  }
+
+  // Serializable so two concurrent punches cannot both pass the transition check
+  try {
+    return await prisma.$transaction(
+      async (tx): Promise<PunchResult> => {
+        const latest = await tx.attendance.findFirst({
+          where: { user_id: user.user_id, superseded_at: null },
+          orderBy: { timestamp: 'desc' },
+        });
+        if (timestamp && latest && latest.timestamp > timestamp) {
+          return punchError(409, 'OUT_OF_ORDER', 'Punch is older than the latest recorded punch', {
+            latest_timestamp: latest.timestamp,
+          });
+        }
+
+        const { violation, reasons } = evaluatePunchSignals(coords, timestamp || new Date(), signals, location, latest);
+        if (violation) {
+          return punchError(422, violation.code, violation.message, violation.details);
+        }
+
+        const openSession = await getOpenSession(user.user_id, tx);
+        const transitionError = validateTransition(openSession, status, location_id);
+        if (transitionError) {
+          return punchError(409, transitionError.code, transitionError.message, {
+            open_session: openSession,
+          });
+        }
+
+        const record = await tx.attendance.create({
+          data: {
+            organization_id: user.organization_id,
+            user_id: user.user_id,
+            status,
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            location_id,
+            client_id: client_id || null,
+            ...signals,
+            suspicious: reasons.length > 0,
+            suspicion_reasons: reasons,
+            ...(timestamp ? { timestamp } : {}),
+          },
+        });
+        await applyPunchToSession(tx, record, openSession);
+        return { record, duplicate: false };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && (error.code === 'P2034' || error.code === 'P2002')) {
+      return punchError(409, 'CONCURRENT_PUNCH', 'Another punch is being recorded, please retry');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { AuthRequest } from '../middleware/auth';
+
+const prisma = new PrismaClient();
+
+// Secrets are never copied into audit rows
+const REDACTED_FIELDS = ['password_hash', 'totp_secret', 'totp_last_step', 'totp_recovery_codes', 'token_hash'];
+
+export interface AuditTarget {
+  type: string; // user, location, team, ...
+  id?: string | null;
+}
+
+export type AuditSnapshot = Record<string, any> | null | undefined;
+
+// JSON-safe copy without secrets (dates become ISO strings)
+function sanitize(snapshot: AuditSnapshot): Record<string, unknown> | null {
+  if (!snapshot) {
+    return null;
+  }
+  const copy: Record<string, unknown> = JSON.parse(JSON.stringify(snapshot));
+  for (const field of REDACTED_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+/**
+ * Narrows an update's before/after snapshots to the fields that changed.
+ * Creates (no before) and deletes (no after) keep the whole record.
+ */
+export function diffSnapshots(
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const cleanBefore = sanitize(before);
+  const cleanAfter = sanitize(after);
+  if (!cleanBefore || !cleanAfter) {
+    return { before: cleanBefore, after: cleanAfter };
+  }
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(cleanBefore), ...Object.keys(cleanAfter)])) {
+    if (JSON.stringify(cleanBefore[key]) !== JSON.stringify(cleanAfter[key])) {
+      changedBefore[key] = cleanBefore[key];
+      changedAfter[key] = cleanAfter[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Appends an audit event for an action the authenticated user just performed.
+ * Called after the change succeeded; a failure to write is logged rather than
+ * turning the already-applied change into an error response.
+ */
+export async function recordAudit(
+  req: AuthRequest,
+  action: string,
+  target: AuditTarget,
+  before?: AuditSnapshot,
+  after?: AuditSnapshot
+): Promise<void> {
+  const diff = diffSnapshots(before, after);
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        organization_id: req.user!.organization_id,
+        actor_id: req.user!.user_id,
+        actor_email: req.user!.email,
+        action,
+        target_type: target.type,
+        target_id: target.id ?? null,
+        before: (diff.before ?? undefined) as Prisma.InputJsonObject | undefined,
+        after: (diff.after ?? undefined) as Prisma.InputJsonObject | undefined,
+        ip: req.ip ?? null,
+        user_agent: req.get('user-agent') ?? null,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to write audit event ${action}:`, error);
+  }
+}
@@ -1,72 +1,204 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import {
+  LoginContext,
+  assertLoginAllowed,
+  recordLoginFailure,
+  registerLoginFailure,
+  clearLoginFailures,
+} from './loginThrottle';
+import { verifySecondFactor } from './twoFactor';
+import { isSuperAdmin } from './organizations';
 
 const prisma = new PrismaClient();
+
+// Never sign production tokens with the well-known development fallback
+if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+  throw new Error('JWT_SECRET must be set in production');
+}
+
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = '7d';
+const JWT_EXPIRES_IN = '15m'; // short-lived; clients renew via /api/auth/refresh
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
 
 export interface TokenPayload {
   user_id: string;
   email: string;
-  role: string;
+  role: UserRole;
+  organization_id: string; // every query made for this user is scoped to its organization
+  super_admin?: boolean; // may create organizations
+  mfa?: boolean; // the account has two-factor authentication enabled
 }
 
+// Credentials and 2FA secrets never leave the server
+export type PublicUser = Omit<User, 'password_hash' | 'totp_secret' | 'totp_last_step' | 'totp_recovery_codes'>;
+
 export interface AuthResult {
-  user: Omit<User, 'password_hash'>;
+  user: PublicUser;
   token: string;
+  refresh_token: string;
 }
 
-export async function register(
-  email: string,
-  password: string,
-  fullName: string,
-  deviceId?: string
-): Promise<AuthResult> {
-  console.log('Register called with device_id:', deviceId);
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+}
 
-  const existingUser = await prisma.user.findUnique({ where: { email } });
-  if (existingUser) {
-    throw new Error('Email already registered');
-  }
+export interface TokenPair {
+  token: string;
+  refresh_token: string;
+}
 
-  const password_hash = await bcrypt.hash(password, 10);
+export class RefreshTokenError extends Error {}
 
-  const user = await prisma.user.create({
-    data: {
-      email,
-      password_hash,
-      full_name: fullName,
-      role: 'employee',
-      device_id: deviceId || null, // Bind device at signup time
-    },
-  });
+// Raised when an employee signs in or punches from a device other than the one bound to the account
+export class DeviceMismatchError extends Error {
+  code = 'DEVICE_MISMATCH';
+  email: string;
+  device_reset_requested: boolean;
+  reset_token: string;
 
-  console.log('User created with device_id:', user.device_id);
+  constructor(user: Pick<User, 'id' | 'email' | 'device_reset_requested'>) {
+    super('This account is registered to another device');
+    this.email = user.email;
+    this.device_reset_requested = user.device_reset_requested;
+    this.reset_token = generateDeviceResetToken(user.id);
+  }
 
-  const token = generateToken(user);
-  const { password_hash: _, ...userWithoutPassword } = user;
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      email: this.email,
+      device_reset_requested: this.device_reset_requested,
+      reset_token: this.reset_token,
+    };
+  }
+}
 
-  return { user: userWithoutPassword, token };
+export function toPublicUser(user: User): PublicUser {
+  const {
+    password_hash: _password,
+    totp_secret: _secret,
+    totp_last_step: _step,
+    totp_recovery_codes: _codes,
+    ...publicUser
+  } = user;
+  return publicUser;
 }
 
-export async function login(email: string, password: string): Promise<AuthResult> {
-  const user = await prisma.user.findUnique({ where: { email } });
+export async function issueSession(user: User): Promise<AuthResult> {
+  const token = generateToken(user);
+  const refresh_token = await createRefreshToken(user.id);
+  return { user: toPublicUser(user), token, refresh_token };
+}
+
+export async function login(
+  email: string,
+  password: string,
+  context: LoginContext,
+  deviceId?: string
+): Promise<AuthResult | MfaChallenge> {
+  let user = await prisma.user.findUnique({ where: { email } });
+  await assertLoginAllowed(email, user, context);
+
   if (!user) {
+    await recordLoginFailure(email, null, context, 'unknown_email');
+    throw new Error('Invalid email or password');
+  }
+
+  // Invited users have no password until they accept the invitation
+  if (!user.password_hash) {
+    await registerLoginFailure(user, context, 'invalid_password');
     throw new Error('Invalid email or password');
   }
 
   const validPassword = await bcrypt.compare(password, user.password_hash);
   if (!validPassword) {
+    await registerLoginFailure(user, context, 'invalid_password');
     throw new Error('Invalid email or password');
   }
 
-  console.log('Login - user device_id from database:', user.device_id);
+  // Checked after the password so the message doesn't reveal which emails exist
+  if (user.deactivated_at) {
+    throw new Error('This account has been deactivated');
+  }
 
-  const token = generateToken(user);
-  const { password_hash: _, ...userWithoutPassword } = user;
+  // Failures are only cleared once every factor has been verified
+  if (user.totp_enabled) {
+    return { mfa_required: true, mfa_token: generateMfaToken(user.id) };
+  }
 
-  return { user: userWithoutPassword, token };
+  await clearLoginFailures(user);
+  user = await bindDevice(user, deviceId);
+
+  return issueSession(user);
+}
+
+// Second login step for accounts with 2FA: a TOTP or recovery code plus the mfa_token from login
+export async function completeMfaLogin(
+  mfaToken: string,
+  code: string,
+  context: LoginContext,
+  deviceId?: string
+): Promise<AuthResult> {
+  let userId: string;
+  try {
+    userId = verifyPurposeToken(mfaToken, 'mfa');
+  } catch {
+    throw new Error('Your sign-in has expired. Please start again.');
+  }
+
+  let user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  await assertLoginAllowed(user.email, user, context);
+
+  if (user.deactivated_at) {
+    throw new Error('This account has been deactivated');
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    await registerLoginFailure(user, context, 'invalid_totp');
+    throw new Error('Invalid authentication code');
+  }
+
+  await clearLoginFailures(user);
+  user = await bindDevice(user, deviceId);
+
+  return issueSession(user);
+}
+
+// Admins are not bound to a device. Employees bind on their first login (or the first
+// login after an admin reset); any other device is rejected.
+async function bindDevice(user: User, deviceId?: string): Promise<User> {
+  if (user.role === 'admin') {
+    return user;
+  }
+
+  if (!deviceId) {
+    throw new DeviceMismatchError(user);
+  }
+
+  if (!user.device_id) {
+    // Conditional update so two devices logging in at once can't both claim the binding
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, device_id: null },
+      data: { device_id: deviceId, device_reset_requested: false },
+    });
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    if (count === 0 && current.device_id !== deviceId) {
+      throw new DeviceMismatchError(current);
+    }
+    return current;
+  }
+
+  if (user.device_id !== deviceId) {
+    throw new DeviceMismatchError(user);
+  }
+
+  return user;
 }
 
 export function generateToken(user: User): string {
@@ -74,19 +206,147 @@ export function generateToken(user: User): string {
     user_id: user.id,
     email: user.email,
     role: user.role,
+    organization_id: user.organization_id,
+    super_admin: isSuperAdmin(user),
+    mfa: user.totp_enabled,
   };
 
   return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
 }
 
 export function verifyToken(token: string): TokenPayload {
-  return jwt.verify(token, JWT_SECRET) as TokenPayload;
+  const payload = jwt.verify(token, JWT_SECRET) as TokenPayload & { purpose?: string };
+  // Tokens issued before organizations existed can't be scoped; the client refreshes them
+  if (payload.purpose || !payload.organization_id) {
+    throw new Error('Invalid token');
+  }
+  return payload;
+}
+
+// Narrow single-purpose tokens, e.g. a blocked device asking for a reset or a login awaiting its second factor
+function generatePurposeToken(userId: string, purpose: 'device_reset' | 'mfa', expiresIn: '1h' | '5m'): string {
+  return jwt.sign({ user_id: userId, purpose }, JWT_SECRET, { expiresIn });
+}
+
+function verifyPurposeToken(token: string, purpose: 'device_reset' | 'mfa'): string {
+  const payload = jwt.verify(token, JWT_SECRET) as { user_id: string; purpose?: string };
+  if (payload.purpose !== purpose) {
+    throw new Error('Invalid token');
+  }
+  return payload.user_id;
+}
+
+function generateDeviceResetToken(userId: string): string {
+  return generatePurposeToken(userId, 'device_reset', '1h');
+}
+
+export function verifyDeviceResetToken(token: string): string {
+  return verifyPurposeToken(token, 'device_reset');
+}
+
+function generateMfaToken(userId: string): string {
+  return generatePurposeToken(userId, 'mfa', '5m');
+}
+
+function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+async function createRefreshToken(userId: string): Promise<string> {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  await prisma.refreshToken.create({
+    data: {
+      user_id: userId,
+      token_hash: hashRefreshToken(refreshToken),
+      expires_at: refreshTokenExpiry(),
+    },
+  });
+  return refreshToken;
+}
+
+// Exchange a refresh token for a new access/refresh pair. Each refresh token is
+// single-use: presenting an already-rotated token revokes every session of that user.
+export async function rotateRefreshToken(refreshToken: string): Promise<TokenPair> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashRefreshToken(refreshToken) },
+    include: { user: true },
+  });
+
+  if (!stored) {
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  if (stored.revoked_at) {
+    if (stored.replaced_by) {
+      await revokeAllSessions(stored.user_id);
+    }
+    throw new RefreshTokenError('Refresh token has been revoked');
+  }
+
+  if (stored.expires_at < new Date()) {
+    throw new RefreshTokenError('Refresh token has expired');
+  }
+
+  if (stored.user.deactivated_at) {
+    throw new RefreshTokenError('This account has been deactivated');
+  }
+
+  const nextToken = crypto.randomBytes(48).toString('base64url');
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Conditional update so two concurrent refreshes can't both rotate the same token
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: stored.id, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const next = await tx.refreshToken.create({
+      data: {
+        user_id: stored.user_id,
+        token_hash: hashRefreshToken(nextToken),
+        expires_at: refreshTokenExpiry(),
+      },
+    });
+    await tx.refreshToken.update({
+      where: { id: stored.id },
+      data: { replaced_by: next.id },
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    throw new RefreshTokenError('Refresh token has been revoked');
+  }
+
+  return { token: generateToken(stored.user), refresh_token: nextToken };
+}
+
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { token_hash: hashRefreshToken(refreshToken), revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+}
+
+// Sign the user out everywhere; access tokens already issued expire on their own
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+  return count;
 }
 
-export async function getUserById(id: string): Promise<Omit<User, 'password_hash'> | null> {
+export async function getUserById(id: string): Promise<PublicUser | null> {
   const user = await prisma.user.findUnique({ where: { id } });
   if (!user) return null;
 
-  const { password_hash: _, ...userWithoutPassword } = user;
-  return userWithoutPassword;
+  return toPublicUser(user);
 }
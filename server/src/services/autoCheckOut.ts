@@ -0,0 +1,307 @@
+import { PrismaClient, Prisma, Attendance, AutoCheckOutPolicy, Location } from '@prisma/client';
+import { TokenPayload } from './auth';
+import { getOpenSession, applyPunchToSession, PunchError } from './attendance';
+import { rebuildSessions, CorrectionError } from './corrections';
+import { reevaluateExceptions } from './exceptions';
+import { getShifts, getOrganizationTimeZone } from './schedules';
+import { sendMail } from './mail';
+import { zonedTime, localDateString, addDays } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// How often open sessions are checked against their location's policy (0 disables the job)
+const AUTO_CHECK_OUT_INTERVAL_MINUTES = parseInt(process.env.AUTO_CHECK_OUT_INTERVAL_MINUTES || '15', 10);
+const MAX_AUTO_CHECK_OUT_HOURS = 48;
+
+export const AUTO_CHECK_OUT_POLICIES: AutoCheckOutPolicy[] = ['none', 'fixed_time', 'after_hours', 'shift_end'];
+
+export interface AutoCheckOutInput {
+  auto_check_out?: unknown;
+  auto_check_out_minute?: unknown;
+  auto_check_out_hours?: unknown;
+}
+
+type PolicySettings = Pick<Location, 'auto_check_out' | 'auto_check_out_minute' | 'auto_check_out_hours'>;
+
+export type ResolveResult = { record: Attendance; original: Attendance; error?: undefined } | { error: PunchError };
+
+/**
+ * Validates a location's complete auto check-out policy (for updates, the stored
+ * policy merged with the changes). Returns an error message, or null when valid.
+ */
+export function validateAutoCheckOutPolicy(input: AutoCheckOutInput): string | null {
+  const { auto_check_out: policy, auto_check_out_minute: minute, auto_check_out_hours: hours } = input;
+
+  if (!AUTO_CHECK_OUT_POLICIES.includes(policy as AutoCheckOutPolicy)) {
+    return `auto_check_out must be one of ${AUTO_CHECK_OUT_POLICIES.join(', ')}`;
+  }
+  if (minute !== undefined && minute !== null && (!Number.isInteger(minute) || (minute as number) < 0 || (minute as number) > 1439)) {
+    return 'auto_check_out_minute must be minutes after midnight (0-1439)';
+  }
+  if (
+    hours !== undefined &&
+    hours !== null &&
+    (typeof hours !== 'number' || !(hours > 0) || hours > MAX_AUTO_CHECK_OUT_HOURS)
+  ) {
+    return `auto_check_out_hours must be a number of hours between 0 and ${MAX_AUTO_CHECK_OUT_HOURS}`;
+  }
+
+  if (policy === 'fixed_time' && (minute === undefined || minute === null)) {
+    return 'auto_check_out_minute is required for the fixed_time policy';
+  }
+  if (policy === 'after_hours' && (hours === undefined || hours === null)) {
+    return 'auto_check_out_hours is required for the after_hours policy';
+  }
+
+  return null;
+}
+
+/**
+ * When a session opened at `startedAt` is due to be closed under `settings`,
+ * or null when the policy never closes it. `shiftEnd` is the end of the shift
+ * the session belongs to, if any.
+ */
+export function autoCheckOutTime(
+  startedAt: Date,
+  settings: PolicySettings,
+  timeZone: string,
+  shiftEnd: Date | null
+): Date | null {
+  const afterHours = () =>
+    settings.auto_check_out_hours ? new Date(startedAt.getTime() + settings.auto_check_out_hours * 60 * 60 * 1000) : null;
+
+  switch (settings.auto_check_out) {
+    case 'fixed_time': {
+      if (settings.auto_check_out_minute === null) {
+        return null;
+      }
+      // The first time the clock shows the configured time after the check-in
+      const date = localDateString(startedAt, timeZone);
+      const sameDay = zonedTime(date, settings.auto_check_out_minute, timeZone);
+      return sameDay > startedAt ? sameDay : zonedTime(addDays(date, 1), settings.auto_check_out_minute, timeZone);
+    }
+    case 'after_hours':
+      return afterHours();
+    case 'shift_end':
+      return shiftEnd ?? afterHours();
+    default:
+      return null;
+  }
+}
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+// Writes the system check-out, unless the employee has checked out since the session was loaded
+async function closeSession(
+  session: { id: string; organization_id: string; user_id: string; location_id: string | null },
+  timestamp: Date,
+  coords: { latitude: number; longitude: number }
+): Promise<Attendance | null> {
+  return prisma.$transaction(
+    async (tx) => {
+      const openSession = await getOpenSession(session.user_id, tx);
+      if (!openSession || openSession.id !== session.id) {
+        return null;
+      }
+
+      const record = await tx.attendance.create({
+        data: {
+          organization_id: session.organization_id,
+          user_id: session.user_id,
+          location_id: session.location_id,
+          status: 'check_out',
+          ...coords,
+          timestamp,
+          auto: true,
+        },
+      });
+      await applyPunchToSession(tx, record, openSession);
+      return record;
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Closes every open session whose location policy says it is overdue, timed at the
+ * moment the policy closes it, and emails the employee. Returns the number closed.
+ */
+export async function runAutoCheckOut(now = new Date()): Promise<number> {
+  const sessions = await prisma.session.findMany({
+    where: { ended_at: null, location: { auto_check_out: { not: 'none' } } },
+    include: {
+      location: true,
+      checkIn: { select: { latitude: true, longitude: true } },
+      user: { select: { email: true, full_name: true } },
+    },
+  });
+
+  const timeZones = new Map<string, string>();
+  let closed = 0;
+
+  for (const session of sessions) {
+    try {
+      if (!timeZones.has(session.organization_id)) {
+        timeZones.set(session.organization_id, await getOrganizationTimeZone(session.organization_id));
+      }
+      const timeZone = timeZones.get(session.organization_id)!;
+      const location = session.location!;
+
+      let shiftEnd: Date | null = null;
+      if (location.auto_check_out === 'shift_end') {
+        // A session may belong to a shift starting the day before or after its check-in date
+        const date = localDateString(session.started_at, timeZone);
+        const shifts = await getShifts(session.organization_id, [session.user_id], addDays(date, -1), addDays(date, 1), now);
+        shiftEnd = shifts.find((shift) => shift.session_ids.includes(session.id))?.end ?? null;
+      }
+
+      const due = autoCheckOutTime(session.started_at, location, timeZone, shiftEnd);
+      if (!due || due > now) {
+        continue;
+      }
+
+      const record = await closeSession(session, due, session.checkIn);
+      if (!record) {
+        continue;
+      }
+      closed++;
+
+      await sendMail({
+        to: session.user.email,
+        subject: 'You were checked out automatically',
+        text: [
+          `Hi ${session.user.full_name},`,
+          '',
+          `You didn't check out at ${location.name}, so you were checked out automatically at ${formatLocalTime(due, timeZone)}.`,
+          '',
+          'Open the app to confirm this time, or correct it if you left earlier.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      // A session that failed to close is retried on the next run
+      console.error(`Auto check-out of session ${session.id} failed:`, error);
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Checks a deactivated user out of the session they left open, at the moment of
+ * deactivation and at their check-in position, so they don't stay on site forever.
+ * Returns the check-out, or null when no session was open.
+ */
+export async function checkOutDeactivatedUser(userId: string, now = new Date()): Promise<Attendance | null> {
+  const session = await prisma.session.findFirst({
+    where: { user_id: userId, ended_at: null },
+    include: { checkIn: { select: { latitude: true, longitude: true } } },
+  });
+  if (!session) {
+    return null;
+  }
+  return closeSession(session, now, session.checkIn);
+}
+
+/**
+ * Confirms one of the user's auto check-outs, or moves it to `timestamp` when the
+ * employee left earlier. Later times need an admin, so hours can't be added this way.
+ * A moved check-out supersedes the original record, like an approved correction,
+ * and the user's sessions are paired again so breaks and durations follow the new end.
+ */
+export async function resolveAutoCheckOut(user: TokenPayload, id: string, timestamp?: Date): Promise<ResolveResult> {
+  const record = await prisma.attendance.findFirst({
+    where: { id, organization_id: user.organization_id, user_id: user.user_id, auto: true, superseded_at: null },
+    include: { checkOutSession: true },
+  });
+  if (!record || !record.checkOutSession) {
+    return { error: { httpStatus: 404, code: 'NOT_FOUND', message: 'Auto check-out not found' } };
+  }
+  if (record.auto_confirmed_at) {
+    return { error: { httpStatus: 409, code: 'ALREADY_CONFIRMED', message: 'This auto check-out was already confirmed' } };
+  }
+
+  const session = record.checkOutSession;
+  if (timestamp && (timestamp <= session.started_at || timestamp > record.timestamp)) {
+    return {
+      error: {
+        httpStatus: 400,
+        code: 'INVALID_TIMESTAMP',
+        message: 'The corrected time must be after your check-in and no later than the automatic check-out',
+        details: { started_at: session.started_at, auto_timestamp: record.timestamp },
+      },
+    };
+  }
+
+  if (!timestamp || timestamp.getTime() === record.timestamp.getTime()) {
+    const { count } = await prisma.attendance.updateMany({
+      where: { id, auto_confirmed_at: null, superseded_at: null },
+      data: { auto_confirmed_at: new Date() },
+    });
+    if (count === 0) {
+      return { error: { httpStatus: 409, code: 'ALREADY_CONFIRMED', message: 'This auto check-out was already confirmed' } };
+    }
+    return { record: await prisma.attendance.findUniqueOrThrow({ where: { id } }), original: record };
+  }
+
+  let moved: Attendance;
+  try {
+    moved = await prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.attendance.updateMany({
+          where: { id, auto_confirmed_at: null, superseded_at: null },
+          data: { superseded_at: new Date() },
+        });
+        if (count === 0) {
+          throw new CorrectionError('This auto check-out was already confirmed', 'ALREADY_CONFIRMED', 409);
+        }
+
+        const created = await tx.attendance.create({
+          data: {
+            organization_id: record.organization_id,
+            user_id: record.user_id,
+            location_id: record.location_id,
+            status: record.status,
+            timestamp,
+            latitude: record.latitude,
+            longitude: record.longitude,
+            auto: true,
+            auto_confirmed_at: new Date(),
+            corrects_id: record.id,
+          },
+        });
+        // Breaks that ran past the new end make the session invalid and roll everything back
+        await rebuildSessions(tx, user.user_id, session.started_at);
+        return created;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    if (error instanceof CorrectionError) {
+      return { error: { httpStatus: error.httpStatus, code: error.code, message: error.message } };
+    }
+    throw error;
+  }
+
+  const timeZone = await getOrganizationTimeZone(user.organization_id);
+  await reevaluateExceptions(
+    user.organization_id,
+    [record.timestamp, timestamp].map((date) => localDateString(date, timeZone))
+  );
+
+  return { record: moved, original: record };
+}
+
+export function startAutoCheckOutJob(): void {
+  if (AUTO_CHECK_OUT_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  const run = () => {
+    runAutoCheckOut().catch((error) => console.error('Auto check-out failed:', error));
+  };
+
+  run();
+  setInterval(run, AUTO_CHECK_OUT_INTERVAL_MINUTES * 60 * 1000);
+}
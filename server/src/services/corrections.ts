@@ -0,0 +1,273 @@
+import { PrismaClient, Prisma, Attendance, CorrectionRequest, CorrectionType, Location } from '@prisma/client';
+import { TokenPayload } from './auth';
+import { applyPunchToSession, validateTransition, OpenSession, PunchStatus, PUNCH_STATUSES } from './attendance';
+import { reevaluateExceptions } from './exceptions';
+import { getOrganizationTimeZone } from './schedules';
+import { localDateString } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MAX_REASON_LENGTH = 500;
+
+export const CORRECTION_TYPES: CorrectionType[] = ['add_punch', 'change_time', 'change_location'];
+
+export class CorrectionError extends Error {
+  code: string;
+  httpStatus: number;
+
+  constructor(message: string, code: string, httpStatus = 400) {
+    super(message);
+    this.code = code;
+    this.httpStatus = httpStatus;
+  }
+}
+
+export interface CorrectionInput {
+  type?: unknown;
+  attendance_id?: unknown;
+  punch_status?: unknown;
+  timestamp?: unknown;
+  location_id?: unknown;
+  reason?: unknown;
+}
+
+function parsePastTimestamp(value: unknown): Date {
+  const timestamp = typeof value === 'string' ? new Date(value) : null;
+  if (!timestamp || isNaN(timestamp.getTime())) {
+    throw new CorrectionError('timestamp must be a valid date', 'INVALID_CORRECTION');
+  }
+  if (timestamp.getTime() > Date.now()) {
+    throw new CorrectionError('timestamp cannot be in the future', 'INVALID_CORRECTION');
+  }
+  return timestamp;
+}
+
+async function findLocation(user: TokenPayload, value: unknown): Promise<Location> {
+  const location =
+    typeof value === 'string'
+      ? await prisma.location.findFirst({ where: { id: value, organization_id: user.organization_id } })
+      : null;
+  if (!location) {
+    throw new CorrectionError('Unknown location_id', 'INVALID_CORRECTION');
+  }
+  return location;
+}
+
+/**
+ * Stores a pending correction of the user's own attendance after checking that
+ * it describes a change that could be applied
+ */
+export async function createCorrectionRequest(user: TokenPayload, input: CorrectionInput): Promise<CorrectionRequest> {
+  const { type, attendance_id, punch_status, timestamp, location_id, reason } = input;
+
+  if (!CORRECTION_TYPES.includes(type as CorrectionType)) {
+    throw new CorrectionError(`type must be one of ${CORRECTION_TYPES.join(', ')}`, 'INVALID_CORRECTION');
+  }
+  if (typeof reason !== 'string' || !reason.trim()) {
+    throw new CorrectionError('A reason is required', 'INVALID_CORRECTION');
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new CorrectionError(`reason must be at most ${MAX_REASON_LENGTH} characters`, 'INVALID_CORRECTION');
+  }
+
+  const data: Prisma.CorrectionRequestUncheckedCreateInput = {
+    organization_id: user.organization_id,
+    user_id: user.user_id,
+    type: type as CorrectionType,
+    reason: reason.trim(),
+  };
+
+  if (type === 'add_punch') {
+    if (!PUNCH_STATUSES.includes(punch_status as PunchStatus)) {
+      throw new CorrectionError(`punch_status must be one of ${PUNCH_STATUSES.join(', ')}`, 'INVALID_CORRECTION');
+    }
+    data.punch_status = punch_status as PunchStatus;
+    data.timestamp = parsePastTimestamp(timestamp);
+    data.location_id = (await findLocation(user, location_id)).id;
+  } else {
+    const original =
+      typeof attendance_id === 'string'
+        ? await prisma.attendance.findFirst({
+            where: { id: attendance_id, organization_id: user.organization_id, user_id: user.user_id, superseded_at: null },
+          })
+        : null;
+    if (!original) {
+      throw new CorrectionError('Attendance record not found', 'NOT_FOUND', 404);
+    }
+    data.attendance_id = original.id;
+
+    if (type === 'change_time') {
+      data.timestamp = parsePastTimestamp(timestamp);
+    } else {
+      const location = await findLocation(user, location_id);
+      if (location.id === original.location_id) {
+        throw new CorrectionError('The record is already at this location', 'INVALID_CORRECTION');
+      }
+      data.location_id = location.id;
+    }
+  }
+
+  return prisma.correctionRequest.create({ data });
+}
+
+/**
+ * Deletes the user's sessions from `from` on and pairs their punches again, in
+ * time order. Throws when the punches no longer form valid sessions.
+ */
+export async function rebuildSessions(tx: Prisma.TransactionClient, userId: string, from: Date): Promise<void> {
+  // Start at the session that was open at `from`, if any, so it is rebuilt whole
+  const containing = await tx.session.findFirst({
+    where: { user_id: userId, started_at: { lte: from } },
+    orderBy: { started_at: 'desc' },
+  });
+  const start = containing && (!containing.ended_at || containing.ended_at >= from) ? containing.started_at : from;
+
+  await tx.session.deleteMany({ where: { user_id: userId, started_at: { gte: start } } });
+
+  const punches = await tx.attendance.findMany({
+    where: { user_id: userId, superseded_at: null, timestamp: { gte: start } },
+    include: { location: true },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  let openSession = null as OpenSession | null;
+  for (const punch of punches) {
+    const transitionError = validateTransition(openSession, punch.status as PunchStatus, punch.location_id ?? '');
+    if (transitionError) {
+      throw new CorrectionError(
+        `The corrected punches don't form valid sessions: ${transitionError.message} (${punch.timestamp.toISOString()})`,
+        transitionError.code,
+        409
+      );
+    }
+
+    const session = await applyPunchToSession(tx, punch, openSession);
+    openSession =
+      punch.status === 'check_out'
+        ? null
+        : {
+            id: session.id,
+            check_in_id: session.check_in_id,
+            started_at: session.started_at,
+            break_started_at: session.break_started_at,
+            break_minutes: session.break_minutes,
+            location_id: session.location_id,
+            location: openSession?.location ?? punch.location,
+          };
+  }
+}
+
+// The record an approved correction adds, copying the original for changes
+async function correctedRecord(tx: Db, request: CorrectionRequest): Promise<{ record: Attendance; original: Attendance | null }> {
+  const location = request.location_id
+    ? await tx.location.findUnique({ where: { id: request.location_id } })
+    : null;
+
+  if (request.type === 'add_punch') {
+    if (!location) {
+      throw new CorrectionError('The requested location no longer exists', 'LOCATION_NOT_FOUND', 409);
+    }
+    const record = await tx.attendance.create({
+      data: {
+        organization_id: request.organization_id,
+        user_id: request.user_id,
+        location_id: location.id,
+        status: request.punch_status!,
+        timestamp: request.timestamp!,
+        latitude: location.latitude,
+        longitude: location.longitude,
+      },
+    });
+    return { record, original: null };
+  }
+
+  const original = request.attendance_id
+    ? await tx.attendance.findUnique({ where: { id: request.attendance_id } })
+    : null;
+  if (!original || original.superseded_at) {
+    throw new CorrectionError('The record was changed or removed since the request was made', 'RECORD_CHANGED', 409);
+  }
+  if (request.type === 'change_location' && !location) {
+    throw new CorrectionError('The requested location no longer exists', 'LOCATION_NOT_FOUND', 409);
+  }
+
+  await tx.attendance.update({ where: { id: original.id }, data: { superseded_at: new Date() } });
+
+  const record = await tx.attendance.create({
+    data: {
+      organization_id: original.organization_id,
+      user_id: original.user_id,
+      status: original.status,
+      timestamp: request.type === 'change_time' ? request.timestamp! : original.timestamp,
+      ...(request.type === 'change_location'
+        ? { location_id: location!.id, latitude: location!.latitude, longitude: location!.longitude }
+        : { location_id: original.location_id, latitude: original.latitude, longitude: original.longitude }),
+      auto: original.auto,
+      auto_confirmed_at: original.auto_confirmed_at,
+      corrects_id: original.id,
+    },
+  });
+  return { record, original };
+}
+
+/**
+ * Approves or rejects a pending request. Approval adds the corrected record,
+ * marks the original as superseded and re-pairs the employee's sessions.
+ */
+export async function reviewCorrectionRequest(
+  reviewer: TokenPayload,
+  request: CorrectionRequest,
+  approve: boolean,
+  note: string | null
+): Promise<CorrectionRequest> {
+  if (request.status !== 'pending') {
+    throw new CorrectionError('This request was already reviewed', 'ALREADY_REVIEWED', 409);
+  }
+  if (request.user_id === reviewer.user_id) {
+    throw new CorrectionError("You can't review your own correction request", 'FORBIDDEN', 403);
+  }
+
+  const review = { reviewed_by: reviewer.user_id, reviewed_at: new Date(), review_note: note };
+
+  const { updated, timestamps } = await prisma.$transaction(
+    async (tx) => {
+      // Conditional update so two reviewers can't both act on the same request
+      const { count } = await tx.correctionRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: { ...review, status: approve ? 'approved' : 'rejected' },
+      });
+      if (count === 0) {
+        throw new CorrectionError('This request was already reviewed', 'ALREADY_REVIEWED', 409);
+      }
+
+      if (!approve) {
+        return { updated: await tx.correctionRequest.findUniqueOrThrow({ where: { id: request.id } }), timestamps: [] };
+      }
+
+      const { record, original } = await correctedRecord(tx, request);
+      const timestamps = original ? [original.timestamp, record.timestamp] : [record.timestamp];
+      await rebuildSessions(tx, request.user_id, new Date(Math.min(...timestamps.map((t) => t.getTime()))));
+
+      const updated = await tx.correctionRequest.update({
+        where: { id: request.id },
+        data: { result_id: record.id },
+      });
+      return { updated, timestamps };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  if (timestamps.length === 0) {
+    return updated;
+  }
+
+  const timeZone = await getOrganizationTimeZone(request.organization_id);
+  await reevaluateExceptions(
+    request.organization_id,
+    timestamps.map((timestamp) => localDateString(timestamp, timeZone))
+  );
+
+  return updated;
+}
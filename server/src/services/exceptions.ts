@@ -0,0 +1,177 @@
+import { PrismaClient, AttendanceExceptionType, Prisma } from '@prisma/client';
+import { getShifts, getOrganizationTimeZone, EvaluatedShift } from './schedules';
+import { localDateString, addDays, fromDateString, toDateString } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// A session outside any shift that stays open this long is reported as a missing check-out
+const MAX_UNSCHEDULED_SESSION_HOURS = parseInt(process.env.MAX_UNSCHEDULED_SESSION_HOURS || '12', 10);
+// How often the daily job checks for organizations with a finished, unevaluated day (0 disables it)
+const EXCEPTION_JOB_INTERVAL_MINUTES = parseInt(process.env.EXCEPTION_JOB_INTERVAL_MINUTES || '60', 10);
+// After downtime the job catches up at most this many days
+const MAX_CATCH_UP_DAYS = 7;
+
+export const EXCEPTION_TYPES: AttendanceExceptionType[] = ['late_arrival', 'early_leave', 'no_show', 'missing_check_out'];
+
+type ExceptionData = Omit<Prisma.AttendanceExceptionCreateManyInput, 'organization_id' | 'date'>;
+
+function exceptionsForShift(shift: EvaluatedShift, now: Date): ExceptionData[] {
+  const base = {
+    user_id: shift.user_id,
+    location_id: shift.location_id,
+    schedule_id: shift.schedule_id,
+    session_id: shift.session_ids[0] ?? null,
+  };
+  const graceMs = shift.grace_minutes * 60000;
+  const exceptions: ExceptionData[] = [];
+
+  // Approved leave or a public holiday: the shift is neither attended nor missed
+  if (shift.status === 'on_leave' || shift.status === 'holiday') {
+    return [];
+  }
+  if (shift.status === 'absent') {
+    return [{ ...base, type: 'no_show', expected_at: shift.start }];
+  }
+  if (!shift.actual_start) {
+    return [];
+  }
+
+  if (shift.late_minutes * 60000 > graceMs) {
+    exceptions.push({
+      ...base,
+      type: 'late_arrival',
+      expected_at: shift.start,
+      actual_at: shift.actual_start,
+      minutes: shift.late_minutes,
+    });
+  }
+
+  if (now.getTime() >= shift.end.getTime() + graceMs) {
+    if (!shift.actual_end) {
+      exceptions.push({ ...base, type: 'missing_check_out', expected_at: shift.end });
+    } else if (shift.early_leave_minutes * 60000 > graceMs) {
+      exceptions.push({
+        ...base,
+        type: 'early_leave',
+        expected_at: shift.end,
+        actual_at: shift.actual_end,
+        minutes: shift.early_leave_minutes,
+      });
+    }
+  }
+
+  return exceptions;
+}
+
+/**
+ * Recomputes the exceptions of one local date for an organization, replacing any
+ * found by an earlier run. Returns the number of exceptions stored.
+ */
+export async function evaluateExceptions(organizationId: string, date: string, now = new Date()): Promise<number> {
+  const timeZone = await getOrganizationTimeZone(organizationId);
+  const shifts = await getShifts(organizationId, null, date, date, now);
+
+  const exceptions = shifts.flatMap((shift) => exceptionsForShift(shift, now));
+
+  // Open sessions that no shift accounts for
+  const matched = new Set(shifts.flatMap((shift) => shift.session_ids));
+  const openSessions = await prisma.session.findMany({
+    where: {
+      organization_id: organizationId,
+      ended_at: null,
+      started_at: {
+        gte: fromDateString(addDays(date, -1)),
+        lt: new Date(now.getTime() - MAX_UNSCHEDULED_SESSION_HOURS * 60 * 60 * 1000),
+      },
+    },
+  });
+  for (const session of openSessions) {
+    if (!matched.has(session.id) && localDateString(session.started_at, timeZone) === date) {
+      exceptions.push({
+        user_id: session.user_id,
+        location_id: session.location_id,
+        session_id: session.id,
+        type: 'missing_check_out',
+        actual_at: session.started_at,
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.attendanceException.deleteMany({
+      where: { organization_id: organizationId, date: fromDateString(date) },
+    }),
+    prisma.attendanceException.createMany({
+      data: exceptions.map((exception) => ({
+        ...exception,
+        organization_id: organizationId,
+        date: fromDateString(date),
+      })),
+    }),
+  ]);
+
+  return exceptions.length;
+}
+
+/**
+ * Evaluates again those of `dates` that the daily job already covered, so they
+ * reflect a later change such as an approved correction or leave
+ */
+export async function reevaluateExceptions(organizationId: string, dates: string[]): Promise<void> {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { exceptions_evaluated_on: true },
+  });
+  if (!organization.exceptions_evaluated_on) {
+    return;
+  }
+
+  const evaluatedOn = toDateString(organization.exceptions_evaluated_on);
+  for (const date of new Set(dates)) {
+    if (date <= evaluatedOn) {
+      await evaluateExceptions(organizationId, date);
+    }
+  }
+}
+
+/**
+ * Evaluates every finished day since the organization was last evaluated
+ * (yesterday and earlier, in its own time zone)
+ */
+async function evaluatePendingDays(now = new Date()): Promise<void> {
+  const organizations = await prisma.organization.findMany({
+    select: { id: true, timezone: true, exceptions_evaluated_on: true },
+  });
+
+  for (const organization of organizations) {
+    const yesterday = addDays(localDateString(now, organization.timezone), -1);
+    const lastEvaluated = organization.exceptions_evaluated_on && toDateString(organization.exceptions_evaluated_on);
+    if (lastEvaluated && lastEvaluated >= yesterday) {
+      continue;
+    }
+
+    const earliest = addDays(yesterday, -(MAX_CATCH_UP_DAYS - 1));
+    let date = lastEvaluated && addDays(lastEvaluated, 1) > earliest ? addDays(lastEvaluated, 1) : earliest;
+    for (; date <= yesterday; date = addDays(date, 1)) {
+      await evaluateExceptions(organization.id, date, now);
+    }
+
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: { exceptions_evaluated_on: fromDateString(yesterday) },
+    });
+  }
+}
+
+export function startExceptionJob(): void {
+  if (EXCEPTION_JOB_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  const run = () => {
+    evaluatePendingDays().catch((error) => console.error('Exception evaluation failed:', error));
+  };
+
+  run();
+  setInterval(run, EXCEPTION_JOB_INTERVAL_MINUTES * 60 * 1000);
+}
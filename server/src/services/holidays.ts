@@ -0,0 +1,105 @@
+import { PrismaClient } from '@prisma/client';
+import { ImportedHoliday } from './icalendar';
+import { fromDateString, toDateString } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+export interface ObservedHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  location_id: string;
+  location_name: string;
+}
+
+/**
+ * Holidays from `from` to `to` (YYYY-MM-DD, inclusive) observed at each of the
+ * locations, keyed by location id and then date
+ */
+export async function getLocationHolidays(
+  locationIds: string[],
+  from: string,
+  to: string
+): Promise<Map<string, Map<string, string>>> {
+  const locations = await prisma.location.findMany({
+    where: { id: { in: locationIds }, holiday_calendar_id: { not: null } },
+    select: { id: true, holiday_calendar_id: true },
+  });
+  if (locations.length === 0) {
+    return new Map();
+  }
+
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      calendar_id: { in: Array.from(new Set(locations.map((location) => location.holiday_calendar_id!))) },
+      date: { gte: fromDateString(from), lte: fromDateString(to) },
+    },
+  });
+
+  const byLocation = new Map<string, Map<string, string>>();
+  for (const location of locations) {
+    const dates = new Map<string, string>();
+    for (const holiday of holidays) {
+      if (holiday.calendar_id === location.holiday_calendar_id) {
+        dates.set(toDateString(holiday.date), holiday.name);
+      }
+    }
+    byLocation.set(location.id, dates);
+  }
+  return byLocation;
+}
+
+/**
+ * Holidays observed at any location the user is assigned to or scheduled at,
+ * oldest first; a day observed at several of them is listed once per location
+ */
+export async function getUserHolidays(userId: string, from: string, to: string): Promise<ObservedHoliday[]> {
+  const [assignments, schedules] = await Promise.all([
+    prisma.userLocation.findMany({ where: { user_id: userId }, select: { location_id: true } }),
+    prisma.schedule.findMany({ where: { user_id: userId }, select: { location_id: true } }),
+  ]);
+  const locationIds = Array.from(new Set([...assignments, ...schedules].map((row) => row.location_id)));
+
+  const [byLocation, locations] = await Promise.all([
+    getLocationHolidays(locationIds, from, to),
+    prisma.location.findMany({ where: { id: { in: locationIds } }, select: { id: true, name: true } }),
+  ]);
+  const names = new Map(locations.map((location) => [location.id, location.name]));
+
+  const observed: ObservedHoliday[] = [];
+  byLocation.forEach((dates, locationId) => {
+    dates.forEach((name, date) => {
+      observed.push({ date, name, location_id: locationId, location_name: names.get(locationId) || '' });
+    });
+  });
+  return observed.sort((a, b) => a.date.localeCompare(b.date) || a.location_name.localeCompare(b.location_name));
+}
+
+/**
+ * Stores imported holidays in the calendar. A date that already has a holiday
+ * is renamed rather than duplicated, so importing the same file twice is harmless.
+ */
+export async function importHolidays(
+  calendarId: string,
+  holidays: ImportedHoliday[]
+): Promise<{ created: number; updated: number }> {
+  // Later events win when a file lists the same day twice
+  const byDate = new Map(holidays.map((holiday) => [holiday.date, holiday]));
+
+  const existing = await prisma.holiday.findMany({
+    where: { calendar_id: calendarId, date: { in: Array.from(byDate.keys()).map(fromDateString) } },
+    select: { date: true },
+  });
+  const existingDates = new Set(existing.map((holiday) => toDateString(holiday.date)));
+
+  await prisma.$transaction(
+    Array.from(byDate.values()).map((holiday) =>
+      prisma.holiday.upsert({
+        where: { calendar_id_date: { calendar_id: calendarId, date: fromDateString(holiday.date) } },
+        create: { calendar_id: calendarId, date: fromDateString(holiday.date), name: holiday.name, uid: holiday.uid },
+        update: { name: holiday.name, uid: holiday.uid },
+      })
+    )
+  );
+
+  return { created: byDate.size - existingDates.size, updated: existingDates.size };
+}
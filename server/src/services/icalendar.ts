@@ -0,0 +1,204 @@
+import { addDays, isValidDateString } from '../utils/time';
+
+export interface ImportedHoliday {
+  index: number; // position of the event in the file
+  date: string; // YYYY-MM-DD
+  name: string;
+  uid: string | null;
+}
+
+export interface IcsImportError {
+  index: number;
+  name?: string;
+  error: string;
+}
+
+export interface IcsParseResult {
+  holidays: ImportedHoliday[];
+  errors: IcsImportError[];
+}
+
+// A multi-day event longer than this is almost certainly not a holiday
+const MAX_EVENT_DAYS = 31;
+// Yearly recurring events are expanded at most this many years ahead
+const DEFAULT_RECURRENCE_YEARS = 5;
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+// Lines starting with a space or tab continue the previous one (RFC 5545 3.1)
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+function parseContentLine(line: string): { name: string; property: Property } | null {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      const [name, ...paramParts] = line.slice(0, i).split(';');
+      const params: Record<string, string> = {};
+      for (const part of paramParts) {
+        const [key, value = ''] = part.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      }
+      return { name: name.toUpperCase(), property: { params, value: line.slice(i + 1) } };
+    }
+  }
+  return null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? ' ' : char)).trim();
+}
+
+// DATE (20250101) or DATE-TIME (20250101T000000Z) values; only the calendar date is kept
+function parseDateValue(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidDateString(date) ? date : null;
+}
+
+// Days of one occurrence, stopping one past MAX_EVENT_DAYS; DTEND of all-day events is exclusive
+function occurrenceDays(start: string, end: string | null): string[] {
+  if (!end || end <= start) {
+    return [start];
+  }
+  const days: string[] = [];
+  for (let date = start; date < end && days.length <= MAX_EVENT_DAYS; date = addDays(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+/**
+ * Start dates of every occurrence of a yearly RRULE. Rules with BY* parts
+ * (e.g. "last Monday of May") are not supported and return an error message.
+ */
+function expandYearlyRule(rule: string, start: string, horizonYear: number): string[] | string {
+  const parts: Record<string, string> = {};
+  for (const part of rule.split(';')) {
+    const [key, value = ''] = part.split('=');
+    parts[key.toUpperCase()] = value;
+  }
+
+  if (parts.FREQ !== 'YEARLY' || Object.keys(parts).some((key) => key.startsWith('BY'))) {
+    return `Unsupported recurrence rule: ${rule}`;
+  }
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+  const until = parts.UNTIL ? parseDateValue(parts.UNTIL) : null;
+  if (!Number.isInteger(interval) || interval < 1 || (count !== null && (!Number.isInteger(count) || count < 1))) {
+    return `Invalid recurrence rule: ${rule}`;
+  }
+
+  const startYear = Number(start.slice(0, 4));
+  const lastYear = Math.min(
+    horizonYear,
+    count !== null ? startYear + (count - 1) * interval : until ? Number(until.slice(0, 4)) : horizonYear
+  );
+
+  const dates: string[] = [];
+  for (let year = startYear; year <= lastYear; year += interval) {
+    const date = `${year}${start.slice(4)}`;
+    // Events on 29 February only happen in leap years
+    if (isValidDateString(date) && (!until || date <= until)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Parses the VEVENTs of an iCalendar file into one holiday per day.
+ * Cancelled events are left out; EXDATEs remove single occurrences.
+ * Throws when the text isn't an iCalendar file at all.
+ */
+export function parseIcs(text: unknown, horizonYear = new Date().getUTCFullYear() + DEFAULT_RECURRENCE_YEARS): IcsParseResult {
+  if (typeof text !== 'string' || !/^BEGIN:VCALENDAR/im.test(text)) {
+    throw new Error('File must be an iCalendar (.ics) file');
+  }
+
+  const holidays: ImportedHoliday[] = [];
+  const errors: IcsImportError[] = [];
+  let event: Map<string, Property[]> | null = null;
+  let index = 0;
+
+  for (const line of unfoldLines(text)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) {
+      continue;
+    }
+    const { name, property } = parsed;
+
+    if (name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      event = new Map();
+      continue;
+    }
+    if (name === 'END' && property.value.toUpperCase() === 'VEVENT' && event) {
+      const result = toHolidays(index, event, horizonYear);
+      if ('error' in result) {
+        errors.push(result);
+      } else {
+        holidays.push(...result);
+      }
+      event = null;
+      index++;
+      continue;
+    }
+    if (event) {
+      event.set(name, [...(event.get(name) || []), property]);
+    }
+  }
+
+  return { holidays, errors };
+}
+
+function toHolidays(index: number, event: Map<string, Property[]>, horizonYear: number): ImportedHoliday[] | IcsImportError {
+  const first = (name: string) => event.get(name)?.[0]?.value;
+
+  const name = unescapeText(first('SUMMARY') || '');
+  if (!name) {
+    return { index, error: 'SUMMARY is required' };
+  }
+  if (first('STATUS')?.toUpperCase() === 'CANCELLED') {
+    return [];
+  }
+
+  const start = parseDateValue(first('DTSTART') || '');
+  if (!start) {
+    return { index, name, error: 'DTSTART is missing or invalid' };
+  }
+  const end = first('DTEND') ? parseDateValue(first('DTEND')!) : null;
+  const days = occurrenceDays(start, end);
+  if (days.length > MAX_EVENT_DAYS) {
+    return { index, name, error: `Events can span at most ${MAX_EVENT_DAYS} days` };
+  }
+
+  const rule = first('RRULE');
+  const starts = rule ? expandYearlyRule(rule, start, horizonYear) : [start];
+  if (typeof starts === 'string') {
+    return { index, name, error: starts };
+  }
+
+  const excluded = new Set(
+    (event.get('EXDATE') || []).flatMap((property) => property.value.split(',').map(parseDateValue))
+  );
+  const uid = first('UID') || null;
+
+  // Each occurrence keeps the length of the first one
+  return starts
+    .filter((occurrence) => !excluded.has(occurrence))
+    .flatMap((occurrence) => days.map((_, offset) => addDays(occurrence, offset)))
+    .map((date) => ({ index, date, name, uid }));
+}
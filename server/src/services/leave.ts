@@ -0,0 +1,321 @@
+import { PrismaClient, Prisma, LeaveRequest, LeaveType } from '@prisma/client';
+import { TokenPayload } from './auth';
+import { expandSchedules, getOrganizationTimeZone } from './schedules';
+import { reevaluateExceptions } from './exceptions';
+import { getLocationHolidays, getUserHolidays } from './holidays';
+import { addDays, fromDateString, isValidDateString, localDateString, toDateString, weekdayOf } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MAX_REASON_LENGTH = 500;
+// Longer absences are entered as several requests
+const MAX_LEAVE_RANGE_DAYS = 90;
+
+export class LeaveError extends Error {
+  code: string;
+  httpStatus: number;
+
+  constructor(message: string, code: string, httpStatus = 400) {
+    super(message);
+    this.code = code;
+    this.httpStatus = httpStatus;
+  }
+}
+
+export interface LeaveRequestInput {
+  leave_type_id?: unknown;
+  start_date?: unknown;
+  end_date?: unknown;
+  reason?: unknown;
+}
+
+export interface LeaveBalance {
+  leave_type: Pick<LeaveType, 'id' | 'name' | 'paid' | 'annual_days'>;
+  year: number;
+  accrued: number | null; // null for types without a balance
+  adjustments: number;
+  used: number;
+  pending: number;
+  available: number | null;
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 100) / 100;
+}
+
+/**
+ * Working days of the user from `start` to `end`: the days with a scheduled shift,
+ * or Monday to Friday for users without a schedule. Public holidays are left out:
+ * of the shift's location, or of any location the user works at.
+ */
+export async function leaveDates(organizationId: string, userId: string, start: string, end: string): Promise<string[]> {
+  const timeZone = await getOrganizationTimeZone(organizationId);
+  const schedules = await prisma.schedule.findMany({ where: { organization_id: organizationId, user_id: userId } });
+
+  if (schedules.length > 0) {
+    const shifts = expandSchedules(schedules, start, end, timeZone);
+    const holidays = await getLocationHolidays(Array.from(new Set(shifts.map((shift) => shift.location_id))), start, end);
+    const shiftDates = new Set(
+      shifts.filter((shift) => !holidays.get(shift.location_id)?.has(shift.date)).map((shift) => shift.date)
+    );
+    return Array.from(shiftDates).sort();
+  }
+
+  const holidayDates = new Set((await getUserHolidays(userId, start, end)).map((holiday) => holiday.date));
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const weekday = weekdayOf(date);
+    if (weekday !== 0 && weekday !== 6 && !holidayDates.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// Entitlement accrued by the end of `month` (1-12): a twelfth of the annual days per month
+function accruedDays(annualDays: number, month: number): number {
+  return roundDays((annualDays * month) / 12);
+}
+
+async function balanceTotals(db: Db, userId: string, leaveTypeId: string, year: number, excludeRequestId?: string) {
+  const yearStart = fromDateString(`${year}-01-01`);
+  const yearEnd = fromDateString(`${year}-12-31`);
+
+  const [requests, adjustments] = await Promise.all([
+    db.leaveRequest.findMany({
+      where: {
+        user_id: userId,
+        leave_type_id: leaveTypeId,
+        status: { in: ['pending', 'approved'] },
+        start_date: { gte: yearStart, lte: yearEnd },
+        ...(excludeRequestId ? { id: { not: excludeRequestId } } : {}),
+      },
+      select: { status: true, dates: true },
+    }),
+    db.leaveAdjustment.aggregate({
+      where: { user_id: userId, leave_type_id: leaveTypeId, year },
+      _sum: { days: true },
+    }),
+  ]);
+
+  const daysWith = (status: string) =>
+    requests.filter((request) => request.status === status).reduce((sum, request) => sum + request.dates.length, 0);
+
+  return { used: daysWith('approved'), pending: daysWith('pending'), adjustments: adjustments._sum.days ?? 0 };
+}
+
+/**
+ * Each leave type's balance for the user in `year`, with accruals counted up to the
+ * current month (the whole year for past years)
+ */
+export async function getLeaveBalances(organizationId: string, userId: string, year: number): Promise<LeaveBalance[]> {
+  const timeZone = await getOrganizationTimeZone(organizationId);
+  const today = localDateString(new Date(), timeZone);
+  const currentYear = Number(today.slice(0, 4));
+  const monthsAccrued = year < currentYear ? 12 : year > currentYear ? 0 : Number(today.slice(5, 7));
+
+  const leaveTypes = await prisma.leaveType.findMany({
+    where: { organization_id: organizationId },
+    orderBy: { name: 'asc' },
+  });
+
+  return Promise.all(
+    leaveTypes.map(async (leaveType) => {
+      const { used, pending, adjustments } = await balanceTotals(prisma, userId, leaveType.id, year);
+      const accrued = leaveType.annual_days === null ? null : accruedDays(leaveType.annual_days, monthsAccrued);
+      return {
+        leave_type: {
+          id: leaveType.id,
+          name: leaveType.name,
+          paid: leaveType.paid,
+          annual_days: leaveType.annual_days,
+        },
+        year,
+        accrued,
+        adjustments,
+        used,
+        pending,
+        available: accrued === null ? null : roundDays(accrued + adjustments - used),
+      };
+    })
+  );
+}
+
+// Leave can be booked against what will have accrued by the month it starts
+async function assertBalance(
+  db: Db,
+  leaveType: LeaveType,
+  userId: string,
+  startDate: string,
+  days: number,
+  includePending: boolean,
+  excludeRequestId?: string
+): Promise<void> {
+  if (leaveType.annual_days === null) {
+    return;
+  }
+
+  const year = Number(startDate.slice(0, 4));
+  const { used, pending, adjustments } = await balanceTotals(db, userId, leaveType.id, year, excludeRequestId);
+  const available = accruedDays(leaveType.annual_days, Number(startDate.slice(5, 7))) + adjustments - used;
+  const remaining = roundDays(available - (includePending ? pending : 0));
+
+  if (days > remaining) {
+    throw new LeaveError(
+      `Not enough ${leaveType.name} balance: ${days} day(s) requested, ${Math.max(0, remaining)} available`,
+      'INSUFFICIENT_BALANCE',
+      409
+    );
+  }
+}
+
+/**
+ * Stores a pending leave request of the user for the working days in the range
+ */
+export async function createLeaveRequest(user: TokenPayload, input: LeaveRequestInput): Promise<LeaveRequest> {
+  const { leave_type_id, start_date, end_date, reason } = input;
+
+  const leaveType =
+    typeof leave_type_id === 'string'
+      ? await prisma.leaveType.findFirst({ where: { id: leave_type_id, organization_id: user.organization_id } })
+      : null;
+  if (!leaveType) {
+    throw new LeaveError('Unknown leave_type_id', 'INVALID_LEAVE');
+  }
+
+  if (!isValidDateString(start_date) || !isValidDateString(end_date) || start_date > end_date) {
+    throw new LeaveError('start_date and end_date must be YYYY-MM-DD with start_date <= end_date', 'INVALID_LEAVE');
+  }
+  if (start_date.slice(0, 4) !== end_date.slice(0, 4)) {
+    throw new LeaveError('Leave spanning two years must be requested separately for each year', 'INVALID_LEAVE');
+  }
+  if (addDays(start_date, MAX_LEAVE_RANGE_DAYS - 1) < end_date) {
+    throw new LeaveError(`A request can cover at most ${MAX_LEAVE_RANGE_DAYS} days`, 'INVALID_LEAVE');
+  }
+
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    throw new LeaveError('reason must be a string', 'INVALID_LEAVE');
+  }
+  if (typeof reason === 'string' && reason.length > MAX_REASON_LENGTH) {
+    throw new LeaveError(`reason must be at most ${MAX_REASON_LENGTH} characters`, 'INVALID_LEAVE');
+  }
+
+  const overlapping = await prisma.leaveRequest.findFirst({
+    where: {
+      user_id: user.user_id,
+      status: { in: ['pending', 'approved'] },
+      start_date: { lte: fromDateString(end_date) },
+      end_date: { gte: fromDateString(start_date) },
+    },
+  });
+  if (overlapping) {
+    throw new LeaveError('You already have leave requested for some of these days', 'OVERLAPPING_LEAVE', 409);
+  }
+
+  const dates = await leaveDates(user.organization_id, user.user_id, start_date, end_date);
+  if (dates.length === 0) {
+    throw new LeaveError('There are no working days in the selected range', 'INVALID_LEAVE');
+  }
+
+  await assertBalance(prisma, leaveType, user.user_id, start_date, dates.length, true);
+
+  return prisma.leaveRequest.create({
+    data: {
+      organization_id: user.organization_id,
+      user_id: user.user_id,
+      leave_type_id: leaveType.id,
+      start_date: fromDateString(start_date),
+      end_date: fromDateString(end_date),
+      dates,
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+    },
+  });
+}
+
+// Every local date from the request's start to its end
+function rangeDates(request: Pick<LeaveRequest, 'start_date' | 'end_date'>): string[] {
+  const dates: string[] = [];
+  for (let date = toDateString(request.start_date); date <= toDateString(request.end_date); date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Approves or rejects a pending request. Approval checks the balance again and
+ * re-evaluates exceptions of days already covered by the daily job.
+ */
+export async function reviewLeaveRequest(
+  reviewer: TokenPayload,
+  request: LeaveRequest,
+  approve: boolean,
+  note: string | null
+): Promise<LeaveRequest> {
+  if (request.status !== 'pending') {
+    throw new LeaveError('This request was already reviewed', 'ALREADY_REVIEWED', 409);
+  }
+  if (request.user_id === reviewer.user_id) {
+    throw new LeaveError("You can't review your own leave request", 'FORBIDDEN', 403);
+  }
+
+  const review = { reviewed_by: reviewer.user_id, reviewed_at: new Date(), review_note: note };
+
+  const updated = await prisma.$transaction(
+    async (tx) => {
+      // Conditional update so a review or cancellation at the same time can't be overwritten
+      const { count } = await tx.leaveRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: { ...review, status: approve ? 'approved' : 'rejected' },
+      });
+      if (count === 0) {
+        throw new LeaveError('This request was already reviewed', 'ALREADY_REVIEWED', 409);
+      }
+
+      if (approve) {
+        const leaveType = await tx.leaveType.findUniqueOrThrow({ where: { id: request.leave_type_id } });
+        await assertBalance(tx, leaveType, request.user_id, toDateString(request.start_date), request.dates.length, false, request.id);
+      }
+      return tx.leaveRequest.findUniqueOrThrow({ where: { id: request.id } });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  if (approve) {
+    await reevaluateExceptions(request.organization_id, rangeDates(request));
+  }
+
+  return updated;
+}
+
+/**
+ * Withdraws the user's own request: pending ones at any time, approved ones
+ * only before the leave starts
+ */
+export async function cancelLeaveRequest(user: TokenPayload, request: LeaveRequest): Promise<LeaveRequest> {
+  if (request.user_id !== user.user_id) {
+    throw new LeaveError('Leave request not found', 'NOT_FOUND', 404);
+  }
+  if (request.status !== 'pending' && request.status !== 'approved') {
+    throw new LeaveError(`This request is already ${request.status}`, 'INVALID_STATUS', 409);
+  }
+
+  const today = localDateString(new Date(), await getOrganizationTimeZone(user.organization_id));
+  const started = toDateString(request.start_date) <= today;
+  if (request.status === 'approved' && started) {
+    throw new LeaveError('Leave that has already started must be changed by your manager', 'LEAVE_STARTED', 409);
+  }
+
+  // Conditional update so a review at the same time isn't undone; once the leave has
+  // started, only a request that is still pending can be withdrawn
+  const { count } = await prisma.leaveRequest.updateMany({
+    where: { id: request.id, status: { in: started ? ['pending'] : ['pending', 'approved'] } },
+    data: { status: 'cancelled' },
+  });
+  if (count === 0) {
+    throw new LeaveError('This request was reviewed or cancelled in the meantime', 'INVALID_STATUS', 409);
+  }
+
+  return prisma.leaveRequest.findUniqueOrThrow({ where: { id: request.id } });
+}
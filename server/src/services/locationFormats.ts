@@ -0,0 +1,289 @@
+import { Location } from '@prisma/client';
+import {
+  LocationBoundary,
+  PolygonRing,
+  getBoundaryCircle,
+  isValidCoordinates,
+  validateBoundary,
+} from '../shared/geofencing';
+
+export type LocationFormat = 'geojson' | 'kml' | 'csv';
+
+export interface ImportedLocation {
+  index: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  boundary: LocationBoundary | null;
+}
+
+export interface ImportError {
+  index: number;
+  name?: string;
+  error: string;
+}
+
+export interface ParseResult {
+  locations: ImportedLocation[];
+  errors: ImportError[];
+}
+
+// Property names accepted for the radius of point features
+const RADIUS_KEYS = ['radius_meters', 'radius', 'radiusMeters'];
+
+function readRadius(properties: Record<string, any>): number | null {
+  for (const key of RADIUS_KEYS) {
+    const value = Number(properties[key]);
+    if (properties[key] !== undefined && Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates one parsed feature and turns it into a location row.
+ * Points need a positive radius; polygons get their enclosing circle.
+ */
+function toImportedLocation(
+  index: number,
+  name: unknown,
+  geometry: { type?: string; coordinates?: any } | null,
+  radius: number | null
+): ImportedLocation | ImportError {
+  const label = typeof name === 'string' ? name.trim() : '';
+  if (!label) {
+    return { index, error: 'name is required' };
+  }
+
+  if (!geometry) {
+    return { index, name: label, error: 'geometry is required' };
+  }
+
+  if (geometry.type === 'Point') {
+    const [longitude, latitude] = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    if (!isValidCoordinates(latitude, longitude)) {
+      return { index, name: label, error: 'Point coordinates must be [longitude, latitude]' };
+    }
+    if (radius === null || radius <= 0) {
+      return { index, name: label, error: 'Point features need a positive radius_meters property' };
+    }
+    return { index, name: label, latitude, longitude, radius_meters: radius, boundary: null };
+  }
+
+  if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+    const boundaryError = validateBoundary(geometry);
+    if (boundaryError) {
+      return { index, name: label, error: boundaryError };
+    }
+    const boundary = { type: geometry.type, coordinates: geometry.coordinates } as LocationBoundary;
+    return { index, name: label, ...getBoundaryCircle(boundary), boundary };
+  }
+
+  return { index, name: label, error: `Unsupported geometry type: ${geometry.type}` };
+}
+
+function collect(results: (ImportedLocation | ImportError)[]): ParseResult {
+  const locations: ImportedLocation[] = [];
+  const errors: ImportError[] = [];
+  for (const result of results) {
+    if ('error' in result) {
+      errors.push(result);
+    } else {
+      locations.push(result);
+    }
+  }
+  return { locations, errors };
+}
+
+/**
+ * Parses a GeoJSON FeatureCollection (or a single Feature)
+ */
+export function parseGeoJson(data: any): ParseResult {
+  const features = data?.type === 'FeatureCollection' ? data.features : data?.type === 'Feature' ? [data] : null;
+  if (!Array.isArray(features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  return collect(
+    features.map((feature: any, index: number) => {
+      const properties = feature?.properties || {};
+      return toImportedLocation(index, properties.name, feature?.geometry || null, readRadius(properties));
+    })
+  );
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function firstTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? match[1] : null;
+}
+
+function allTags(xml: string, tag: string): string[] {
+  const regex = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(regex), (match) => match[1]);
+}
+
+// KML coordinates are whitespace separated "lon,lat[,alt]" tuples
+function parseKmlCoordinates(text: string): [number, number][] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [longitude, latitude] = tuple.split(',').map(Number);
+      return [longitude, latitude];
+    });
+}
+
+function parseKmlPolygon(xml: string): PolygonRing[] {
+  const outer = firstTag(firstTag(xml, 'outerBoundaryIs') || '', 'coordinates');
+  const holes = allTags(xml, 'innerBoundaryIs').map((inner) => firstTag(inner, 'coordinates') || '');
+  return [outer || '', ...holes].map(parseKmlCoordinates);
+}
+
+function readKmlData(placemark: string): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const match of placemark.matchAll(/<Data\s+name="([^"]+)"[^>]*>([\s\S]*?)<\/Data>/g)) {
+    data[match[1]] = decodeXml(firstTag(match[2], 'value') || '');
+  }
+  for (const match of placemark.matchAll(/<SimpleData\s+name="([^"]+)"[^>]*>([\s\S]*?)<\/SimpleData>/g)) {
+    data[match[1]] = decodeXml(match[2]);
+  }
+  return data;
+}
+
+/**
+ * Parses the Placemarks of a KML document: Points (with a radius in their
+ * ExtendedData) and Polygons, including MultiGeometry polygons.
+ */
+export function parseKml(text: string): ParseResult {
+  if (typeof text !== 'string' || !/<kml\b/i.test(text)) {
+    throw new Error('Expected a KML document');
+  }
+
+  return collect(
+    allTags(text, 'Placemark').map((placemark, index) => {
+      const name = decodeXml(firstTag(placemark, 'name') || '');
+      const polygons = allTags(placemark, 'Polygon');
+
+      let geometry: { type: string; coordinates: any } | null = null;
+      if (polygons.length > 1) {
+        geometry = { type: 'MultiPolygon', coordinates: polygons.map(parseKmlPolygon) };
+      } else if (polygons.length === 1) {
+        geometry = { type: 'Polygon', coordinates: parseKmlPolygon(polygons[0]) };
+      } else {
+        const point = firstTag(firstTag(placemark, 'Point') || '', 'coordinates');
+        if (point) {
+          geometry = { type: 'Point', coordinates: parseKmlCoordinates(point)[0] };
+        }
+      }
+
+      return toImportedLocation(index, name, geometry, readRadius(readKmlData(placemark)));
+    })
+  );
+}
+
+function locationGeometry(location: Location): any {
+  return location.boundary || { type: 'Point', coordinates: [location.longitude, location.latitude] };
+}
+
+export function toGeoJson(locations: Location[]): object {
+  return {
+    type: 'FeatureCollection',
+    features: locations.map((location) => ({
+      type: 'Feature',
+      id: location.id,
+      geometry: locationGeometry(location),
+      properties: {
+        name: location.name,
+        radius_meters: location.radius_meters,
+        created_at: location.created_at,
+      },
+    })),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function kmlRing(ring: PolygonRing): string {
+  return `<LinearRing><coordinates>${ring.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`;
+}
+
+function kmlPolygon(rings: PolygonRing[]): string {
+  const [outer, ...holes] = rings;
+  return `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>${holes
+    .map((hole) => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`)
+    .join('')}</Polygon>`;
+}
+
+export function toKml(locations: Location[]): string {
+  const placemarks = locations.map((location) => {
+    const boundary = location.boundary as LocationBoundary | null;
+    let geometry: string;
+    if (boundary?.type === 'Polygon') {
+      geometry = kmlPolygon(boundary.coordinates);
+    } else if (boundary?.type === 'MultiPolygon') {
+      geometry = `<MultiGeometry>${boundary.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+    } else {
+      geometry = `<Point><coordinates>${location.longitude},${location.latitude}</coordinates></Point>`;
+    }
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(location.name)}</name>`,
+      `      <ExtendedData><Data name="radius_meters"><value>${location.radius_meters}</value></Data></ExtendedData>`,
+      `      ${geometry}`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function csvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(locations: Location[]): string {
+  const rows = locations.map((location) =>
+    [
+      location.id,
+      location.name,
+      location.latitude,
+      location.longitude,
+      location.radius_meters,
+      location.boundary ? 'polygon' : 'circle',
+      location.boundary ? JSON.stringify(location.boundary) : '',
+    ]
+      .map(csvValue)
+      .join(',')
+  );
+  return ['id,name,latitude,longitude,radius_meters,shape,boundary', ...rows, ''].join('\n');
+}
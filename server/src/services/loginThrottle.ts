@@ -0,0 +1,150 @@
+import { PrismaClient, User } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Per account: each failure doubles the wait before the next attempt, and
+// LOGIN_MAX_FAILURES consecutive failures lock the account for LOGIN_LOCKOUT_MINUTES.
+const LOGIN_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10);
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+const LOGIN_BACKOFF_BASE_SECONDS = 1;
+
+// Per IP: at most LOGIN_IP_MAX_FAILURES failures in a rolling window, across all accounts
+const LOGIN_IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || '20', 10);
+const LOGIN_IP_WINDOW_MINUTES = 15;
+
+export interface LoginContext {
+  ip: string;
+  userAgent?: string;
+}
+
+export type LoginFailureReason =
+  | 'invalid_password'
+  | 'invalid_totp'
+  | 'unknown_email'
+  | 'account_locked'
+  | 'ip_throttled'
+  | 'password_reset'; // not a failure: a /forgot-password request, logged so it can be throttled per IP
+
+// Only wrong credentials count against an IP. Refused attempts (account_locked, ip_throttled)
+// are logged too, but counting them would keep sliding the window forward while a client retries.
+const CREDENTIAL_FAILURES: LoginFailureReason[] = ['invalid_password', 'invalid_totp', 'unknown_email'];
+
+export class LoginThrottleError extends Error {
+  httpStatus: number;
+  code: 'ACCOUNT_LOCKED' | 'LOGIN_THROTTLED';
+  retryAt: Date;
+
+  constructor(code: 'ACCOUNT_LOCKED' | 'LOGIN_THROTTLED', retryAt: Date) {
+    super(
+      code === 'ACCOUNT_LOCKED'
+        ? 'Too many failed attempts. This account is temporarily locked.'
+        : 'Too many login attempts. Please wait before trying again.'
+    );
+    this.httpStatus = code === 'ACCOUNT_LOCKED' ? 423 : 429;
+    this.code = code;
+    this.retryAt = retryAt;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      locked_until: this.retryAt.toISOString(),
+      retry_after_seconds: Math.max(1, Math.ceil((this.retryAt.getTime() - Date.now()) / 1000)),
+    };
+  }
+}
+
+export async function recordLoginFailure(
+  email: string,
+  user: User | null,
+  context: LoginContext,
+  reason: LoginFailureReason
+): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: {
+      email,
+      user_id: user?.id ?? null,
+      ip: context.ip,
+      user_agent: context.userAgent ?? null,
+      reason,
+    },
+  });
+}
+
+// Throws once the IP has made LOGIN_IP_MAX_FAILURES attempts of the given kinds inside the window
+async function assertIpAllowed(
+  email: string,
+  user: User | null,
+  context: LoginContext,
+  reasons: LoginFailureReason[]
+): Promise<void> {
+  const windowStart = new Date(Date.now() - LOGIN_IP_WINDOW_MINUTES * 60 * 1000);
+  const ipFailures = await prisma.loginAttempt.findMany({
+    where: { ip: context.ip, reason: { in: reasons }, created_at: { gte: windowStart } },
+    orderBy: { created_at: 'desc' },
+    take: LOGIN_IP_MAX_FAILURES,
+    select: { created_at: true },
+  });
+
+  if (ipFailures.length >= LOGIN_IP_MAX_FAILURES) {
+    // Allowed again once the oldest counted failure leaves the window
+    const oldest = ipFailures[ipFailures.length - 1].created_at;
+    await recordLoginFailure(email, user, context, 'ip_throttled');
+    throw new LoginThrottleError('LOGIN_THROTTLED', new Date(oldest.getTime() + LOGIN_IP_WINDOW_MINUTES * 60 * 1000));
+  }
+}
+
+// Runs before the password is checked so throttled requests never reach bcrypt
+export async function assertLoginAllowed(email: string, user: User | null, context: LoginContext): Promise<void> {
+  await assertIpAllowed(email, user, context, CREDENTIAL_FAILURES);
+
+  if (user?.locked_until && user.locked_until > new Date()) {
+    await recordLoginFailure(email, user, context, 'account_locked');
+    const code = user.failed_login_count >= LOGIN_MAX_FAILURES ? 'ACCOUNT_LOCKED' : 'LOGIN_THROTTLED';
+    throw new LoginThrottleError(code, user.locked_until);
+  }
+}
+
+// Password reset requests get their own per-IP window so /forgot-password can't be used to flood inboxes
+export async function assertPasswordResetAllowed(email: string, user: User | null, context: LoginContext): Promise<void> {
+  await assertIpAllowed(email, user, context, ['password_reset']);
+  await recordLoginFailure(email, user, context, 'password_reset');
+}
+
+// Count a wrong password or 2FA code against the account and push locked_until out accordingly
+export async function registerLoginFailure(
+  user: User,
+  context: LoginContext,
+  reason: 'invalid_password' | 'invalid_totp'
+): Promise<void> {
+  await recordLoginFailure(user.email, user, context, reason);
+
+  const { failed_login_count } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failed_login_count: { increment: 1 } },
+  });
+
+  const delayMs = failed_login_count >= LOGIN_MAX_FAILURES
+    ? LOGIN_LOCKOUT_MINUTES * 60 * 1000
+    : LOGIN_BACKOFF_BASE_SECONDS * 1000 * 2 ** (failed_login_count - 1);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { locked_until: new Date(Date.now() + delayMs) },
+  });
+}
+
+export async function clearLoginFailures(user: User): Promise<void> {
+  if (user.failed_login_count === 0 && !user.locked_until) {
+    return;
+  }
+  await unlockUser(user.id);
+}
+
+export async function unlockUser(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failed_login_count: 0, locked_until: null },
+  });
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development stand-in: prints the message to the server log
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+// Development stand-in: writes each message to MAIL_DIR as a .txt file
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.txt`;
+      const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+      await fs.promises.writeFile(path.join(directory, fileName), contents);
+    },
+  };
+}
+
+const transports: Record<string, MailTransport> = {
+  console: consoleTransport,
+  file: createFileTransport(process.env.MAIL_DIR || path.join(process.cwd(), 'mail')),
+};
+
+// Real providers (SMTP, SES, ...) plug in here and are selected with MAIL_TRANSPORT
+export function registerMailTransport(name: string, transport: MailTransport): void {
+  transports[name] = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+  await transport.send(message);
+}
@@ -0,0 +1,92 @@
+import bcrypt from 'bcrypt';
+import { PrismaClient, User } from '@prisma/client';
+import { sendInvite } from './userTokens';
+import { isValidTimeZone } from '../utils/time';
+
+const prisma = new PrismaClient();
+
+// Admins whose email is listed here can create organizations. They still belong to
+// (and are scoped to) their own organization for everything else.
+const SUPER_ADMIN_EMAILS = (process.env.SUPER_ADMIN_EMAILS || '')
+  .split(',')
+  .map((email: string) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export class OrganizationError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export interface NewOrganizationAdmin {
+  email: string;
+  full_name: string;
+  password?: string; // when absent the admin is emailed an invitation
+}
+
+export function isSuperAdmin(user: Pick<User, 'email' | 'role'>): boolean {
+  return user.role === 'admin' && SUPER_ADMIN_EMAILS.includes(user.email.toLowerCase());
+}
+
+export async function listOrganizations() {
+  return prisma.organization.findMany({
+    include: {
+      _count: { select: { users: true, locations: true } },
+    },
+    orderBy: { name: 'asc' },
+  });
+}
+
+// Create an organization together with its first admin, who can then create everyone else
+export async function createOrganization(name: string, admin: NewOrganizationAdmin, timezone = 'UTC') {
+  if (!isValidTimeZone(timezone)) {
+    throw new OrganizationError('timezone must be an IANA time zone such as Europe/Madrid', 'INVALID_TIMEZONE');
+  }
+
+  const existing = await prisma.organization.findUnique({ where: { name } });
+  if (existing) {
+    throw new OrganizationError('An organization with this name already exists', 'ORGANIZATION_EXISTS');
+  }
+
+  const existingUser = await prisma.user.findUnique({ where: { email: admin.email } });
+  if (existingUser) {
+    throw new OrganizationError('Email already registered', 'EMAIL_TAKEN');
+  }
+
+  const password_hash = admin.password ? await bcrypt.hash(admin.password, 10) : null;
+
+  const { organization, user } = await prisma.$transaction(async (tx) => {
+    const organization = await tx.organization.create({ data: { name, timezone } });
+    const user = await tx.user.create({
+      data: {
+        organization_id: organization.id,
+        email: admin.email,
+        full_name: admin.full_name,
+        role: 'admin',
+        password_hash,
+      },
+    });
+    return { organization, user };
+  });
+
+  const invite_expires_at = password_hash ? null : await sendInvite(user);
+
+  return {
+    ...organization,
+    admin: { id: user.id, email: user.email, full_name: user.full_name, invite_expires_at },
+  };
+}
+
+export async function updateOrganizationTimeZone(organizationId: string, timezone: string) {
+  if (!isValidTimeZone(timezone)) {
+    throw new OrganizationError('timezone must be an IANA time zone such as Europe/Madrid', 'INVALID_TIMEZONE');
+  }
+
+  return prisma.organization.update({
+    where: { id: organizationId },
+    data: { timezone },
+  });
+}
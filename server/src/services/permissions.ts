@@ -0,0 +1,110 @@
+import { PrismaClient, UserRole } from '@prisma/client';
+import { TokenPayload } from './auth';
+import { TeamFilter, getTeamMemberIds, intersectUserIds } from './teams';
+
+const prisma = new PrismaClient();
+
+export type Permission =
+  | 'users:read' // list users and view their profiles
+  | 'users:manage' // create, delete, assign locations, unlock, invite, revoke sessions
+  | 'devices:reset'
+  | 'attendance:read' // view other users' attendance and sessions
+  | 'corrections:approve'
+  | 'leave:approve'
+  | 'locations:manage'
+  | 'schedules:manage';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  employee: [],
+  manager: ['users:read', 'devices:reset', 'attendance:read', 'corrections:approve', 'leave:approve', 'schedules:manage'],
+  admin: [
+    'users:read',
+    'users:manage',
+    'devices:reset',
+    'attendance:read',
+    'corrections:approve',
+    'leave:approve',
+    'locations:manage',
+    'schedules:manage',
+  ],
+};
+
+export function hasPermission(user: Pick<TokenPayload, 'role'>, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
+
+/**
+ * Ids of the users whose data `user` may act on with its permissions, or null for
+ * no restriction within its organization. Callers still scope queries by
+ * organization_id. Admins see their whole organization; managers are limited to employees who share
+ * a team or an assigned location with them; everyone else only to themselves.
+ */
+export async function getManagedUserIds(user: TokenPayload): Promise<string[] | null> {
+  if (user.role === 'admin') {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return [user.user_id];
+  }
+
+  const [managerLocations, managerTeams] = await Promise.all([
+    prisma.userLocation.findMany({
+      where: { user_id: user.user_id },
+      select: { location_id: true },
+    }),
+    prisma.teamMember.findMany({
+      where: { user_id: user.user_id },
+      select: { team_id: true },
+    }),
+  ]);
+
+  const [locationMembers, teamMembers] = await Promise.all([
+    prisma.userLocation.findMany({
+      where: {
+        location_id: { in: managerLocations.map((ul) => ul.location_id) },
+        user: { role: 'employee', organization_id: user.organization_id },
+      },
+      select: { user_id: true },
+    }),
+    prisma.teamMember.findMany({
+      where: {
+        team_id: { in: managerTeams.map((tm) => tm.team_id) },
+        user: { role: 'employee', organization_id: user.organization_id },
+      },
+      select: { user_id: true },
+    }),
+  ]);
+
+  return Array.from(new Set([
+    user.user_id,
+    ...locationMembers.map((ul) => ul.user_id),
+    ...teamMembers.map((tm) => tm.user_id),
+  ]));
+}
+
+export async function canAccessUser(user: TokenPayload, targetUserId: string): Promise<boolean> {
+  const managedIds = await getManagedUserIds(user);
+  if (managedIds !== null) {
+    return managedIds.includes(targetUserId);
+  }
+
+  const target = await prisma.user.findFirst({
+    where: { id: targetUserId, organization_id: user.organization_id },
+    select: { id: true },
+  });
+  return target !== null;
+}
+
+// Prisma filter on user_id restricting a query to the users `user` may see,
+// optionally narrowed to a team or department
+export async function managedUserFilter(
+  user: TokenPayload,
+  teamFilter: TeamFilter = {}
+): Promise<{ in: string[] } | undefined> {
+  const userIds = intersectUserIds(
+    await getManagedUserIds(user),
+    await getTeamMemberIds(teamFilter, user.organization_id)
+  );
+  return userIds === null ? undefined : { in: userIds };
+}
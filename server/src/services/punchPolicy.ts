@@ -0,0 +1,103 @@
+import { Attendance, Location } from '@prisma/client';
+import { calculateDistance, Coordinates } from '../shared/geofencing';
+
+export interface PositionSignals {
+  accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  is_mocked: boolean;
+}
+
+export type SuspicionReason = 'mocked_location' | 'low_accuracy' | 'impossible_travel' | 'missing_accuracy';
+
+export interface PolicyViolation {
+  code: 'ACCURACY_TOO_LOW' | 'MOCKED_LOCATION';
+  message: string;
+  details?: Record<string, any>;
+}
+
+// Policy knobs, configurable per deployment through the environment
+export const PUNCH_POLICY = {
+  // Reject punches whose accuracy circle is larger than the location's fence
+  rejectWhenAccuracyExceedsRadius: process.env.PUNCH_REJECT_LOW_ACCURACY !== 'false',
+  // 'flag' records the punch as suspicious, 'reject' refuses it
+  mockedLocationAction: process.env.PUNCH_MOCKED_LOCATION_ACTION === 'reject' ? 'reject' : 'flag',
+  // Travel between consecutive punches faster than this is flagged
+  maxTravelSpeedKmh: Number(process.env.PUNCH_MAX_TRAVEL_SPEED_KMH) || 200,
+};
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Normalizes the position metadata sent by the client; anything malformed is dropped.
+ */
+export function parsePositionSignals(input: {
+  accuracy?: unknown;
+  altitude?: unknown;
+  speed?: unknown;
+  is_mocked?: unknown;
+}): PositionSignals {
+  const accuracy = optionalNumber(input.accuracy);
+  const speed = optionalNumber(input.speed);
+  return {
+    accuracy: accuracy !== null && accuracy >= 0 ? accuracy : null,
+    altitude: optionalNumber(input.altitude),
+    speed: speed !== null && speed >= 0 ? speed : null,
+    is_mocked: input.is_mocked === true,
+  };
+}
+
+/**
+ * Applies the punch policy to a punch's position signals.
+ * Returns a violation when the punch must be rejected, otherwise the reasons
+ * (possibly none) for flagging it as suspicious.
+ */
+export function evaluatePunchSignals(
+  point: Coordinates,
+  timestamp: Date,
+  signals: PositionSignals,
+  location: Location,
+  previousPunch: Attendance | null
+): { violation: PolicyViolation | null; reasons: SuspicionReason[] } {
+  const reasons: SuspicionReason[] = [];
+
+  if (signals.is_mocked) {
+    if (PUNCH_POLICY.mockedLocationAction === 'reject') {
+      return {
+        violation: { code: 'MOCKED_LOCATION', message: 'Mock locations are not allowed' },
+        reasons,
+      };
+    }
+    reasons.push('mocked_location');
+  }
+
+  if (signals.accuracy === null) {
+    reasons.push('missing_accuracy');
+  } else if (signals.accuracy > location.radius_meters) {
+    if (PUNCH_POLICY.rejectWhenAccuracyExceedsRadius) {
+      return {
+        violation: {
+          code: 'ACCURACY_TOO_LOW',
+          message: `Your GPS accuracy (${Math.round(signals.accuracy)}m) is too low for ${location.name}, please try again`,
+          details: { accuracy_meters: signals.accuracy, radius_meters: location.radius_meters },
+        },
+        reasons,
+      };
+    }
+    reasons.push('low_accuracy');
+  }
+
+  if (previousPunch) {
+    const distanceMeters = calculateDistance(point, previousPunch);
+    const elapsedHours = (timestamp.getTime() - previousPunch.timestamp.getTime()) / 3600000;
+    const speedKmh = elapsedHours > 0 ? distanceMeters / 1000 / elapsedHours : Infinity;
+    // Ignore jitter: only distances beyond a typical fence can indicate travel
+    if (distanceMeters > 1000 && speedKmh > PUNCH_POLICY.maxTravelSpeedKmh) {
+      reasons.push('impossible_travel');
+    }
+  }
+
+  return { violation: null, reasons };
+}
@@ -0,0 +1,300 @@
+import { PrismaClient, Schedule, Session } from '@prisma/client';
+import {
+  isValidDateString,
+  zonedTime,
+  localDateString,
+  addDays,
+  weekdayOf,
+  toDateString,
+  fromDateString,
+} from '../utils/time';
+import { getLocationHolidays } from './holidays';
+
+const prisma = new PrismaClient();
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Arriving or leaving within this many minutes of the scheduled time still counts as on time,
+// unless the location sets its own grace_minutes
+export const SCHEDULE_GRACE_MINUTES = parseInt(process.env.SCHEDULE_GRACE_MINUTES || '5', 10);
+// A session that starts this long before a shift still counts towards it
+const EARLY_ARRIVAL_MINUTES = 60;
+
+export type ShiftStatus = 'upcoming' | 'on_time' | 'late' | 'early_leave' | 'absent' | 'on_leave' | 'holiday';
+
+export interface ScheduleInput {
+  user_id?: unknown;
+  location_id?: unknown;
+  weekday?: unknown;
+  date?: unknown;
+  start_minute?: unknown;
+  end_minute?: unknown;
+  effective_from?: unknown;
+  effective_until?: unknown;
+}
+
+export interface ShiftOccurrence {
+  schedule_id: string;
+  user_id: string;
+  location_id: string;
+  date: string; // local date the shift starts on
+  start: Date;
+  end: Date;
+}
+
+export interface EvaluatedShift extends ShiftOccurrence {
+  status: ShiftStatus;
+  grace_minutes: number;
+  session_ids: string[];
+  actual_start: Date | null;
+  actual_end: Date | null; // null while the last matching session is still open
+  late_minutes: number;
+  early_leave_minutes: number;
+}
+
+export type SessionTimes = Pick<Session, 'id' | 'user_id' | 'location_id' | 'started_at' | 'ended_at'>;
+
+function isMinuteOfDay(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < MINUTES_PER_DAY;
+}
+
+/**
+ * Validates a complete schedule (for updates, the stored schedule merged with the
+ * changes). Returns an error message, or null when the schedule is well formed.
+ */
+export function validateScheduleInput(input: ScheduleInput): string | null {
+  if (!input.user_id || !input.location_id) {
+    return 'user_id and location_id are required';
+  }
+
+  const hasWeekday = input.weekday !== undefined && input.weekday !== null;
+  const hasDate = input.date !== undefined && input.date !== null;
+  if (hasWeekday === hasDate) {
+    return 'Set either weekday (recurring) or date (one-off)';
+  }
+  if (hasWeekday && (!Number.isInteger(input.weekday) || (input.weekday as number) < 0 || (input.weekday as number) > 6)) {
+    return 'weekday must be 0 (Sunday) to 6 (Saturday)';
+  }
+  if (hasDate && !isValidDateString(input.date)) {
+    return 'date must be YYYY-MM-DD';
+  }
+
+  for (const field of ['start_minute', 'end_minute'] as const) {
+    if (!isMinuteOfDay(input[field])) {
+      return `${field} must be minutes after midnight (0-1439)`;
+    }
+  }
+  if (input.start_minute === input.end_minute) {
+    return 'start_minute and end_minute must differ';
+  }
+
+  for (const field of ['effective_from', 'effective_until'] as const) {
+    if (input[field] !== undefined && input[field] !== null && !isValidDateString(input[field])) {
+      return `${field} must be YYYY-MM-DD`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Concrete shifts of `schedules` starting on local dates `from` to `to` (inclusive)
+ */
+export function expandSchedules(schedules: Schedule[], from: string, to: string, timeZone: string): ShiftOccurrence[] {
+  const shifts: ShiftOccurrence[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const weekday = weekdayOf(date);
+
+    for (const schedule of schedules) {
+      const applies = schedule.date
+        ? toDateString(schedule.date) === date
+        : schedule.weekday === weekday &&
+          (!schedule.effective_from || toDateString(schedule.effective_from) <= date) &&
+          (!schedule.effective_until || toDateString(schedule.effective_until) >= date);
+      if (!applies) continue;
+
+      const endMinute =
+        schedule.end_minute > schedule.start_minute ? schedule.end_minute : schedule.end_minute + MINUTES_PER_DAY;
+
+      shifts.push({
+        schedule_id: schedule.id,
+        user_id: schedule.user_id,
+        location_id: schedule.location_id,
+        date,
+        start: zonedTime(date, schedule.start_minute, timeZone),
+        end: zonedTime(date, endMinute, timeZone),
+      });
+    }
+  }
+
+  return shifts.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Compares a shift with the sessions recorded for it, as of `now`.
+ * Sessions count when they are at the shift's location and overlap it.
+ */
+export function evaluateShift(
+  shift: ShiftOccurrence,
+  sessions: SessionTimes[],
+  now = new Date(),
+  graceMinutes = SCHEDULE_GRACE_MINUTES
+): EvaluatedShift {
+  const windowStart = shift.start.getTime() - EARLY_ARRIVAL_MINUTES * 60000;
+  const matching = sessions
+    .filter(
+      (session) =>
+        session.user_id === shift.user_id &&
+        session.location_id === shift.location_id &&
+        session.started_at.getTime() < shift.end.getTime() &&
+        (session.ended_at ?? now).getTime() > windowStart
+    )
+    .sort((a, b) => a.started_at.getTime() - b.started_at.getTime());
+
+  const graceMs = graceMinutes * 60000;
+  const actualStart = matching[0]?.started_at ?? null;
+  const isOpen = matching.some((session) => !session.ended_at);
+  const actualEnd = matching.length > 0 && !isOpen
+    ? new Date(Math.max(...matching.map((session) => session.ended_at!.getTime())))
+    : null;
+
+  const lateMinutes = actualStart ? Math.max(0, (actualStart.getTime() - shift.start.getTime()) / 60000) : 0;
+  const earlyLeaveMinutes = actualEnd ? Math.max(0, (shift.end.getTime() - actualEnd.getTime()) / 60000) : 0;
+
+  let status: ShiftStatus;
+  if (!actualStart) {
+    status = now.getTime() >= shift.start.getTime() + graceMs ? 'absent' : 'upcoming';
+  } else if (lateMinutes * 60000 > graceMs) {
+    status = 'late';
+  } else if (now >= shift.end && earlyLeaveMinutes * 60000 > graceMs) {
+    // Leaving is only judged once the shift is over; an earlier check-out may be a break
+    status = 'early_leave';
+  } else {
+    status = 'on_time';
+  }
+
+  return {
+    ...shift,
+    status,
+    grace_minutes: graceMinutes,
+    session_ids: matching.map((session) => session.id),
+    actual_start: actualStart,
+    actual_end: actualEnd,
+    late_minutes: Math.round(lateMinutes),
+    early_leave_minutes: Math.round(earlyLeaveMinutes),
+  };
+}
+
+export async function getOrganizationTimeZone(organizationId: string): Promise<string> {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  return organization.timezone;
+}
+
+/**
+ * Evaluated shifts starting on local dates `from` to `to` for the given users
+ * (every user of the organization when userIds is null)
+ */
+export async function getShifts(
+  organizationId: string,
+  userIds: string[] | null,
+  from: string,
+  to: string,
+  now = new Date()
+): Promise<EvaluatedShift[]> {
+  const timeZone = await getOrganizationTimeZone(organizationId);
+
+  const schedules = await prisma.schedule.findMany({
+    where: {
+      organization_id: organizationId,
+      ...(userIds ? { user_id: { in: userIds } } : {}),
+      OR: [
+        { date: { gte: fromDateString(from), lte: fromDateString(to) } },
+        { weekday: { not: null } },
+      ],
+    },
+    include: {
+      user: { select: { deactivated_at: true } },
+      location: { select: { archived_at: true } },
+    },
+  });
+
+  // Shifts end when the employee is deactivated or the location archived; earlier ones are kept
+  const schedulesById = new Map(schedules.map((schedule) => [schedule.id, schedule]));
+  const shifts = expandSchedules(schedules, from, to, timeZone).filter((shift) => {
+    const { user, location } = schedulesById.get(shift.schedule_id)!;
+    const endedAt = Math.min(
+      user.deactivated_at?.getTime() ?? Infinity,
+      location.archived_at?.getTime() ?? Infinity
+    );
+    return shift.start.getTime() < endedAt;
+  });
+  if (shifts.length === 0) {
+    return [];
+  }
+
+  const earliest = new Date(shifts[0].start.getTime() - EARLY_ARRIVAL_MINUTES * 60000);
+  const latest = new Date(Math.max(...shifts.map((shift) => shift.end.getTime())));
+  const sessions = await prisma.session.findMany({
+    where: {
+      organization_id: organizationId,
+      user_id: { in: Array.from(new Set(shifts.map((shift) => shift.user_id))) },
+      started_at: { lt: latest },
+      OR: [{ ended_at: null }, { ended_at: { gt: earliest } }],
+    },
+    select: { id: true, user_id: true, location_id: true, started_at: true, ended_at: true },
+  });
+
+  const locations = await prisma.location.findMany({
+    where: { id: { in: Array.from(new Set(shifts.map((shift) => shift.location_id))) } },
+    select: { id: true, grace_minutes: true },
+  });
+  const graceByLocation = new Map(locations.map((location) => [location.id, location.grace_minutes]));
+
+  // Shifts on days of approved leave are reported as on_leave instead of being judged
+  const leaves = await prisma.leaveRequest.findMany({
+    where: {
+      organization_id: organizationId,
+      user_id: { in: Array.from(new Set(shifts.map((shift) => shift.user_id))) },
+      status: 'approved',
+      start_date: { lte: fromDateString(to) },
+      end_date: { gte: fromDateString(from) },
+    },
+    select: { user_id: true, start_date: true, end_date: true },
+  });
+  const isOnLeave = (shift: ShiftOccurrence) =>
+    leaves.some(
+      (leave) =>
+        leave.user_id === shift.user_id &&
+        toDateString(leave.start_date) <= shift.date &&
+        shift.date <= toDateString(leave.end_date)
+    );
+
+  // Shifts on public holidays of their location are neither expected nor judged;
+  // any session worked that day stays attached to the shift
+  const holidays = await getLocationHolidays(locations.map((location) => location.id), from, to);
+
+  return shifts.map((shift) => {
+    const evaluated = evaluateShift(shift, sessions, now, graceByLocation.get(shift.location_id) ?? SCHEDULE_GRACE_MINUTES);
+    if (holidays.get(shift.location_id)?.has(shift.date)) {
+      return { ...evaluated, status: 'holiday' as const };
+    }
+    return isOnLeave(shift) ? { ...evaluated, status: 'on_leave' as const } : evaluated;
+  });
+}
+
+/**
+ * The user's current or next shift within the coming week, or null (days on leave
+ * and holidays are skipped)
+ */
+export async function getNextShift(organizationId: string, userId: string, now = new Date()): Promise<EvaluatedShift | null> {
+  const timeZone = await getOrganizationTimeZone(organizationId);
+  const today = localDateString(now, timeZone);
+
+  // Start a day back so an overnight shift that began yesterday is still found
+  const shifts = await getShifts(organizationId, [userId], addDays(today, -1), addDays(today, 7), now);
+  return shifts.find((shift) => shift.end > now && shift.status !== 'on_leave' && shift.status !== 'holiday') ?? null;
+}
@@ -0,0 +1,44 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface TeamFilter {
+  team_id?: string;
+  department_id?: string;
+}
+
+// Parse ?team_id=&department_id= query parameters
+export function parseTeamFilter(query: Record<string, unknown>): TeamFilter {
+  return {
+    team_id: typeof query.team_id === 'string' && query.team_id ? query.team_id : undefined,
+    department_id: typeof query.department_id === 'string' && query.department_id ? query.department_id : undefined,
+  };
+}
+
+/**
+ * Ids of the users in a team and/or department, or null when no filter is given.
+ * A department covers every team that belongs to it.
+ */
+export async function getTeamMemberIds(filter: TeamFilter, organizationId: string): Promise<string[] | null> {
+  if (!filter.team_id && !filter.department_id) {
+    return null;
+  }
+
+  const members = await prisma.teamMember.findMany({
+    where: {
+      team_id: filter.team_id,
+      team: { organization_id: organizationId, department_id: filter.department_id },
+    },
+    select: { user_id: true },
+    distinct: ['user_id'],
+  });
+
+  return members.map((member) => member.user_id);
+}
+
+// Combine two optional user_id restrictions (null means unrestricted)
+export function intersectUserIds(a: string[] | null, b: string[] | null): string[] | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a.filter((id) => b.includes(id));
+}
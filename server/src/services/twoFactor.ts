@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { PrismaClient, User } from '@prisma/client';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+
+const prisma = new PrismaClient();
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Geo Attendance';
+const RECOVERY_CODE_COUNT = 10;
+
+// Enrollment is optional for admins until ADMIN_TOTP_REQUIRED is turned on; after that,
+// admin routes refuse admins without 2FA (TOTP_ENROLLMENT_REQUIRED) until they enroll.
+export const ADMIN_TOTP_REQUIRED = process.env.ADMIN_TOTP_REQUIRED === 'true';
+
+export class TwoFactorError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export function isTotpRequired(user: Pick<User, 'role'>): boolean {
+  return user.role === 'admin' && ADMIN_TOTP_REQUIRED;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Turning 2FA on or off ends every session signed in under the old setting;
+// the routes hand the caller a fresh session so only the other devices are signed out
+function revokeRefreshTokens(userId: string) {
+  return prisma.refreshToken.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+}
+
+// Start (or restart) enrollment: store a fresh secret that only becomes active once confirmed
+export async function beginEnrollment(user: User): Promise<{ secret: string; otpauth_uri: string }> {
+  if (user.totp_enabled) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 'TOTP_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totp_secret: secret },
+  });
+
+  return { secret, otpauth_uri: buildOtpauthUri(secret, user.email, TOTP_ISSUER) };
+}
+
+// Confirm enrollment with a code from the authenticator app. Returns the recovery codes,
+// which are only ever shown here.
+export async function confirmEnrollment(user: User, code: string): Promise<string[]> {
+  if (user.totp_enabled) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 'TOTP_ALREADY_ENABLED');
+  }
+  if (!user.totp_secret) {
+    throw new TwoFactorError('Start two-factor setup first', 'TOTP_NOT_STARTED');
+  }
+
+  const step = verifyTotp(user.totp_secret, code);
+  if (step === null) {
+    throw new TwoFactorError('Invalid authentication code', 'INVALID_TOTP');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totp_enabled: true,
+        totp_last_step: step,
+        totp_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+      },
+    }),
+    revokeRefreshTokens(user.id),
+  ]);
+
+  return recoveryCodes;
+}
+
+/**
+ * Checks a second-factor code for an enrolled user: either a current TOTP code or an
+ * unused recovery code. Accepted codes are consumed so they can't be replayed.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totp_enabled || !user.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totp_secret, code);
+  if (step !== null) {
+    // Conditional update so the same code can't be used twice, even concurrently
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totp_last_step: null }, { totp_last_step: { lt: step } }],
+      },
+      data: { totp_last_step: step },
+    });
+    return count > 0;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!user.totp_recovery_codes.includes(hash)) {
+    return false;
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, totp_recovery_codes: { has: hash } },
+    data: { totp_recovery_codes: user.totp_recovery_codes.filter((existing) => existing !== hash) },
+  });
+  return count > 0;
+}
+
+export async function regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+  if (!(await verifySecondFactor(user, code))) {
+    throw new TwoFactorError('Invalid authentication code', 'INVALID_TOTP');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totp_recovery_codes: recoveryCodes.map(hashRecoveryCode) },
+  });
+
+  return recoveryCodes;
+}
+
+export async function disableTotp(user: User, code: string): Promise<void> {
+  if (isTotpRequired(user)) {
+    throw new TwoFactorError('Two-factor authentication is required for admin accounts', 'TOTP_REQUIRED');
+  }
+  if (!(await verifySecondFactor(user, code))) {
+    throw new TwoFactorError('Invalid authentication code', 'INVALID_TOTP');
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totp_enabled: false,
+        totp_secret: null,
+        totp_last_step: null,
+        totp_recovery_codes: [],
+      },
+    }),
+    revokeRefreshTokens(user.id),
+  ]);
+}
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { PrismaClient, User, UserTokenPurpose } from '@prisma/client';
+import { sendMail } from './mail';
+import { revokeAllSessions } from './auth';
+import { LoginContext, assertPasswordResetAllowed } from './loginThrottle';
+
+const prisma = new PrismaClient();
+
+const APP_URL = process.env.APP_URL || 'http://localhost:8081';
+const INVITE_TTL_HOURS = parseInt(process.env.INVITE_TTL_HOURS || '72', 10);
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const MIN_PASSWORD_LENGTH = 6;
+
+// Unambiguous characters so the code can be typed from an email
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class UserTokenError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function generateCode(): string {
+  const bytes = crypto.randomBytes(16);
+  const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return chars.join('').match(/.{4}/g)!.join('-');
+}
+
+// Codes are accepted with or without dashes and in any case
+function hashCode(code: string): string {
+  const normalized = code.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+async function issueToken(userId: string, purpose: UserTokenPurpose, ttlMs: number) {
+  // Only the newest token of each purpose stays usable
+  await prisma.userToken.updateMany({
+    where: { user_id: userId, purpose, used_at: null },
+    data: { used_at: new Date() },
+  });
+
+  const code = generateCode();
+  const token = await prisma.userToken.create({
+    data: {
+      user_id: userId,
+      purpose,
+      token_hash: hashCode(code),
+      expires_at: new Date(Date.now() + ttlMs),
+    },
+  });
+
+  return { code, expires_at: token.expires_at };
+}
+
+function resetLink(code: string): string {
+  return `${APP_URL}/reset-password?token=${encodeURIComponent(code)}`;
+}
+
+export async function sendInvite(user: Pick<User, 'id' | 'email' | 'full_name'>): Promise<Date> {
+  const { code, expires_at } = await issueToken(user.id, 'invite', INVITE_TTL_HOURS * 60 * 60 * 1000);
+
+  await sendMail({
+    to: user.email,
+    subject: 'You have been invited to Geo Attendance',
+    text: [
+      `Hi ${user.full_name},`,
+      '',
+      'An account has been created for you. Choose a password to activate it:',
+      resetLink(code),
+      '',
+      `Or enter this code in the app: ${code}`,
+      '',
+      `The invitation expires on ${expires_at.toUTCString()}.`,
+    ].join('\n'),
+  });
+
+  return expires_at;
+}
+
+// Silently does nothing for unknown emails (or deactivated accounts) so the endpoint can't be used to probe accounts.
+// Throws LoginThrottleError when the client IP has asked for too many resets.
+export async function sendPasswordReset(email: string, context: LoginContext): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  await assertPasswordResetAllowed(email, user, context);
+  if (!user || user.deactivated_at) {
+    return;
+  }
+
+  const { code } = await issueToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Geo Attendance password',
+    text: [
+      `Hi ${user.full_name},`,
+      '',
+      'Use this link to choose a new password:',
+      resetLink(code),
+      '',
+      `Or enter this code in the app: ${code}`,
+      '',
+      `The code expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you didn't ask for a reset, ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+// Void every unused invite and reset code of the user, e.g. when the account is deactivated
+export async function revokeUserTokens(userId: string): Promise<void> {
+  await prisma.userToken.updateMany({
+    where: { user_id: userId, used_at: null },
+    data: { used_at: new Date() },
+  });
+}
+
+// Redeem an invite or password reset code by setting a new password. Existing sessions are revoked.
+export async function redeemUserToken(code: string, password: unknown): Promise<void> {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserTokenError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 'WEAK_PASSWORD');
+  }
+
+  const token = await prisma.userToken.findUnique({
+    where: { token_hash: hashCode(code) },
+    include: { user: { select: { deactivated_at: true } } },
+  });
+  // Deactivation voids outstanding codes; the user check covers codes issued since
+  if (!token || token.used_at || token.expires_at < new Date() || token.user.deactivated_at) {
+    throw new UserTokenError('This link or code is invalid or has expired', 'INVALID_TOKEN');
+  }
+
+  const password_hash = await bcrypt.hash(password, 10);
+
+  await prisma.$transaction(async (tx) => {
+    // Conditional update so the same code can't be redeemed twice concurrently
+    const { count } = await tx.userToken.updateMany({
+      where: { id: token.id, used_at: null },
+      data: { used_at: new Date() },
+    });
+    if (count === 0) {
+      throw new UserTokenError('This link or code is invalid or has expired', 'INVALID_TOKEN');
+    }
+
+    await tx.user.update({
+      where: { id: token.user_id },
+      data: { password_hash, failed_login_count: 0, locked_until: null },
+    });
+  });
+
+  await revokeAllSessions(token.user_id);
+}
@@ -0,0 +1,238 @@
+// Geofence math shared by the server and the app (src/utils/geofencing.ts re-exports it),
+// so a punch is judged the same way on both sides. Keep it free of imports.
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// GeoJSON ring of [longitude, latitude] pairs, first and last point equal
+export type PolygonRing = [number, number][];
+
+export type LocationBoundary =
+  | { type: 'Polygon'; coordinates: PolygonRing[] }
+  | { type: 'MultiPolygon'; coordinates: PolygonRing[][] };
+
+export interface CircularFence {
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+}
+
+// A location row: a circle, optionally replaced by a polygon boundary (stored as JSON)
+export interface FenceLocation extends CircularFence {
+  boundary?: unknown;
+}
+
+/**
+ * Converts degrees to radians
+ */
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Calculates the distance between two coordinates using the Haversine formula
+ * @returns Distance in meters
+ */
+export function calculateDistance(
+  point1: Coordinates,
+  point2: Coordinates
+): number {
+  const lat1Rad = toRadians(point1.latitude);
+  const lat2Rad = toRadians(point2.latitude);
+  const deltaLat = toRadians(point2.latitude - point1.latitude);
+  const deltaLon = toRadians(point2.longitude - point1.longitude);
+
+  const a =
+    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+    Math.cos(lat1Rad) *
+      Math.cos(lat2Rad) *
+      Math.sin(deltaLon / 2) *
+      Math.sin(deltaLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+/**
+ * Checks if a point is within a location's fence
+ */
+export function isWithinFence(point: Coordinates, location: FenceLocation): boolean {
+  if (location.boundary) {
+    return isWithinBoundary(point, location.boundary as LocationBoundary);
+  }
+  return calculateDistance(point, location) <= location.radius_meters;
+}
+
+/**
+ * Returns true when both values are finite numbers within valid lat/long ranges
+ */
+export function isValidCoordinates(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Checks if a point is inside a single ring using ray casting.
+ * Rings use GeoJSON [longitude, latitude] order.
+ */
+function isPointInRing(point: Coordinates, ring: PolygonRing): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const intersects =
+      yi > point.latitude !== yj > point.latitude &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Checks if a point is inside a polygon (outer ring minus any holes)
+ */
+function isPointInPolygon(point: Coordinates, rings: PolygonRing[]): boolean {
+  const [outer, ...holes] = rings;
+  if (!outer || !isPointInRing(point, outer)) {
+    return false;
+  }
+  return !holes.some((hole) => isPointInRing(point, hole));
+}
+
+export function boundaryPolygons(boundary: LocationBoundary): PolygonRing[][] {
+  return boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates;
+}
+
+/**
+ * Checks if a point is inside a Polygon or MultiPolygon boundary
+ */
+export function isWithinBoundary(point: Coordinates, boundary: LocationBoundary): boolean {
+  return boundaryPolygons(boundary).some((rings) => isPointInPolygon(point, rings));
+}
+
+/**
+ * Distance from a point to the segment a-b, using a local equirectangular
+ * projection around the point (accurate enough at geofence scale)
+ * @returns Distance in meters
+ */
+function distanceToSegment(point: Coordinates, a: [number, number], b: [number, number]): number {
+  const metersPerDegLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const metersPerDegLon = metersPerDegLat * Math.cos(toRadians(point.latitude));
+
+  const ax = (a[0] - point.longitude) * metersPerDegLon;
+  const ay = (a[1] - point.latitude) * metersPerDegLat;
+  const bx = (b[0] - point.longitude) * metersPerDegLon;
+  const by = (b[1] - point.latitude) * metersPerDegLat;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Gets how far a point is outside a boundary (0 when inside)
+ * @returns Distance in meters
+ */
+export function getDistanceOutsideBoundary(point: Coordinates, boundary: LocationBoundary): number {
+  if (isWithinBoundary(point, boundary)) {
+    return 0;
+  }
+
+  let minDistance = Infinity;
+  for (const rings of boundaryPolygons(boundary)) {
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length; i++) {
+        const next = ring[(i + 1) % ring.length];
+        minDistance = Math.min(minDistance, distanceToSegment(point, ring[i], next));
+      }
+    }
+  }
+  return minDistance;
+}
+
+/**
+ * Gets how far a point is outside a location (0 when inside), using its
+ * polygon boundary when it has one and its center/radius circle otherwise
+ * @returns Distance in meters
+ */
+export function getDistanceOutsideLocation(point: Coordinates, location: FenceLocation): number {
+  if (location.boundary) {
+    return getDistanceOutsideBoundary(point, location.boundary as LocationBoundary);
+  }
+  return Math.max(0, calculateDistance(point, location) - location.radius_meters);
+}
+
+function isValidRing(ring: unknown): ring is PolygonRing {
+  if (!Array.isArray(ring) || ring.length < 4) {
+    return false;
+  }
+  const valid = ring.every(
+    (position) => Array.isArray(position) && position.length >= 2 && isValidCoordinates(position[1], position[0])
+  );
+  if (!valid) {
+    return false;
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return false;
+  }
+  // A closed ring repeats its first vertex; [A, A, A, A] encloses nothing
+  const distinct = new Set(ring.slice(0, -1).map((position) => `${position[0]},${position[1]}`));
+  return distinct.size >= 3;
+}
+
+function isValidPolygon(rings: unknown): rings is PolygonRing[] {
+  return Array.isArray(rings) && rings.length > 0 && rings.every(isValidRing);
+}
+
+/**
+ * Validates a GeoJSON Polygon/MultiPolygon geometry
+ * @returns An error message, or null when the boundary is valid
+ */
+export function validateBoundary(boundary: any): string | null {
+  if (!boundary || typeof boundary !== 'object') {
+    return 'boundary must be a GeoJSON Polygon or MultiPolygon';
+  }
+  if (boundary.type === 'Polygon') {
+    return isValidPolygon(boundary.coordinates)
+      ? null
+      : 'Polygon rings need at least 3 distinct [longitude, latitude] vertices and must be closed';
+  }
+  if (boundary.type === 'MultiPolygon') {
+    return Array.isArray(boundary.coordinates) && boundary.coordinates.length > 0 && boundary.coordinates.every(isValidPolygon)
+      ? null
+      : 'MultiPolygon must contain valid, closed polygons';
+  }
+  return 'boundary must be a GeoJSON Polygon or MultiPolygon';
+}
+
+/**
+ * Computes a circle enclosing a boundary: the vertex centroid and the distance
+ * to the farthest vertex. Used as the center/radius of polygon locations.
+ */
+export function getBoundaryCircle(boundary: LocationBoundary): CircularFence {
+  const vertices = boundaryPolygons(boundary).flatMap(([outer]) => outer.slice(0, -1));
+  const latitude = vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length;
+  const longitude = vertices.reduce((sum, [lon]) => sum + lon, 0) / vertices.length;
+  const radius_meters = Math.max(
+    ...vertices.map(([lon, lat]) => calculateDistance({ latitude, longitude }, { latitude: lat, longitude: lon }))
+  );
+  return { latitude, longitude, radius_meters: Math.ceil(radius_meters) };
+}
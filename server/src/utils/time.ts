@@ -0,0 +1,79 @@
+// Calendar dates are handled as 'YYYY-MM-DD' strings so they never shift with the server's time zone
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Round-trips through Date so impossible days like 2024-02-31, which Date would roll into March, are rejected
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = fromDateString(value);
+  return !isNaN(date.getTime()) && toDateString(date) === value;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in minutes (positive east of Greenwich)
+ */
+function timeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `minutes` after midnight on `date`.
+ * Minutes past 1440 roll into the following day.
+ */
+export function zonedTime(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Second pass corrects for a DST change between the guess and the result
+  const firstGuess = wallClock - timeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - timeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/**
+ * Calendar date of an instant as seen in `timeZone`
+ */
+export function localDateString(date: Date, timeZone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Prisma returns @db.Date columns as UTC midnight
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function fromDateString(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
@@ -1,61 +1,127 @@
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateUuid } from '../utils/uuid';
+import { getDeviceId } from '../utils/device';
 
 // Railway API URL
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://geo-attendance-production.up.railway.app';
 
 const TOKEN_KEY = 'geo_attendance_token';
+const REFRESH_TOKEN_KEY = 'geo_attendance_refresh_token';
+
+// Methods that get an Idempotency-Key so a retried request can't be applied twice
+const IDEMPOTENT_METHODS = ['POST', 'PUT', 'PATCH'];
+
+export interface RequestOptions {
+  idempotencyKey?: string;
+}
+
+// Error thrown for non-2xx responses, keeping the server's machine-readable code
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details: Record<string, any>;
+
+  constructor(message: string, status: number, code?: string, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
 
 class ApiClient {
   private baseUrl: string;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListener: (() => void) | null = null;
+  private deviceMismatchListener: ((error: ApiError) => void) | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
-  async getToken(): Promise<string | null> {
+  private async readItem(key: string): Promise<string | null> {
     try {
       if (Platform.OS === 'web') {
-        return localStorage.getItem(TOKEN_KEY);
+        return localStorage.getItem(key);
       }
-      return await AsyncStorage.getItem(TOKEN_KEY);
+      return await AsyncStorage.getItem(key);
     } catch {
       return null;
     }
   }
 
-  async setToken(token: string): Promise<void> {
+  private async writeItem(key: string, value: string): Promise<void> {
     try {
       if (Platform.OS === 'web') {
-        localStorage.setItem(TOKEN_KEY, token);
+        localStorage.setItem(key, value);
       } else {
-        await AsyncStorage.setItem(TOKEN_KEY, token);
+        await AsyncStorage.setItem(key, value);
       }
     } catch (error) {
-      console.error('Error saving token:', error);
+      console.error(`Error saving ${key}:`, error);
     }
   }
 
-  async removeToken(): Promise<void> {
+  private async deleteItem(key: string): Promise<void> {
     try {
       if (Platform.OS === 'web') {
-        localStorage.removeItem(TOKEN_KEY);
+        localStorage.removeItem(key);
       } else {
-        await AsyncStorage.removeItem(TOKEN_KEY);
+        await AsyncStorage.removeItem(key);
       }
     } catch (error) {
-      console.error('Error removing token:', error);
+      console.error(`Error removing ${key}:`, error);
     }
   }
 
+  async getToken(): Promise<string | null> {
+    return this.readItem(TOKEN_KEY);
+  }
+
+  async setToken(token: string): Promise<void> {
+    await this.writeItem(TOKEN_KEY, token);
+  }
+
+  async removeToken(): Promise<void> {
+    await this.deleteItem(TOKEN_KEY);
+  }
+
+  async getRefreshToken(): Promise<string | null> {
+    return this.readItem(REFRESH_TOKEN_KEY);
+  }
+
+  async setRefreshToken(token: string): Promise<void> {
+    await this.writeItem(REFRESH_TOKEN_KEY, token);
+  }
+
+  async clearTokens(): Promise<void> {
+    await this.deleteItem(TOKEN_KEY);
+    await this.deleteItem(REFRESH_TOKEN_KEY);
+  }
+
+  // Called when the refresh token is rejected and the user has to sign in again
+  setSessionExpiredListener(listener: (() => void) | null): void {
+    this.sessionExpiredListener = listener;
+  }
+
+  // Called when the server rejects this device (DEVICE_MISMATCH) so the app can show the blocked screen
+  setDeviceMismatchListener(listener: ((error: ApiError) => void) | null): void {
+    this.deviceMismatchListener = listener;
+  }
+
   async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    canRefresh = true
   ): Promise<T> {
     const token = await this.getToken();
 
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
+      // The server checks this against the device bound to the account
+      'X-Device-Id': await getDeviceId(),
       ...options.headers,
     };
 
@@ -63,6 +129,11 @@ class ApiClient {
       (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
     }
 
+    const method = (options.method || 'GET').toUpperCase();
+    if (IDEMPOTENT_METHODS.includes(method) && !(headers as Record<string, string>)['Idempotency-Key']) {
+      (headers as Record<string, string>)['Idempotency-Key'] = generateUuid();
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 15000);
 
@@ -75,10 +146,22 @@ class ApiClient {
 
       clearTimeout(timeoutId);
 
+      // Expired access token: refresh once and replay with the same Idempotency-Key
+      if (response.status === 401 && canRefresh && token && !endpoint.startsWith('/api/auth/')) {
+        if (await this.refreshAccessToken()) {
+          return this.request<T>(endpoint, { ...options, headers }, false);
+        }
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Request failed');
+        const { error, code, ...details } = data || {};
+        const apiError = new ApiError(error || 'Request failed', response.status, code, details);
+        if (code === 'DEVICE_MISMATCH') {
+          this.deviceMismatchListener?.(apiError);
+        }
+        throw apiError;
       }
 
       return data;
@@ -91,35 +174,78 @@ class ApiClient {
     }
   }
 
+  // Concurrent 401s share a single refresh, since each refresh token can only be used once
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = await this.getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const result = await this.request<{ token: string; refresh_token: string }>(
+        '/api/auth/refresh',
+        { method: 'POST', body: JSON.stringify({ refresh_token: refreshToken }) },
+        false
+      );
+      await this.setToken(result.token);
+      await this.setRefreshToken(result.refresh_token);
+      return true;
+    } catch (error) {
+      // Only a server rejection ends the session; network failures keep the tokens
+      if (error instanceof ApiError) {
+        await this.clearTokens();
+        this.sessionExpiredListener?.();
+      }
+      return false;
+    }
+  }
+
   async get<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
-  async post<T>(endpoint: string, body?: any): Promise<T> {
+  async post<T>(endpoint: string, body?: any, requestOptions: RequestOptions = {}): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: body ? JSON.stringify(body) : undefined,
+      headers: this.idempotencyHeaders(requestOptions),
     });
   }
 
-  async put<T>(endpoint: string, body?: any): Promise<T> {
+  async put<T>(endpoint: string, body?: any, requestOptions: RequestOptions = {}): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
       body: body ? JSON.stringify(body) : undefined,
+      headers: this.idempotencyHeaders(requestOptions),
     });
   }
 
-  async patch<T>(endpoint: string, body?: any): Promise<T> {
+  async patch<T>(endpoint: string, body?: any, requestOptions: RequestOptions = {}): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PATCH',
       body: body ? JSON.stringify(body) : undefined,
+      headers: this.idempotencyHeaders(requestOptions),
     });
   }
 
   async delete<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
+
+  // Callers that retry the same logical operation pass a stable key; otherwise request() generates one
+  private idempotencyHeaders(requestOptions: RequestOptions): Record<string, string> {
+    return requestOptions.idempotencyKey ? { 'Idempotency-Key': requestOptions.idempotencyKey } : {};
+  }
 }
 
 export const api = new ApiClient(API_BASE_URL);
-export { TOKEN_KEY };
+export { TOKEN_KEY, REFRESH_TOKEN_KEY };
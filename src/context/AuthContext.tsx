@@ -1,104 +1,42 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { Platform } from 'react-native';
-import { api } from '../config/api';
+import { api, ApiError } from '../config/api';
 import { Profile } from '../types';
 
-// Only import expo-application on native platforms
-let Application: any = null;
-if (Platform.OS !== 'web') {
-  Application = require('expo-application');
-}
-
 interface AuthContextType {
   user: Profile | null;
   loading: boolean;
   deviceBlocked: boolean;
   blockedUserEmail: string | null;
   resetRequested: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  signIn: (email: string, password: string) => Promise<{ error: Error | null; mfaRequired?: boolean }>;
+  verifyTwoFactor: (code: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  forgotPassword: (email: string) => Promise<{ error: Error | null }>;
+  resetPassword: (token: string, password: string) => Promise<{ error: Error | null }>;
   requestDeviceReset: () => Promise<boolean>;
   isAdmin: boolean;
+  isManager: boolean;
   refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Get unique device identifier
-async function getDeviceId(): Promise<string> {
-  try {
-    if (Platform.OS === 'web') {
-      if (typeof window !== 'undefined' && window.localStorage) {
-        let webDeviceId = window.localStorage.getItem('geo_attendance_device_id');
-        if (!webDeviceId) {
-          webDeviceId = `web_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-          window.localStorage.setItem('geo_attendance_device_id', webDeviceId);
-        }
-        return webDeviceId;
-      }
-      return `web_${Date.now()}`;
-    } else if (Platform.OS === 'ios' && Application) {
-      const iosId = await Application.getIosIdForVendorAsync();
-      return iosId || `ios_${Date.now()}`;
-    } else if (Application) {
-      return Application.getAndroidId() || `android_${Date.now()}`;
-    }
-    return `native_${Date.now()}`;
-  } catch (err) {
-    console.error('Error getting device ID:', err);
-    return `fallback_${Date.now()}`;
-  }
-}
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [deviceBlocked, setDeviceBlocked] = useState(false);
   const [blockedUserEmail, setBlockedUserEmail] = useState<string | null>(null);
   const [resetRequested, setResetRequested] = useState(false);
+  const [deviceResetToken, setDeviceResetToken] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
-  const verifyAndBindDevice = async (profile: Profile): Promise<boolean> => {
-    try {
-      const currentDeviceId = await getDeviceId();
-      console.log('Device verification:', {
-        profileDeviceId: profile.device_id,
-        currentDeviceId,
-        isAdmin: profile.role === 'admin'
-      });
-
-      // Admins bypass device binding
-      if (profile.role === 'admin') {
-        return true;
-      }
-
-      // If no device_id set, this is first login - bind the device
-      if (!profile.device_id) {
-        console.log('First login - binding device');
-        try {
-          const updatedUser = await api.patch<Profile>('/api/users/device', {
-            device_id: currentDeviceId,
-          });
-          setUser(updatedUser);
-        } catch (err) {
-          console.error('Error binding device:', err);
-        }
-        return true;
-      }
-
-      // Verify device matches
-      if (profile.device_id !== currentDeviceId) {
-        console.log('Device mismatch - blocking access');
-        setDeviceBlocked(true);
-        setBlockedUserEmail(profile.email);
-        setResetRequested(profile.device_reset_requested || false);
-        return false;
-      }
-
-      return true;
-    } catch (err) {
-      console.error('Device verification error:', err);
-      return true;
-    }
+  // Device binding is enforced by the server; a DEVICE_MISMATCH error switches to the blocked screen
+  const handleDeviceMismatch = (error: ApiError) => {
+    setUser(null);
+    setDeviceBlocked(true);
+    setBlockedUserEmail(error.details.email || null);
+    setResetRequested(error.details.device_reset_requested || false);
+    setDeviceResetToken(error.details.reset_token || null);
   };
 
   const fetchProfile = async (): Promise<Profile | null> => {
@@ -114,11 +52,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const refreshProfile = async () => {
     const profile = await fetchProfile();
     if (profile) {
-      const deviceOk = await verifyAndBindDevice(profile);
-      if (deviceOk) {
-        setUser(profile);
-        setDeviceBlocked(false);
-      }
+      setUser(profile);
     }
   };
 
@@ -132,15 +66,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       const profile = await fetchProfile();
       if (profile) {
-        const deviceOk = await verifyAndBindDevice(profile);
-        if (deviceOk) {
-          setUser(profile);
-          setDeviceBlocked(false);
-        }
+        setUser(profile);
       }
     } catch (err) {
       console.error('Auth check error:', err);
-      await api.removeToken();
+      await api.clearTokens();
     } finally {
       setLoading(false);
     }
@@ -148,50 +78,114 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     checkAuth();
+
+    // The API client signals when the refresh token is rejected (expired or revoked)
+    api.setSessionExpiredListener(() => {
+      setUser(null);
+      setDeviceBlocked(false);
+    });
+    api.setDeviceMismatchListener(handleDeviceMismatch);
+    return () => {
+      api.setSessionExpiredListener(null);
+      api.setDeviceMismatchListener(null);
+    };
   }, []);
 
+  const completeSignIn = async (result: { user: Profile; token: string; refresh_token: string }) => {
+    await api.setToken(result.token);
+    await api.setRefreshToken(result.refresh_token);
+    setMfaToken(null);
+    // The login response is the bare account; the profile adds totp_required, which gates admin 2FA enrollment
+    setUser((await fetchProfile()) || result.user);
+  };
+
+  const handleSignInError = (error: any) => {
+    // The blocked screen is shown instead of a login error
+    if (error instanceof ApiError && error.code === 'DEVICE_MISMATCH') {
+      return { error: null };
+    }
+    // Keep ApiError so the login screen can read lockout details
+    return { error: error instanceof ApiError ? error : new Error(error.message) };
+  };
+
   const signIn = async (email: string, password: string) => {
     setDeviceBlocked(false);
     setResetRequested(false);
 
     try {
-      const result = await api.post<{ user: Profile; token: string }>('/api/auth/login', {
+      const result = await api.post<
+        { user: Profile; token: string; refresh_token: string } | { mfa_required: true; mfa_token: string }
+      >('/api/auth/login', {
         email,
         password,
       });
 
-      console.log('SignIn - user from server:', {
-        email: result.user.email,
-        device_id: result.user.device_id,
-        role: result.user.role,
-      });
-
-      await api.setToken(result.token);
-
-      const deviceOk = await verifyAndBindDevice(result.user);
-      console.log('SignIn - device verification result:', deviceOk);
-
-      if (deviceOk) {
-        setUser(result.user);
+      // Accounts with two-factor authentication finish signing in with verifyTwoFactor
+      if ('mfa_required' in result) {
+        setMfaToken(result.mfa_token);
+        return { error: null, mfaRequired: true };
       }
 
+      await completeSignIn(result);
       return { error: null };
     } catch (error: any) {
-      return { error: new Error(error.message) };
+      return handleSignInError(error);
+    }
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    try {
+      const result = await api.post<{ user: Profile; token: string; refresh_token: string }>(
+        '/api/auth/login/totp',
+        { mfa_token: mfaToken, code }
+      );
+      await completeSignIn(result);
+      return { error: null };
+    } catch (error: any) {
+      return handleSignInError(error);
     }
   };
 
   const signOut = async () => {
-    await api.removeToken();
+    const refreshToken = await api.getRefreshToken();
+    if (refreshToken) {
+      try {
+        await api.post('/api/auth/logout', { refresh_token: refreshToken });
+      } catch (err) {
+        console.error('Error revoking session:', err);
+      }
+    }
+    await api.clearTokens();
     setUser(null);
     setDeviceBlocked(false);
     setBlockedUserEmail(null);
     setResetRequested(false);
+    setDeviceResetToken(null);
+  };
+
+  // Emails a reset code; the server responds the same way whether or not the account exists
+  const forgotPassword = async (email: string) => {
+    try {
+      await api.post('/api/auth/forgot-password', { email });
+      return { error: null };
+    } catch (error: any) {
+      return { error: new Error(error.message) };
+    }
+  };
+
+  // Redeems a password reset or invitation code
+  const resetPassword = async (token: string, password: string) => {
+    try {
+      await api.post('/api/auth/reset-password', { token, password });
+      return { error: null };
+    } catch (error: any) {
+      return { error: new Error(error.message) };
+    }
   };
 
   const requestDeviceReset = async (): Promise<boolean> => {
     try {
-      await api.post('/api/users/request-device-reset');
+      await api.post('/api/auth/request-device-reset', { reset_token: deviceResetToken });
       setResetRequested(true);
       return true;
     } catch (err) {
@@ -201,6 +195,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const isAdmin = user?.role === 'admin';
+  // Managers see the admin panel scoped to the employees at their locations
+  const isManager = user?.role === 'manager';
 
   return (
     <AuthContext.Provider
@@ -211,9 +207,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         blockedUserEmail,
         resetRequested,
         signIn,
+        verifyTwoFactor,
         signOut,
+        forgotPassword,
+        resetPassword,
         requestDeviceReset,
         isAdmin,
+        isManager,
         refreshProfile,
       }}
     >
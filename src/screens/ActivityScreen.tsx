@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { AuditEvent } from '../types';
+import { getAuditEvents } from '../services/auditService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const TARGET_FILTERS: { label: string; value: string | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Users', value: 'user' },
+  { label: 'Locations', value: 'location' },
+  { label: 'Teams', value: 'team' },
+  { label: 'Departments', value: 'department' },
+  { label: 'Schedules', value: 'schedule' },
+  { label: 'Corrections', value: 'correction_request' },
+  { label: 'Leave', value: 'leave_request' },
+  { label: 'Holidays', value: 'holiday_calendar' },
+  { label: 'Organization', value: 'organization' },
+];
+
+// user.reset_device -> "user reset device"
+function formatAction(action: string): string {
+  return action.replace(/[._]/g, ' ');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// One line per field: "name: Old → New" for updates, "name: Value" for creates and deletes
+function describeChanges(event: AuditEvent): string[] {
+  const keys = Array.from(new Set([...Object.keys(event.before || {}), ...Object.keys(event.after || {})]));
+  return keys.map((key) => {
+    if (event.before && event.after) {
+      return `${key}: ${formatValue(event.before[key])} → ${formatValue(event.after[key])}`;
+    }
+    return `${key}: ${formatValue((event.after || event.before)![key])}`;
+  });
+}
+
+interface ActivityScreenProps {
+  onClose: () => void;
+}
+
+export default function ActivityScreen({ onClose }: ActivityScreenProps) {
+  const [targetType, setTargetType] = useState<string | null>(null);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    const { events: list, nextCursor: cursor, error } = await getAuditEvents({ target_type: targetType || undefined });
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setEvents(list);
+    setNextCursor(cursor);
+  }, [targetType]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const { events: list, nextCursor: cursor, error } = await getAuditEvents(
+      { target_type: targetType || undefined },
+      nextCursor
+    );
+    setLoadingMore(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setEvents((prev) => [...prev, ...list]);
+    setNextCursor(cursor);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Activity</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.chips}>
+        {TARGET_FILTERS.map((filter) => (
+          <TouchableOpacity
+            key={filter.label}
+            style={[styles.chip, targetType === filter.value && styles.chipActive]}
+            onPress={() => setTargetType(filter.value)}
+          >
+            <Text style={[styles.chipText, targetType === filter.value && styles.chipTextActive]}>{filter.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : events.length === 0 ? (
+        <Text style={styles.emptyText}>No activity recorded</Text>
+      ) : (
+        <View style={styles.card}>
+          {events.map((event) => (
+            <TouchableOpacity
+              key={event.id}
+              style={styles.eventRow}
+              onPress={() => setExpandedId(expandedId === event.id ? null : event.id)}
+            >
+              <Text style={styles.action}>{formatAction(event.action)}</Text>
+              <Text style={styles.detail}>
+                {event.actor_email || 'Unknown user'} · {new Date(event.created_at).toLocaleString()}
+              </Text>
+              {expandedId === event.id && (
+                <View style={styles.changes}>
+                  {event.target_id && <Text style={styles.change}>id: {event.target_id}</Text>}
+                  {describeChanges(event).map((line) => (
+                    <Text key={line} style={styles.change}>
+                      {line}
+                    </Text>
+                  ))}
+                  {event.ip && <Text style={styles.detail}>From {event.ip}</Text>}
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {nextCursor && (
+            <TouchableOpacity style={styles.loadMore} onPress={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <Text style={styles.linkText}>Load more</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  eventRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  changes: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#fafafa',
+  },
+  change: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 2,
+  },
+  loadMore: {
+    paddingTop: 12,
+    alignItems: 'center',
+  },
+});
@@ -14,9 +14,20 @@ import {
   ScrollView,
 } from 'react-native';
 import { api } from '../config/api';
-import { Profile, AttendanceRecord, Location } from '../types';
+import { Profile, AttendanceRecord, Location, UserRole, Team, Roster, ShiftStatus } from '../types';
 import { getLocations } from '../services/locationsService';
 import { getAttendanceForUser } from '../services/attendanceService';
+import { getSessions } from '../services/sessionsService';
+import { getTeams } from '../services/teamsService';
+import { getRoster } from '../services/schedulesService';
+import { getExceptionCounts } from '../services/exceptionsService';
+import TwoFactorSetupScreen from './TwoFactorSetupScreen';
+import TeamsScreen from './TeamsScreen';
+import CorrectionsScreen from './CorrectionsScreen';
+import ActivityScreen from './ActivityScreen';
+import LeaveRequestsScreen from './LeaveRequestsScreen';
+import OrganizationsScreen from './OrganizationsScreen';
+import { useAuth } from '../context/AuthContext';
 
 const showAlert = (title: string, message: string) => {
   if (Platform.OS === 'web') {
@@ -26,7 +37,7 @@ const showAlert = (title: string, message: string) => {
   }
 };
 
-const showConfirm = (title: string, message: string, onConfirm: () => void) => {
+const showConfirm = (title: string, message: string, onConfirm: () => void, confirmLabel = 'Reset') => {
   if (Platform.OS === 'web') {
     if (window.confirm(`${title}\n\n${message}`)) {
       onConfirm();
@@ -34,7 +45,7 @@ const showConfirm = (title: string, message: string, onConfirm: () => void) => {
   } else {
     Alert.alert(title, message, [
       { text: 'Cancel', style: 'cancel' },
-      { text: 'Reset', style: 'destructive', onPress: onConfirm },
+      { text: confirmLabel, style: 'destructive', onPress: onConfirm },
     ]);
   }
 };
@@ -47,6 +58,46 @@ function formatDate(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
+const SUSPICION_LABELS: Record<string, string> = {
+  mocked_location: 'Mock location',
+  low_accuracy: 'Low GPS accuracy',
+  impossible_travel: 'Impossible travel',
+  missing_accuracy: 'No GPS accuracy',
+};
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  if (hours === 0) return `${mins}m`;
+  return `${hours}h ${mins}m`;
+}
+
+// Short backoff delays also set locked_until; only show it while it's in the future
+function isLocked(employee: Profile): boolean {
+  return !!employee.locked_until && new Date(employee.locked_until) > new Date();
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+const PUNCH_BADGE_LABELS: Record<AttendanceRecord['status'], string> = {
+  check_in: 'IN',
+  check_out: 'OUT',
+  break_start: 'BREAK',
+  break_end: 'BACK',
+};
+
+const ROSTER_STATUS_LABELS: Record<ShiftStatus, string> = {
+  upcoming: 'Upcoming',
+  on_time: 'On time',
+  late: 'Late',
+  early_leave: 'Left early',
+  absent: 'Absent',
+  on_leave: 'On leave',
+  holiday: 'Holiday',
+};
+
 function formatDateTime(timestamp: string): string {
   const date = new Date(timestamp);
   return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], {
@@ -56,6 +107,8 @@ function formatDateTime(timestamp: string): string {
 }
 
 export default function AdminScreen() {
+  // Managers get the same screen limited to viewing attendance and resetting devices
+  const { user, isAdmin } = useAuth();
   const [employees, setEmployees] = useState<Profile[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
@@ -65,15 +118,24 @@ export default function AdminScreen() {
   const [selectedEmployee, setSelectedEmployee] = useState<Profile | null>(null);
   const [employeeAttendance, setEmployeeAttendance] = useState<AttendanceWithLocation[]>([]);
   const [attendanceLoading, setAttendanceLoading] = useState(false);
+  const [sessionTotals, setSessionTotals] = useState<{ minutes: number; sessions: number }>({ minutes: 0, sessions: 0 });
 
   // Create user modal
   const [showCreateUser, setShowCreateUser] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showTeams, setShowTeams] = useState(false);
+  const [showOrganizations, setShowOrganizations] = useState(false);
+  const [showCorrections, setShowCorrections] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showLeave, setShowLeave] = useState(false);
   const [createUserLoading, setCreateUserLoading] = useState(false);
   const [newUserForm, setNewUserForm] = useState({
     full_name: '',
     email: '',
     password: '',
   });
+  const [sendInvite, setSendInvite] = useState(true);
+  const [newUserRole, setNewUserRole] = useState<UserRole>('employee');
   const [selectedLocationIds, setSelectedLocationIds] = useState<string[]>([]);
 
   // Filters
@@ -84,10 +146,19 @@ export default function AdminScreen() {
   });
   const [endDate, setEndDate] = useState<Date>(new Date());
   const [selectedLocationFilter, setSelectedLocationFilter] = useState<string | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [selectedTeamFilter, setSelectedTeamFilter] = useState<string | null>(null);
+  const [showDeactivated, setShowDeactivated] = useState(false);
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [exceptionCounts, setExceptionCounts] = useState<Record<string, number>>({});
 
   const fetchEmployees = useCallback(async () => {
     try {
-      const data = await api.get<Profile[]>('/api/users');
+      const params = new URLSearchParams();
+      if (selectedTeamFilter) params.append('team_id', selectedTeamFilter);
+      if (showDeactivated) params.append('include_deactivated', 'true');
+      const query = params.toString();
+      const data = await api.get<Profile[]>(`/api/users${query ? `?${query}` : ''}`);
       setEmployees(data || []);
     } catch (err) {
       console.error('Error fetching employees:', err);
@@ -95,21 +166,57 @@ export default function AdminScreen() {
       setLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [selectedTeamFilter, showDeactivated]);
 
   const fetchLocationsData = useCallback(async () => {
     const { locations: locs } = await getLocations();
     setLocations(locs);
   }, []);
 
+  const fetchTeamsData = useCallback(async () => {
+    const { teams: teamList } = await getTeams();
+    setTeams(teamList);
+  }, []);
+
   useEffect(() => {
     fetchEmployees();
+  }, [fetchEmployees]);
+
+  // Today's expected vs. actual roster
+  const fetchRoster = useCallback(async () => {
+    const { roster: today, error } = await getRoster();
+    if (error) {
+      console.error('Error fetching roster:', error);
+      return;
+    }
+    setRoster(today);
+  }, []);
+
+  // Late arrivals, no-shows etc. per employee over the selected date range
+  const fetchExceptionCounts = useCallback(async () => {
+    const { counts, error } = await getExceptionCounts(startDate, endDate);
+    if (error) {
+      console.error('Error fetching exception counts:', error);
+      return;
+    }
+    setExceptionCounts(counts);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
     fetchLocationsData();
-  }, [fetchEmployees, fetchLocationsData]);
+    fetchTeamsData();
+    fetchRoster();
+  }, [fetchLocationsData, fetchTeamsData, fetchRoster]);
+
+  useEffect(() => {
+    fetchExceptionCounts();
+  }, [fetchExceptionCounts]);
 
   const handleRefresh = () => {
     setRefreshing(true);
     fetchEmployees();
+    fetchRoster();
+    fetchExceptionCounts();
   };
 
   const fetchEmployeeAttendance = async (employee: Profile) => {
@@ -117,7 +224,20 @@ export default function AdminScreen() {
     setAttendanceLoading(true);
 
     try {
-      const { records } = await getAttendanceForUser(employee.id, startDate, endDate);
+      const [{ records }, { sessions }] = await Promise.all([
+        getAttendanceForUser(employee.id, startDate, endDate),
+        getSessions(startDate, endDate, {
+          userId: employee.id,
+          locationId: selectedLocationFilter || undefined,
+        }),
+      ]);
+
+      // Worked time comes from server-computed sessions, not from pairing records here
+      const closedSessions = sessions.filter((session) => session.duration_minutes !== null);
+      setSessionTotals({
+        minutes: closedSessions.reduce((total, session) => total + (session.duration_minutes || 0), 0),
+        sessions: closedSessions.length,
+      });
 
       // Filter by location if selected and map location names
       let filteredRecords = records;
@@ -180,6 +300,83 @@ export default function AdminScreen() {
     );
   };
 
+  const changeRole = async (employee: Profile, role: UserRole) => {
+    try {
+      await api.put(`/api/users/${employee.id}/role`, { role });
+      showAlert('Success', `${employee.full_name} is now ${role === 'manager' ? 'a manager' : 'an employee'}.`);
+      fetchEmployees();
+    } catch (err: any) {
+      console.error('Error changing role:', err);
+      showAlert('Error', err.message || 'Failed to change role');
+    }
+  };
+
+  const unlockEmployee = async (employee: Profile) => {
+    try {
+      await api.post(`/api/users/${employee.id}/unlock`);
+      showAlert('Success', `${employee.full_name} can sign in again.`);
+      fetchEmployees();
+    } catch (err) {
+      console.error('Error unlocking user:', err);
+      showAlert('Error', 'Failed to unlock user');
+    }
+  };
+
+  const resendInvite = async (employee: Profile) => {
+    try {
+      await api.post(`/api/users/${employee.id}/resend-invite`);
+      showAlert('Invitation Sent', `A new invitation has been sent to ${employee.email}.`);
+    } catch (err: any) {
+      console.error('Error resending invite:', err);
+      showAlert('Error', err.message || 'Failed to resend invitation');
+    }
+  };
+
+  const revokeSessionsForEmployee = async (employee: Profile) => {
+    showConfirm(
+      'Sign Out Everywhere',
+      `Sign ${employee.full_name} out of every device? They will need to log in again.`,
+      async () => {
+        try {
+          await api.post(`/api/users/${employee.id}/revoke-sessions`);
+          showAlert('Success', `${employee.full_name} has been signed out of all devices.`);
+        } catch (err) {
+          console.error('Error revoking sessions:', err);
+          showAlert('Error', 'Failed to revoke sessions');
+        }
+      }
+    );
+  };
+
+  const deactivateEmployee = async (employee: Profile) => {
+    showConfirm(
+      'Deactivate User',
+      `Deactivate ${employee.full_name}? They will be signed out and unable to log in. Their attendance history is kept.`,
+      async () => {
+        try {
+          await api.delete(`/api/users/${employee.id}`);
+          showAlert('Success', `${employee.full_name} has been deactivated.`);
+          fetchEmployees();
+        } catch (err: any) {
+          console.error('Error deactivating user:', err);
+          showAlert('Error', err.message || 'Failed to deactivate user');
+        }
+      },
+      'Deactivate'
+    );
+  };
+
+  const restoreEmployee = async (employee: Profile) => {
+    try {
+      await api.post(`/api/users/${employee.id}/restore`);
+      showAlert('Success', `${employee.full_name} can sign in again.`);
+      fetchEmployees();
+    } catch (err: any) {
+      console.error('Error restoring user:', err);
+      showAlert('Error', err.message || 'Failed to restore user');
+    }
+  };
+
   const toggleLocationSelection = (locationId: string) => {
     setSelectedLocationIds((prev) =>
       prev.includes(locationId)
@@ -190,6 +387,8 @@ export default function AdminScreen() {
 
   const resetCreateUserForm = () => {
     setNewUserForm({ full_name: '', email: '', password: '' });
+    setSendInvite(true);
+    setNewUserRole('employee');
     setSelectedLocationIds([]);
   };
 
@@ -204,7 +403,7 @@ export default function AdminScreen() {
       showAlert('Error', 'Please enter the user\'s email');
       return;
     }
-    if (!password || password.length < 6) {
+    if (!sendInvite && (!password || password.length < 6)) {
       showAlert('Error', 'Password must be at least 6 characters');
       return;
     }
@@ -218,10 +417,17 @@ export default function AdminScreen() {
       await api.post('/api/users', {
         full_name: full_name.trim(),
         email: email.trim().toLowerCase(),
-        password,
+        password: sendInvite ? undefined : password,
+        send_invite: sendInvite,
+        role: newUserRole,
         location_ids: selectedLocationIds,
       });
-      showAlert('Success', `User "${full_name}" has been created successfully`);
+      showAlert(
+        'Success',
+        sendInvite
+          ? `An invitation has been sent to ${email.trim().toLowerCase()}`
+          : `User "${full_name}" has been created successfully`
+      );
       setShowCreateUser(false);
       resetCreateUserForm();
       fetchEmployees();
@@ -257,6 +463,35 @@ export default function AdminScreen() {
               <Text style={styles.resetRequestText}>Reset Requested</Text>
             </View>
           )}
+          {isLocked(item) && (
+            <View style={styles.lockedBadge}>
+              <Text style={styles.lockedText}>
+                Locked until {new Date(item.locked_until!).toLocaleTimeString()}
+              </Text>
+            </View>
+          )}
+          {item.deactivated_at && (
+            <View style={styles.deactivatedBadge}>
+              <Text style={styles.deactivatedText}>
+                Deactivated {new Date(item.deactivated_at).toLocaleDateString()}
+              </Text>
+            </View>
+          )}
+          {item.invite_pending && (
+            <View style={styles.invitePendingBadge}>
+              <Text style={styles.invitePendingText}>Invite Pending</Text>
+            </View>
+          )}
+          {!!exceptionCounts[item.id] && (
+            <View style={styles.exceptionBadge}>
+              <Text style={styles.exceptionText}>
+                {exceptionCounts[item.id]} exception{exceptionCounts[item.id] === 1 ? '' : 's'}
+              </Text>
+            </View>
+          )}
+          {item.teams && item.teams.length > 0 && (
+            <Text style={styles.employeeTeams}>{item.teams.map((team) => team.name).join(', ')}</Text>
+          )}
         </View>
         <View style={[styles.roleBadge, item.role === 'admin' && styles.adminBadge]}>
           <Text style={[styles.roleText, item.role === 'admin' && styles.adminRoleText]}>
@@ -264,7 +499,7 @@ export default function AdminScreen() {
           </Text>
         </View>
       </TouchableOpacity>
-      {item.role !== 'admin' && item.device_id && (
+      {item.role !== 'admin' && item.device_id && (isAdmin || item.id !== user?.id) && (
         <TouchableOpacity
           style={styles.resetDeviceButton}
           onPress={() => resetDeviceForEmployee(item)}
@@ -272,23 +507,130 @@ export default function AdminScreen() {
           <Text style={styles.resetDeviceText}>Reset Device</Text>
         </TouchableOpacity>
       )}
+      {isAdmin && isLocked(item) && (
+        <TouchableOpacity
+          style={styles.unlockButton}
+          onPress={() => unlockEmployee(item)}
+        >
+          <Text style={styles.unlockText}>Unlock</Text>
+        </TouchableOpacity>
+      )}
+      {isAdmin && item.invite_pending && (
+        <TouchableOpacity
+          style={styles.resendInviteButton}
+          onPress={() => resendInvite(item)}
+        >
+          <Text style={styles.resendInviteText}>Resend Invite</Text>
+        </TouchableOpacity>
+      )}
+      {isAdmin && item.role !== 'admin' && (
+        <TouchableOpacity
+          style={styles.revokeSessionsButton}
+          onPress={() => changeRole(item, item.role === 'manager' ? 'employee' : 'manager')}
+        >
+          <Text style={styles.changeRoleText}>
+            {item.role === 'manager' ? 'Make Employee' : 'Make Manager'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {isAdmin && item.role !== 'admin' && (
+        <TouchableOpacity
+          style={styles.revokeSessionsButton}
+          onPress={() => revokeSessionsForEmployee(item)}
+        >
+          <Text style={styles.revokeSessionsText}>Sign Out Everywhere</Text>
+        </TouchableOpacity>
+      )}
+      {isAdmin && item.id !== user?.id && (
+        <TouchableOpacity
+          style={styles.revokeSessionsButton}
+          onPress={() => (item.deactivated_at ? restoreEmployee(item) : deactivateEmployee(item))}
+        >
+          <Text style={item.deactivated_at ? styles.changeRoleText : styles.revokeSessionsText}>
+            {item.deactivated_at ? 'Restore User' : 'Deactivate User'}
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
+  const renderRoster = () => {
+    if (!roster || (roster.shifts.length === 0 && roster.unscheduled.length === 0)) {
+      return null;
+    }
+
+    const countOf = (status: ShiftStatus) => roster.shifts.filter((shift) => shift.status === status).length;
+    const present = roster.shifts.filter((shift) => shift.actual_start !== null).length;
+    const statusStyles: Record<ShiftStatus, object> = {
+      upcoming: styles.rosterUpcoming,
+      on_time: styles.rosterOnTime,
+      late: styles.rosterLate,
+      early_leave: styles.rosterLate,
+      absent: styles.rosterAbsent,
+      on_leave: styles.rosterUpcoming,
+      holiday: styles.rosterUpcoming,
+    };
+
+    return (
+      <View style={styles.rosterCard}>
+        <Text style={styles.rosterTitle}>Today's Roster</Text>
+        <Text style={styles.rosterSummary}>
+          {present}/{roster.shifts.length} present · {countOf('late')} late · {countOf('absent')} absent
+          {countOf('on_leave') > 0 ? ` · ${countOf('on_leave')} on leave` : ''}
+          {roster.unscheduled.length > 0 ? ` · ${roster.unscheduled.length} unscheduled` : ''}
+        </Text>
+        {roster.shifts.map((shift) => (
+          <View key={`${shift.schedule_id}-${shift.date}`} style={styles.rosterRow}>
+            <View style={styles.rosterMain}>
+              <Text style={styles.rosterName}>{shift.user?.full_name || 'Unknown'}</Text>
+              <Text style={styles.rosterDetail}>
+                {formatTime(shift.start)} – {formatTime(shift.end)}
+                {shift.location ? ` · ${shift.location.name}` : ''}
+                {shift.actual_start ? ` · in ${formatTime(shift.actual_start)}` : ''}
+              </Text>
+            </View>
+            <Text style={[styles.rosterStatus, statusStyles[shift.status]]}>
+              {ROSTER_STATUS_LABELS[shift.status]}
+            </Text>
+          </View>
+        ))}
+        {roster.unscheduled.map((session) => (
+          <View key={session.id} style={styles.rosterRow}>
+            <View style={styles.rosterMain}>
+              <Text style={styles.rosterName}>{session.user?.full_name || 'Unknown'}</Text>
+              <Text style={styles.rosterDetail}>
+                in {formatTime(session.started_at)}
+                {session.location ? ` · ${session.location.name}` : ''}
+              </Text>
+            </View>
+            <Text style={[styles.rosterStatus, styles.rosterUnscheduled]}>Unscheduled</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderAttendanceRecord = ({ item }: { item: AttendanceWithLocation }) => (
     <View style={styles.attendanceRow}>
       <View style={styles.attendanceMain}>
         <Text style={styles.attendanceDate}>{formatDateTime(item.timestamp)}</Text>
         <Text style={styles.attendanceLocation}>{item.location_name}</Text>
+        {item.suspicious && (
+          <View style={styles.suspiciousBadge}>
+            <Text style={styles.suspiciousText}>
+              Suspicious: {(item.suspicion_reasons || []).map((reason) => SUSPICION_LABELS[reason] || reason).join(', ')}
+            </Text>
+          </View>
+        )}
       </View>
       <View
         style={[
           styles.statusBadge,
-          item.status === 'check_in' ? styles.checkInBadge : styles.checkOutBadge,
+          item.status === 'check_in' || item.status === 'break_end' ? styles.checkInBadge : styles.checkOutBadge,
         ]}
       >
         <Text style={styles.statusText}>
-          {item.status === 'check_in' ? 'IN' : 'OUT'}
+          {PUNCH_BADGE_LABELS[item.status]}
         </Text>
       </View>
     </View>
@@ -307,18 +649,186 @@ export default function AdminScreen() {
       <View style={styles.header}>
         <View style={styles.headerTop}>
           <View>
-            <Text style={styles.title}>Admin Panel</Text>
-            <Text style={styles.subtitle}>{employees.length} employees</Text>
+            <Text style={styles.title}>{isAdmin ? 'Admin Panel' : 'My Team'}</Text>
+            <Text style={styles.subtitle}>
+              {user?.organization ? `${user.organization.name} · ` : ''}{employees.length} employees
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            {user?.super_admin && (
+              <TouchableOpacity
+                style={styles.securityButton}
+                onPress={() => setShowOrganizations(true)}
+              >
+                <Text style={styles.securityButtonText}>Organizations</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.securityButton}
+              onPress={() => setShowTeams(true)}
+            >
+              <Text style={styles.securityButtonText}>Teams</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.securityButton}
+              onPress={() => setShowCorrections(true)}
+            >
+              <Text style={styles.securityButtonText}>Corrections</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.securityButton}
+              onPress={() => setShowLeave(true)}
+            >
+              <Text style={styles.securityButtonText}>Leave</Text>
+            </TouchableOpacity>
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.securityButton}
+                onPress={() => setShowActivity(true)}
+              >
+                <Text style={styles.securityButtonText}>Activity</Text>
+              </TouchableOpacity>
+            )}
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.securityButton}
+                onPress={() => setShowSecurity(true)}
+              >
+                <Text style={styles.securityButtonText}>Security</Text>
+              </TouchableOpacity>
+            )}
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.createUserButton}
+                onPress={() => setShowCreateUser(true)}
+              >
+                <Text style={styles.createUserButtonText}>+ Create User</Text>
+              </TouchableOpacity>
+            )}
           </View>
-          <TouchableOpacity
-            style={styles.createUserButton}
-            onPress={() => setShowCreateUser(true)}
-          >
-            <Text style={styles.createUserButtonText}>+ Create User</Text>
-          </TouchableOpacity>
         </View>
+
+        {/* Team filter for the employee list; admins can also list deactivated users */}
+        {(teams.length > 0 || isAdmin) && (
+          <View style={styles.teamFilters}>
+            {teams.length > 0 && (
+              <TouchableOpacity
+                style={[
+                  styles.locationFilterBtn,
+                  !selectedTeamFilter && styles.locationFilterBtnActive,
+                ]}
+                onPress={() => setSelectedTeamFilter(null)}
+              >
+                <Text
+                  style={[
+                    styles.locationFilterText,
+                    !selectedTeamFilter && styles.locationFilterTextActive,
+                  ]}
+                >
+                  All Teams
+                </Text>
+              </TouchableOpacity>
+            )}
+            {teams.map((team) => (
+              <TouchableOpacity
+                key={team.id}
+                style={[
+                  styles.locationFilterBtn,
+                  selectedTeamFilter === team.id && styles.locationFilterBtnActive,
+                ]}
+                onPress={() => setSelectedTeamFilter(team.id)}
+              >
+                <Text
+                  style={[
+                    styles.locationFilterText,
+                    selectedTeamFilter === team.id && styles.locationFilterTextActive,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {team.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {isAdmin && (
+              <TouchableOpacity
+                style={[styles.locationFilterBtn, showDeactivated && styles.locationFilterBtnActive]}
+                onPress={() => setShowDeactivated(!showDeactivated)}
+              >
+                <Text style={[styles.locationFilterText, showDeactivated && styles.locationFilterTextActive]}>
+                  Show Deactivated
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
+      {/* Client organizations (super admins only) */}
+      <Modal
+        animationType="slide"
+        visible={showOrganizations}
+        onRequestClose={() => setShowOrganizations(false)}
+      >
+        <OrganizationsScreen onClose={() => setShowOrganizations(false)} />
+      </Modal>
+
+      {/* Teams, departments and the per-department report */}
+      <Modal
+        animationType="slide"
+        visible={showTeams}
+        onRequestClose={() => setShowTeams(false)}
+      >
+        <TeamsScreen
+          onClose={() => setShowTeams(false)}
+          onTeamsChanged={() => {
+            fetchTeamsData();
+            fetchEmployees();
+          }}
+        />
+      </Modal>
+
+      {/* Correction requests awaiting review (admins, and managers for their employees) */}
+      <Modal
+        animationType="slide"
+        visible={showCorrections}
+        onRequestClose={() => setShowCorrections(false)}
+      >
+        <CorrectionsScreen
+          onClose={() => setShowCorrections(false)}
+          onReviewed={() => {
+            fetchEmployees();
+            fetchRoster();
+          }}
+        />
+      </Modal>
+
+      {/* Leave requests awaiting review, and leave types for admins */}
+      <Modal
+        animationType="slide"
+        visible={showLeave}
+        onRequestClose={() => setShowLeave(false)}
+      >
+        <LeaveRequestsScreen onClose={() => setShowLeave(false)} onReviewed={fetchRoster} />
+      </Modal>
+
+      {/* Audit log of administrative actions (admins only) */}
+      <Modal
+        animationType="slide"
+        visible={showActivity}
+        onRequestClose={() => setShowActivity(false)}
+      >
+        <ActivityScreen onClose={() => setShowActivity(false)} />
+      </Modal>
+
+      {/* Two-factor settings for the signed-in admin */}
+      <Modal
+        animationType="slide"
+        visible={showSecurity}
+        onRequestClose={() => setShowSecurity(false)}
+      >
+        <TwoFactorSetupScreen onClose={() => setShowSecurity(false)} />
+      </Modal>
+
       <FlatList
         data={employees}
         renderItem={renderEmployee}
@@ -327,6 +837,7 @@ export default function AdminScreen() {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
+        ListHeaderComponent={renderRoster()}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>No employees found</Text>
@@ -438,6 +949,10 @@ export default function AdminScreen() {
               </TouchableOpacity>
             </View>
 
+            <Text style={styles.sessionTotalsText}>
+              Worked {formatDuration(sessionTotals.minutes)} across {sessionTotals.sessions} session(s)
+            </Text>
+
             {/* Attendance List */}
             {attendanceLoading ? (
               <View style={styles.attendanceLoading}>
@@ -512,16 +1027,55 @@ export default function AdminScreen() {
                 autoCorrect={false}
               />
 
+              <Text style={styles.formLabel}>Role</Text>
+              <View style={styles.passwordModeToggle}>
+                {(['employee', 'manager'] as UserRole[]).map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[styles.passwordModeOption, newUserRole === role && styles.passwordModeOptionActive]}
+                    onPress={() => setNewUserRole(role)}
+                  >
+                    <Text style={[styles.passwordModeText, newUserRole === role && styles.passwordModeTextActive]}>
+                      {role === 'employee' ? 'Employee' : 'Manager'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
               <Text style={styles.formLabel}>Password</Text>
-              <TextInput
-                style={styles.formInput}
-                placeholder="Enter password (min 6 characters)"
-                value={newUserForm.password}
-                onChangeText={(text) =>
-                  setNewUserForm((prev) => ({ ...prev, password: text }))
-                }
-                secureTextEntry
-              />
+              <View style={styles.passwordModeToggle}>
+                <TouchableOpacity
+                  style={[styles.passwordModeOption, sendInvite && styles.passwordModeOptionActive]}
+                  onPress={() => setSendInvite(true)}
+                >
+                  <Text style={[styles.passwordModeText, sendInvite && styles.passwordModeTextActive]}>
+                    Send Invite
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.passwordModeOption, !sendInvite && styles.passwordModeOptionActive]}
+                  onPress={() => setSendInvite(false)}
+                >
+                  <Text style={[styles.passwordModeText, !sendInvite && styles.passwordModeTextActive]}>
+                    Set Password
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {sendInvite ? (
+                <Text style={styles.formHint}>
+                  The user will receive an email with a link to choose their own password
+                </Text>
+              ) : (
+                <TextInput
+                  style={styles.formInput}
+                  placeholder="Enter password (min 6 characters)"
+                  value={newUserForm.password}
+                  onChangeText={(text) =>
+                    setNewUserForm((prev) => ({ ...prev, password: text }))
+                  }
+                  secureTextEntry
+                />
+              )}
 
               <Text style={styles.formLabel}>Assign Locations</Text>
               <Text style={styles.formHint}>
@@ -610,6 +1164,67 @@ const styles = StyleSheet.create({
   listContainer: {
     padding: 16,
   },
+  rosterCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  rosterTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rosterSummary: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  rosterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  rosterMain: {
+    flex: 1,
+  },
+  rosterName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rosterDetail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  rosterStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  rosterOnTime: {
+    color: '#4CAF50',
+  },
+  rosterLate: {
+    color: '#FF9800',
+  },
+  rosterAbsent: {
+    color: '#f44336',
+  },
+  rosterUpcoming: {
+    color: '#999',
+  },
+  rosterUnscheduled: {
+    color: '#007AFF',
+  },
   employeeCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -679,6 +1294,102 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  lockedBadge: {
+    backgroundColor: '#ffebee',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 6,
+    alignSelf: 'flex-start',
+  },
+  lockedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#c62828',
+  },
+  unlockButton: {
+    backgroundColor: '#ffebee',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    alignItems: 'center',
+  },
+  unlockText: {
+    color: '#c62828',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deactivatedBadge: {
+    backgroundColor: '#eeeeee',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 6,
+    alignSelf: 'flex-start',
+  },
+  deactivatedText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#757575',
+  },
+  invitePendingBadge: {
+    backgroundColor: '#e3f2fd',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 6,
+    alignSelf: 'flex-start',
+  },
+  invitePendingText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#1565c0',
+  },
+  exceptionBadge: {
+    backgroundColor: '#ffebee',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 6,
+    alignSelf: 'flex-start',
+  },
+  exceptionText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#c62828',
+  },
+  resendInviteButton: {
+    backgroundColor: '#e3f2fd',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    alignItems: 'center',
+  },
+  resendInviteText: {
+    color: '#1565c0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  revokeSessionsButton: {
+    backgroundColor: '#fafafa',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    alignItems: 'center',
+  },
+  changeRoleText: {
+    color: '#007AFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  revokeSessionsText: {
+    color: '#c62828',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   employeeName: {
     fontSize: 16,
     fontWeight: '600',
@@ -834,6 +1545,15 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  sessionTotalsText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
   attendanceLoading: {
     padding: 40,
     alignItems: 'center',
@@ -860,6 +1580,19 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  suspiciousBadge: {
+    backgroundColor: '#fff3e0',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  suspiciousText: {
+    fontSize: 11,
+    color: '#e65100',
+    fontWeight: '600',
+  },
   statusBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -890,6 +1623,32 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  teamFilters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  employeeTeams: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  securityButton: {
+    backgroundColor: '#e3f2fd',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  securityButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   createUserButton: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 16,
@@ -925,6 +1684,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#fafafa',
   },
+  passwordModeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  passwordModeOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  passwordModeOptionActive: {
+    backgroundColor: '#fff',
+  },
+  passwordModeText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  passwordModeTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   locationCheckboxes: {
     gap: 8,
   },
@@ -8,6 +8,7 @@ import {
   Alert,
   ScrollView,
   Platform,
+  TextInput,
 } from 'react-native';
 import * as Location from 'expo-location';
 import { useFocusEffect } from '@react-navigation/native';
@@ -26,26 +27,6 @@ const showAlert = (title: string, message: string) => {
   }
 };
 
-// Get unique device identifier (same logic as AuthContext)
-async function getDeviceId(): Promise<string> {
-  try {
-    if (Platform.OS === 'web') {
-      if (typeof window !== 'undefined' && window.localStorage) {
-        let webDeviceId = window.localStorage.getItem('geo_attendance_device_id');
-        if (!webDeviceId) {
-          webDeviceId = `web_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-          window.localStorage.setItem('geo_attendance_device_id', webDeviceId);
-        }
-        return webDeviceId;
-      }
-      return `web_${Date.now()}`;
-    }
-    return `native_${Date.now()}`;
-  } catch {
-    return `fallback_${Date.now()}`;
-  }
-}
-
 // Parse user agent to get readable device info
 function getDeviceInfo(): { device: string; browser: string; os: string } {
   if (Platform.OS !== 'web' || typeof navigator === 'undefined') {
@@ -113,11 +94,54 @@ function getDeviceInfo(): { device: string; browser: string; os: string } {
   return { device, browser, os };
 }
 
-import { calculateDistance, formatDistance } from '../utils/geofencing';
-import { recordAttendance, getLastAttendanceStatus, getTodayAttendance } from '../services/attendanceService';
+import { calculateDistance, formatDistance, isInsideLocation, getDistanceOutsideLocation } from '../utils/geofencing';
+import {
+  recordAttendance,
+  getOpenSession,
+  getTodayAttendance,
+  getPendingAutoCheckOuts,
+  confirmAutoCheckOut,
+} from '../services/attendanceService';
+import { ApiError } from '../config/api';
 import { getLocations } from '../services/locationsService';
+import { getNextShift } from '../services/schedulesService';
+import { getQueuedPunches, enqueuePunch, syncQueuedPunches, dismissQueuedPunch } from '../services/offlineQueue';
+import { generateUuid } from '../utils/uuid';
+import { getDeviceId } from '../utils/device';
 import { useAuth } from '../context/AuthContext';
-import { Coordinates, AttendanceStatus, Location as LocationType, NearbyLocation, AttendanceRecord } from '../types';
+import { Coordinates, AttendanceStatus, Location as LocationType, NearbyLocation, AttendanceRecord, OpenSession, QueuedPunch, PositionSignals, Shift, AutoCheckOut } from '../types';
+
+const SHIFT_STATUS_LABELS: Record<Shift['status'], string> = {
+  upcoming: 'Upcoming',
+  on_time: 'On time',
+  late: 'Late',
+  early_leave: 'Left early',
+  absent: 'Missed',
+  on_leave: 'On leave',
+  holiday: 'Holiday',
+};
+
+const PUNCH_LABELS: Record<AttendanceStatus, { short: string; pending: string; done: string }> = {
+  check_in: { short: 'In', pending: 'Check-in', done: 'Checked in' },
+  check_out: { short: 'Out', pending: 'Check-out', done: 'Checked out' },
+  break_start: { short: 'Break', pending: 'Break start', done: 'Break started' },
+  break_end: { short: 'Back', pending: 'Break end', done: 'Break ended' },
+};
+
+function formatShiftTime(value: string): string {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// "HH:MM" on the same local day as `reference`, or null when malformed
+function parseTimeOfDay(value: string, reference: string): Date | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return null;
+  }
+  const date = new Date(reference);
+  date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  return date;
+}
 
 interface AttendanceHistoryItem extends AttendanceRecord {
   locationName?: string;
@@ -128,9 +152,16 @@ export default function AttendanceScreen() {
   const userId = user?.id || '';
 
   const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [positionSignals, setPositionSignals] = useState<PositionSignals | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastStatus, setLastStatus] = useState<AttendanceStatus | null>(null);
+  const [openSession, setOpenSession] = useState<OpenSession | null>(null);
+  const [nextShift, setNextShift] = useState<Shift | null>(null);
+  const [autoCheckOuts, setAutoCheckOuts] = useState<AutoCheckOut[]>([]);
+  const [correction, setCorrection] = useState<{ id: string; time: string } | null>(null);
+  const [queuedPunches, setQueuedPunches] = useState<QueuedPunch[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [allLocations, setAllLocations] = useState<LocationType[]>([]);
   const [nearbyLocations, setNearbyLocations] = useState<NearbyLocation[]>([]);
@@ -153,11 +184,7 @@ export default function AttendanceScreen() {
 
   const findLocationName = (lat: number, lng: number, locations: LocationType[]): string => {
     for (const loc of locations) {
-      const distance = calculateDistance(
-        { latitude: lat, longitude: lng },
-        { latitude: loc.latitude, longitude: loc.longitude }
-      );
-      if (distance <= loc.radius_meters) {
+      if (isInsideLocation({ latitude: lat, longitude: lng }, loc)) {
         return loc.name;
       }
     }
@@ -175,15 +202,78 @@ export default function AttendanceScreen() {
     setAttendanceHistory(historyWithLocations.reverse()); // Most recent first
   }, [userId]);
 
+  const fetchLastStatus = useCallback(async () => {
+    const { session, error } = await getOpenSession();
+    if (error) {
+      console.error('Error fetching open session:', error);
+      return;
+    }
+    setOpenSession(session);
+    setLastStatus(session ? (session.break_started_at ? 'break_start' : 'check_in') : null);
+
+    // A punch can change the current shift's classification
+    const { shift } = await getNextShift();
+    setNextShift(shift);
+
+    const { autoCheckOuts: pending } = await getPendingAutoCheckOuts();
+    setAutoCheckOuts(pending);
+  }, []);
+
+  const handleConfirmAutoCheckOut = async (item: AutoCheckOut, correctedTime?: string) => {
+    let timestamp: Date | undefined;
+    if (correctedTime !== undefined) {
+      const parsed = parseTimeOfDay(correctedTime, item.timestamp);
+      if (!parsed) {
+        showAlert('Invalid Time', 'Enter the time you left as HH:MM, e.g. 17:30');
+        return;
+      }
+      timestamp = parsed;
+    }
+
+    const { error } = await confirmAutoCheckOut(item.id, timestamp);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setCorrection(null);
+    setAutoCheckOuts((prev) => prev.filter((pending) => pending.id !== item.id));
+    if (timestamp) {
+      fetchAttendanceHistory(allLocations);
+    }
+  };
+
+  const syncOfflinePunches = useCallback(async (locations: LocationType[]) => {
+    const queue = await getQueuedPunches();
+    setQueuedPunches(queue);
+    if (!queue.some((punch) => punch.sync_state === 'pending')) {
+      return queue;
+    }
+
+    setIsSyncing(true);
+    try {
+      const { queue: updated, error } = await syncQueuedPunches();
+      setQueuedPunches(updated);
+      if (!error) {
+        await fetchLastStatus();
+        await fetchAttendanceHistory(locations);
+      }
+      return updated;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [fetchLastStatus, fetchAttendanceHistory]);
+
   // Refresh locations and history when screen comes into focus
   useFocusEffect(
     useCallback(() => {
       const loadData = async () => {
         const locations = await fetchLocations();
         fetchAttendanceHistory(locations);
+        syncOfflinePunches(locations);
       };
       loadData();
-    }, [fetchLocations, fetchAttendanceHistory])
+    }, [fetchLocations, fetchAttendanceHistory, syncOfflinePunches])
   );
 
   const calculateNearbyLocations = useCallback(
@@ -193,15 +283,17 @@ export default function AttendanceScreen() {
           latitude: loc.latitude,
           longitude: loc.longitude,
         });
+        const distanceOutside = getDistanceOutsideLocation(userCoords, loc);
         return {
           ...loc,
           distance,
-          isInside: distance <= loc.radius_meters,
+          distanceOutside,
+          isInside: isInsideLocation(userCoords, loc),
         };
       });
 
-      // Sort by distance
-      nearby.sort((a, b) => a.distance - b.distance);
+      // Sort by distance to the fence edge, then to the center
+      nearby.sort((a, b) => a.distanceOutside - b.distanceOutside || a.distance - b.distance);
       setNearbyLocations(nearby);
 
       // Auto-select the closest location user is inside
@@ -233,6 +325,13 @@ export default function AttendanceScreen() {
       };
 
       setCoordinates(coords);
+      // The server uses these to reject imprecise fixes and flag spoofed ones
+      setPositionSignals({
+        accuracy: location.coords.accuracy,
+        altitude: location.coords.altitude,
+        speed: location.coords.speed,
+        is_mocked: location.mocked === true,
+      });
       calculateNearbyLocations(coords);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to get location');
@@ -241,13 +340,6 @@ export default function AttendanceScreen() {
     }
   }, [calculateNearbyLocations]);
 
-  const fetchLastStatus = useCallback(async () => {
-    console.log('Fetching last status for userId:', userId);
-    const { status, error } = await getLastAttendanceStatus(userId);
-    console.log('Last status result:', { status, error });
-    setLastStatus(status);
-  }, [userId]);
-
   useEffect(() => {
     const loadInitialData = async () => {
       const locations = await fetchLocations();
@@ -321,7 +413,14 @@ export default function AttendanceScreen() {
     }
   };
 
-  const handleCheckInOut = async () => {
+  // Anything after a check-in other than a check-out means the session is still open
+  const isCheckedIn = !!lastStatus && lastStatus !== 'check_out';
+
+  const handleCheckInOut = () => submitPunch(isCheckedIn ? 'check_out' : 'check_in');
+
+  const handleBreak = () => submitPunch(lastStatus === 'break_start' ? 'break_end' : 'break_start');
+
+  const submitPunch = async (newStatus: AttendanceStatus) => {
     if (!coordinates || !selectedLocation) {
       showAlert('Error', 'You must be inside a location to check in/out');
       return;
@@ -333,33 +432,65 @@ export default function AttendanceScreen() {
       return;
     }
 
-    const newStatus: AttendanceStatus =
-      lastStatus === 'check_in' ? 'check_out' : 'check_in';
-
     setIsSubmitting(true);
 
+    const punch = {
+      client_id: generateUuid(),
+      status: newStatus,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      location_id: selectedLocation.id!,
+      location_name: selectedLocation.name,
+      timestamp: new Date().toISOString(),
+      ...positionSignals,
+    };
+
+    const queueOffline = async () => {
+      setQueuedPunches(await enqueuePunch(punch));
+      setLastStatus(newStatus);
+      showAlert(
+        'Saved Offline',
+        `${PUNCH_LABELS[newStatus].pending} at ${selectedLocation.name} will sync when you are back online.`
+      );
+    };
+
     try {
-      console.log('Recording attendance:', { userId, newStatus, coordinates, locationId: selectedLocation.id });
+      // Older punches must reach the server first, otherwise they'd be rejected as out of order
+      const queue = await syncOfflinePunches(allLocations);
+      if (queue.some((queued) => queued.sync_state === 'pending')) {
+        await queueOffline();
+        return;
+      }
 
       const { data, error: err } = await recordAttendance(
         userId,
         newStatus,
         coordinates,
-        selectedLocation.id
+        selectedLocation.id,
+        punch.client_id,
+        positionSignals || undefined
       );
 
-      console.log('Record result:', { data, error: err });
+      // No response from the server at all: keep the punch for later
+      if (err && !(err instanceof ApiError)) {
+        await queueOffline();
+        return;
+      }
 
       if (err) {
+        // The server's session state wins over ours; resync so the button is correct
+        if (err instanceof ApiError && err.status === 409) {
+          await fetchLastStatus();
+        }
         showAlert('Error', err.message);
         return;
       }
 
-      setLastStatus(newStatus);
+      await fetchLastStatus();
       await fetchAttendanceHistory(allLocations); // Refresh history
       showAlert(
         'Success',
-        `${newStatus === 'check_in' ? 'Checked in' : 'Checked out'} at ${selectedLocation.name}!`
+        `${PUNCH_LABELS[newStatus].done} at ${selectedLocation.name}!`
       );
     } catch (err) {
       showAlert('Error', 'Failed to record attendance');
@@ -370,7 +501,7 @@ export default function AttendanceScreen() {
 
   const getButtonText = (): string => {
     if (!selectedLocation) return 'Not Inside Any Location';
-    if (lastStatus === 'check_in') return 'Check Out';
+    if (isCheckedIn) return 'Check Out';
     return 'Check In';
   };
 
@@ -398,6 +529,7 @@ export default function AttendanceScreen() {
           <>
             <Text style={styles.coordsText}>
               {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
+              {positionSignals?.accuracy != null && ` (±${Math.round(positionSignals.accuracy)}m)`}
             </Text>
           </>
         ) : null}
@@ -453,7 +585,7 @@ export default function AttendanceScreen() {
                   <View style={styles.locationInfo}>
                     <Text style={styles.locationNameOutside}>{loc.name}</Text>
                     <Text style={styles.locationDistance}>
-                      {formatDistance(loc.distance - loc.radius_meters)} away
+                      {formatDistance(loc.distanceOutside)} away
                     </Text>
                   </View>
                   <View style={styles.outsideBadge}>
@@ -472,6 +604,27 @@ export default function AttendanceScreen() {
         </View>
       )}
 
+      {/* Next Shift Card */}
+      {nextShift && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Your Next Shift</Text>
+          <Text style={styles.shiftTime}>
+            {new Date(nextShift.start).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+            {', '}
+            {formatShiftTime(nextShift.start)} – {formatShiftTime(nextShift.end)}
+          </Text>
+          {nextShift.location && (
+            <Text style={styles.selectedLocationText}>at {nextShift.location.name}</Text>
+          )}
+          {nextShift.status !== 'upcoming' && (
+            <Text style={[styles.shiftStatus, nextShift.status === 'on_time' ? styles.shiftOnTime : styles.shiftLate]}>
+              {SHIFT_STATUS_LABELS[nextShift.status]}
+              {nextShift.late_minutes > 0 ? ` (${nextShift.late_minutes} min late)` : ''}
+            </Text>
+          )}
+        </View>
+      )}
+
       {/* Check In/Out Card */}
       <View style={styles.card}>
         <Text style={styles.cardTitle}>Attendance</Text>
@@ -479,14 +632,26 @@ export default function AttendanceScreen() {
         <Text style={styles.currentStatus}>
           Status:{' '}
           <Text style={styles.statusBold}>
-            {lastStatus === 'check_in'
-              ? 'Checked In'
-              : lastStatus === 'check_out'
-                ? 'Checked Out'
-                : 'Not checked in'}
+            {lastStatus === 'break_start'
+              ? 'On Break'
+              : isCheckedIn
+                ? 'Checked In'
+                : lastStatus === 'check_out'
+                  ? 'Checked Out'
+                  : 'Not checked in'}
           </Text>
         </Text>
 
+        {openSession && (
+          <Text style={styles.selectedLocationText}>
+            Since {new Date(openSession.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {openSession.location ? ` at ${openSession.location.name}` : ''}
+            {openSession.break_started_at
+              ? ` · on break since ${new Date(openSession.break_started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+              : ''}
+          </Text>
+        )}
+
         {selectedLocation && (
           <Text style={styles.selectedLocationText}>
             Location: <Text style={styles.statusBold}>{selectedLocation.name}</Text>
@@ -508,6 +673,12 @@ export default function AttendanceScreen() {
           )}
         </TouchableOpacity>
 
+        {isCheckedIn && selectedLocation && (
+          <TouchableOpacity style={styles.breakButton} onPress={handleBreak} disabled={isSubmitting}>
+            <Text style={styles.breakButtonText}>{lastStatus === 'break_start' ? 'End Break' : 'Start Break'}</Text>
+          </TouchableOpacity>
+        )}
+
         {!selectedLocation && insideLocations.length === 0 && allLocations.length > 0 && (
           <Text style={styles.warningText}>
             Move inside a location to check in/out
@@ -521,6 +692,100 @@ export default function AttendanceScreen() {
         )}
       </View>
 
+      {/* Auto Check-Out Card */}
+      {autoCheckOuts.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Automatic Check-Outs</Text>
+
+          {autoCheckOuts.map((item) => (
+            <View key={item.id} style={styles.autoCheckOutRow}>
+              <Text style={styles.historyCellText}>
+                You were checked out automatically{item.location ? ` at ${item.location.name}` : ''} on{' '}
+                {new Date(item.timestamp).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                {', '}
+                {formatShiftTime(item.timestamp)}
+              </Text>
+
+              {correction?.id === item.id ? (
+                <View style={styles.autoCheckOutActions}>
+                  <TextInput
+                    style={styles.autoCheckOutInput}
+                    placeholder="HH:MM"
+                    value={correction.time}
+                    onChangeText={(time) => setCorrection({ id: item.id, time })}
+                  />
+                  <TouchableOpacity onPress={() => handleConfirmAutoCheckOut(item, correction.time)}>
+                    <Text style={styles.autoCheckOutLink}>Save</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setCorrection(null)}>
+                    <Text style={styles.queueDismissText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.autoCheckOutActions}>
+                  <TouchableOpacity onPress={() => handleConfirmAutoCheckOut(item)}>
+                    <Text style={styles.autoCheckOutLink}>Confirm</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setCorrection({ id: item.id, time: '' })}>
+                    <Text style={styles.autoCheckOutLink}>I left earlier</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Offline Punches Card */}
+      {queuedPunches.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Offline Punches</Text>
+
+          {queuedPunches.map((item) => (
+            <View key={item.client_id} style={styles.queueRow}>
+              <View style={styles.queueInfo}>
+                <Text style={styles.historyCellText}>
+                  {PUNCH_LABELS[item.status].short} · {item.location_name} ·{' '}
+                  {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+                {item.error && <Text style={styles.queueErrorText}>{item.error}</Text>}
+              </View>
+              <View
+                style={[
+                  styles.queueBadge,
+                  item.sync_state === 'pending' && styles.queueBadgePending,
+                  item.sync_state === 'synced' && styles.queueBadgeSynced,
+                  item.sync_state === 'rejected' && styles.queueBadgeRejected,
+                ]}
+              >
+                <Text style={styles.queueBadgeText}>{item.sync_state}</Text>
+              </View>
+              {item.sync_state !== 'pending' && (
+                <TouchableOpacity
+                  onPress={async () => setQueuedPunches(await dismissQueuedPunch(item.client_id))}
+                >
+                  <Text style={styles.queueDismissText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {queuedPunches.some((item) => item.sync_state === 'pending') && (
+            <TouchableOpacity
+              style={styles.refreshButton}
+              onPress={() => syncOfflinePunches(allLocations)}
+              disabled={isSyncing}
+            >
+              {isSyncing ? (
+                <ActivityIndicator color="#1976d2" />
+              ) : (
+                <Text style={styles.refreshButtonText}>Sync Now</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Device Info Card */}
       <View style={styles.card}>
         <Text style={styles.cardTitle}>Device Info</Text>
@@ -593,11 +858,11 @@ export default function AttendanceScreen() {
                   <View
                     style={[
                       styles.statusDot,
-                      item.status === 'check_in' ? styles.statusDotIn : styles.statusDotOut,
+                      item.status === 'check_in' || item.status === 'break_end' ? styles.statusDotIn : styles.statusDotOut,
                     ]}
                   />
                   <Text style={styles.historyCellText}>
-                    {item.status === 'check_in' ? 'In' : 'Out'}
+                    {PUNCH_LABELS[item.status].short}
                   </Text>
                 </View>
                 <Text style={[styles.historyCell, styles.historyLocation, styles.historyCellText]} numberOfLines={1}>
@@ -653,6 +918,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 16,
   },
+  shiftTime: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  shiftStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  shiftOnTime: {
+    color: '#4CAF50',
+  },
+  shiftLate: {
+    color: '#f44336',
+  },
   coordsText: {
     textAlign: 'center',
     fontSize: 14,
@@ -767,6 +1049,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  breakButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  breakButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   warningText: {
     marginTop: 12,
     textAlign: 'center',
@@ -845,6 +1140,71 @@ const styles = StyleSheet.create({
   statusDotOut: {
     backgroundColor: '#f44336',
   },
+  queueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  queueInfo: {
+    flex: 1,
+  },
+  queueErrorText: {
+    fontSize: 12,
+    color: '#c62828',
+    marginTop: 2,
+  },
+  queueBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  queueBadgePending: {
+    backgroundColor: '#ff9800',
+  },
+  queueBadgeSynced: {
+    backgroundColor: '#4CAF50',
+  },
+  queueBadgeRejected: {
+    backgroundColor: '#f44336',
+  },
+  queueBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  queueDismissText: {
+    color: '#999',
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  autoCheckOutRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  autoCheckOutActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  autoCheckOutInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    width: 80,
+    fontSize: 14,
+  },
+  autoCheckOutLink: {
+    color: '#1976d2',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   deviceInfoSection: {
     marginBottom: 16,
     paddingBottom: 12,
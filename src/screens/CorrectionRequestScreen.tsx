@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { AttendanceStatus, CorrectionRequest, CorrectionType, Location } from '../types';
+import { getCorrections, requestCorrection } from '../services/correctionsService';
+import { getLocations } from '../services/locationsService';
+import {
+  PUNCH_STATUS_NAMES,
+  describeCorrection,
+  parseLocalDateTime,
+  toLocalDateTimeInput,
+} from '../utils/corrections';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const PUNCH_STATUSES: AttendanceStatus[] = ['check_in', 'check_out', 'break_start', 'break_end'];
+
+const STATUS_COLORS: Record<CorrectionRequest['status'], string> = {
+  pending: '#ff9800',
+  approved: '#4CAF50',
+  rejected: '#f44336',
+};
+
+// The punch a correction is about; absent when reporting a missing punch
+export interface CorrectablePunch {
+  attendanceId: string;
+  status: AttendanceStatus;
+  timestamp: string;
+  locationName: string;
+}
+
+interface CorrectionRequestScreenProps {
+  punch: CorrectablePunch | null;
+  onClose: () => void;
+}
+
+export default function CorrectionRequestScreen({ punch, onClose }: CorrectionRequestScreenProps) {
+  const [type, setType] = useState<CorrectionType>(punch ? 'change_time' : 'add_punch');
+  const [punchStatus, setPunchStatus] = useState<AttendanceStatus>('check_in');
+  const [dateTime, setDateTime] = useState(() => toLocalDateTimeInput(punch ? new Date(punch.timestamp) : new Date()));
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCorrections = useCallback(async () => {
+    const { corrections: list } = await getCorrections();
+    setCorrections(list);
+  }, []);
+
+  useEffect(() => {
+    getLocations().then(({ locations: list }) => setLocations(list));
+    fetchCorrections();
+  }, [fetchCorrections]);
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      showAlert('Error', 'Please explain why the correction is needed');
+      return;
+    }
+
+    const timestamp = type === 'change_location' ? null : parseLocalDateTime(dateTime);
+    if (type !== 'change_location' && !timestamp) {
+      showAlert('Error', 'Enter the date and time as YYYY-MM-DD HH:MM');
+      return;
+    }
+    if (type !== 'change_time' && !locationId) {
+      showAlert('Error', 'Please choose a location');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await requestCorrection({
+      type,
+      attendance_id: punch?.attendanceId,
+      punch_status: type === 'add_punch' ? punchStatus : undefined,
+      timestamp: timestamp?.toISOString(),
+      location_id: type === 'change_time' ? undefined : locationId!,
+      reason: reason.trim(),
+    });
+    setSaving(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    showAlert('Request Sent', 'Your manager will review the correction.');
+    setReason('');
+    fetchCorrections();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{punch ? 'Correct Punch' : 'Report Missing Punch'}</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        {punch ? (
+          <>
+            <Text style={styles.detail}>
+              {PUNCH_STATUS_NAMES[punch.status]} at {punch.locationName}, {new Date(punch.timestamp).toLocaleString()}
+            </Text>
+            <View style={styles.chips}>
+              {(['change_time', 'change_location'] as CorrectionType[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, type === option && styles.chipActive]}
+                  onPress={() => setType(option)}
+                >
+                  <Text style={[styles.chipText, type === option && styles.chipTextActive]}>
+                    {option === 'change_time' ? 'Wrong time' : 'Wrong location'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        ) : (
+          <View style={styles.chips}>
+            {PUNCH_STATUSES.map((status) => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.chip, punchStatus === status && styles.chipActive]}
+                onPress={() => setPunchStatus(status)}
+              >
+                <Text style={[styles.chipText, punchStatus === status && styles.chipTextActive]}>
+                  {PUNCH_STATUS_NAMES[status]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {type !== 'change_location' && (
+          <>
+            <Text style={styles.label}>{type === 'add_punch' ? 'When' : 'Correct time'}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="YYYY-MM-DD HH:MM"
+              value={dateTime}
+              onChangeText={setDateTime}
+            />
+          </>
+        )}
+
+        {type !== 'change_time' && (
+          <>
+            <Text style={styles.label}>{type === 'add_punch' ? 'Location' : 'Correct location'}</Text>
+            <View style={styles.chips}>
+              {locations.map((location) => (
+                <TouchableOpacity
+                  key={location.id}
+                  style={[styles.chip, locationId === location.id && styles.chipActive]}
+                  onPress={() => setLocationId(location.id!)}
+                >
+                  <Text style={[styles.chipText, locationId === location.id && styles.chipTextActive]}>
+                    {location.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>Reason</Text>
+        <TextInput
+          style={[styles.input, styles.reasonInput]}
+          placeholder="e.g. Phone battery died before I could check out"
+          value={reason}
+          onChangeText={setReason}
+          multiline
+        />
+
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Send Request</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {corrections.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>My Requests</Text>
+          {corrections.map((correction) => (
+            <View key={correction.id} style={styles.listRow}>
+              <Text style={styles.listName}>{describeCorrection(correction)}</Text>
+              <Text style={[styles.statusText, { color: STATUS_COLORS[correction.status] }]}>
+                {correction.status}
+                {correction.review_note ? ` · ${correction.review_note}` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  reasonInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { CorrectionRequest, CorrectionStatus } from '../types';
+import { getCorrections, reviewCorrection } from '../services/correctionsService';
+import { describeCorrection, formatCorrectionTime } from '../utils/corrections';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const STATUS_FILTERS: { label: string; value: CorrectionStatus }[] = [
+  { label: 'Pending', value: 'pending' },
+  { label: 'Approved', value: 'approved' },
+  { label: 'Rejected', value: 'rejected' },
+];
+
+interface CorrectionsScreenProps {
+  onClose: () => void;
+  onReviewed?: () => void; // approvals change attendance, so the caller may want to refresh
+}
+
+export default function CorrectionsScreen({ onClose, onReviewed }: CorrectionsScreenProps) {
+  const [status, setStatus] = useState<CorrectionStatus>('pending');
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const fetchCorrections = useCallback(async () => {
+    setLoading(true);
+    const { corrections: list, error } = await getCorrections(status);
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setCorrections(list);
+  }, [status]);
+
+  useEffect(() => {
+    fetchCorrections();
+  }, [fetchCorrections]);
+
+  const handleReview = async (correction: CorrectionRequest, decision: 'approve' | 'reject') => {
+    setReviewingId(correction.id);
+    const { error } = await reviewCorrection(correction.id, decision, notes[correction.id]?.trim() || undefined);
+    setReviewingId(null);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setCorrections((prev) => prev.filter((item) => item.id !== correction.id));
+    onReviewed?.();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Correction Requests</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.chips}>
+        {STATUS_FILTERS.map((filter) => (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.chip, status === filter.value && styles.chipActive]}
+            onPress={() => setStatus(filter.value)}
+          >
+            <Text style={[styles.chipText, status === filter.value && styles.chipTextActive]}>{filter.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : corrections.length === 0 ? (
+        <Text style={styles.emptyText}>No {status} requests</Text>
+      ) : (
+        corrections.map((correction) => (
+          <View key={correction.id} style={styles.card}>
+            <Text style={styles.employeeName}>{correction.user?.full_name || 'Unknown employee'}</Text>
+            <Text style={styles.description}>{describeCorrection(correction)}</Text>
+            <Text style={styles.reason}>“{correction.reason}”</Text>
+            <Text style={styles.detail}>Requested {formatCorrectionTime(correction.created_at)}</Text>
+
+            {correction.status === 'pending' ? (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Note to the employee (optional)"
+                  value={notes[correction.id] || ''}
+                  onChangeText={(text) => setNotes({ ...notes, [correction.id]: text })}
+                />
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.rejectButton]}
+                    onPress={() => handleReview(correction, 'reject')}
+                    disabled={reviewingId === correction.id}
+                  >
+                    <Text style={styles.buttonText}>Reject</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.button}
+                    onPress={() => handleReview(correction, 'approve')}
+                    disabled={reviewingId === correction.id}
+                  >
+                    {reviewingId === correction.id ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={styles.buttonText}>Approve</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.detail}>
+                {correction.status === 'approved' ? 'Approved' : 'Rejected'}
+                {correction.reviewer ? ` by ${correction.reviewer.full_name}` : ''}
+                {correction.review_note ? ` · ${correction.review_note}` : ''}
+              </Text>
+            )}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  employeeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  reason: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  detail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginTop: 12,
+    backgroundColor: '#fafafa',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  rejectButton: {
+    backgroundColor: '#f44336',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,498 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Holiday, HolidayCalendar, HolidayImportResult } from '../types';
+import {
+  addHoliday,
+  createHolidayCalendar,
+  deleteHoliday,
+  deleteHolidayCalendar,
+  getHolidayCalendars,
+  getHolidays,
+  importHolidays,
+} from '../services/holidaysService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function formatHolidayDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+interface HolidaysScreenProps {
+  onClose: () => void;
+  onChanged?: () => void; // calendars were added or removed, so location forms may need the new list
+}
+
+export default function HolidaysScreen({ onClose, onChanged }: HolidaysScreenProps) {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newCalendarName, setNewCalendarName] = useState('');
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+  const [ics, setIcs] = useState('');
+  const [preview, setPreview] = useState<HolidayImportResult | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = calendars.find((calendar) => calendar.id === selectedId) || null;
+
+  const fetchCalendars = useCallback(async () => {
+    const { calendars: list, error } = await getHolidayCalendars();
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setCalendars(list);
+    setSelectedId((current) => current ?? list[0]?.id ?? null);
+  }, []);
+
+  const fetchHolidays = useCallback(async () => {
+    if (!selectedId) {
+      setHolidays([]);
+      return;
+    }
+    const { holidays: list, error } = await getHolidays(selectedId, year);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setHolidays(list);
+  }, [selectedId, year]);
+
+  useEffect(() => {
+    fetchCalendars();
+  }, [fetchCalendars]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const handleCreateCalendar = async () => {
+    if (!newCalendarName.trim()) {
+      showAlert('Error', 'Please enter a name');
+      return;
+    }
+    setSaving(true);
+    const { data, error } = await createHolidayCalendar(newCalendarName.trim());
+    setSaving(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setNewCalendarName('');
+    setSelectedId(data!.id);
+    fetchCalendars();
+    onChanged?.();
+  };
+
+  const handleDeleteCalendar = async () => {
+    if (!selected) {
+      return;
+    }
+    const { error } = await deleteHolidayCalendar(selected.id);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setSelectedId(null);
+    fetchCalendars();
+    onChanged?.();
+  };
+
+  const handleAddHoliday = async () => {
+    if (!selectedId) {
+      return;
+    }
+    if (!DATE_PATTERN.test(newHolidayDate) || !newHolidayName.trim()) {
+      showAlert('Error', 'Enter the date as YYYY-MM-DD and a name');
+      return;
+    }
+    setSaving(true);
+    const { error } = await addHoliday(selectedId, newHolidayDate, newHolidayName.trim());
+    setSaving(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setNewHolidayDate('');
+    setNewHolidayName('');
+    fetchHolidays();
+    fetchCalendars();
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    const { error } = await deleteHoliday(holiday.calendar_id, holiday.id);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setHolidays((prev) => prev.filter((item) => item.id !== holiday.id));
+    fetchCalendars();
+  };
+
+  // A dry run first, so the admin sees what the file contains before anything is saved
+  const handleImport = async (dryRun: boolean) => {
+    if (!selectedId || !ics.trim()) {
+      showAlert('Error', 'Paste the contents of an .ics file first');
+      return;
+    }
+    setSaving(true);
+    const { data, error } = await importHolidays(selectedId, ics, dryRun);
+    setSaving(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    if (dryRun) {
+      setPreview(data);
+      return;
+    }
+    showAlert('Imported', `${data!.created} holiday(s) added, ${data!.updated} updated`);
+    setIcs('');
+    setPreview(null);
+    fetchHolidays();
+    fetchCalendars();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Holiday Calendars</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : (
+        <View style={styles.chips}>
+          {calendars.map((calendar) => (
+            <TouchableOpacity
+              key={calendar.id}
+              style={[styles.chip, selectedId === calendar.id && styles.chipActive]}
+              onPress={() => {
+                setSelectedId(calendar.id);
+                setPreview(null);
+              }}
+            >
+              <Text style={[styles.chipText, selectedId === calendar.id && styles.chipTextActive]}>
+                {calendar.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          placeholder="New calendar, e.g. Spain - Catalonia"
+          value={newCalendarName}
+          onChangeText={setNewCalendarName}
+        />
+        <TouchableOpacity style={styles.smallButton} onPress={handleCreateCalendar} disabled={saving}>
+          <Text style={styles.buttonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {selected && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>{selected.name}</Text>
+            <TouchableOpacity onPress={handleDeleteCalendar}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.detail}>
+            {selected.locations && selected.locations.length > 0
+              ? `Observed at ${selected.locations.map((location) => location.name).join(', ')}`
+              : 'Not used by any location yet; choose it when editing a location'}
+          </Text>
+
+          <View style={styles.yearRow}>
+            <TouchableOpacity onPress={() => setYear(year - 1)}>
+              <Text style={styles.linkText}>◀</Text>
+            </TouchableOpacity>
+            <Text style={styles.yearText}>{year}</Text>
+            <TouchableOpacity onPress={() => setYear(year + 1)}>
+              <Text style={styles.linkText}>▶</Text>
+            </TouchableOpacity>
+          </View>
+
+          {holidays.length === 0 ? (
+            <Text style={styles.emptyText}>No holidays in {year}</Text>
+          ) : (
+            holidays.map((holiday) => (
+              <View key={holiday.id} style={styles.listRow}>
+                <View style={styles.listInfo}>
+                  <Text style={styles.listName}>{holiday.name}</Text>
+                  <Text style={styles.detail}>{formatHolidayDate(holiday.date)}</Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDeleteHoliday(holiday)}>
+                  <Text style={styles.deleteText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.label}>Add a holiday</Text>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="YYYY-MM-DD"
+              value={newHolidayDate}
+              onChangeText={setNewHolidayDate}
+            />
+            <TextInput
+              style={[styles.input, styles.rowInput]}
+              placeholder="Name"
+              value={newHolidayName}
+              onChangeText={setNewHolidayName}
+            />
+            <TouchableOpacity style={styles.smallButton} onPress={handleAddHoliday} disabled={saving}>
+              <Text style={styles.buttonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Import from iCalendar (.ics)</Text>
+          <TextInput
+            style={[styles.input, styles.icsInput]}
+            placeholder="Paste the contents of an .ics file"
+            value={ics}
+            onChangeText={(text) => {
+              setIcs(text);
+              setPreview(null);
+            }}
+            multiline
+          />
+
+          {preview && (
+            <View style={styles.preview}>
+              <Text style={styles.listName}>{preview.holidays.length} holiday(s) found</Text>
+              {preview.holidays.slice(0, 10).map((holiday) => (
+                <Text key={holiday.date} style={styles.detail}>
+                  {holiday.date} · {holiday.name}
+                </Text>
+              ))}
+              {preview.holidays.length > 10 && (
+                <Text style={styles.detail}>and {preview.holidays.length - 10} more</Text>
+              )}
+              {preview.errors.map((error) => (
+                <Text key={error.index} style={styles.errorText}>
+                  {error.name || `Event ${error.index + 1}`}: {error.error}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={() => handleImport(!preview)}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>{preview ? 'Import' : 'Preview Import'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+    marginVertical: 12,
+  },
+  yearText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: '#fafafa',
+  },
+  rowInput: {
+    flex: 1,
+  },
+  dateInput: {
+    width: 120,
+  },
+  icsInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+  },
+  preview: {
+    marginTop: 12,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#fafafa',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#f44336',
+    marginTop: 2,
+  },
+  smallButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#f44336',
+    fontWeight: '600',
+  },
+});
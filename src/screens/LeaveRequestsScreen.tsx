@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { LeaveRequest, LeaveStatus, LeaveType } from '../types';
+import {
+  createLeaveType,
+  deleteLeaveType,
+  getLeaveRequests,
+  getLeaveTypes,
+  reviewLeave,
+} from '../services/leaveService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const STATUS_FILTERS: { label: string; value: LeaveStatus }[] = [
+  { label: 'Pending', value: 'pending' },
+  { label: 'Approved', value: 'approved' },
+  { label: 'Rejected', value: 'rejected' },
+];
+
+function formatRange(request: LeaveRequest): string {
+  const days = `${request.dates.length} working day${request.dates.length === 1 ? '' : 's'}`;
+  if (request.start_date === request.end_date) {
+    return `${request.start_date} · ${days}`;
+  }
+  return `${request.start_date} – ${request.end_date} · ${days}`;
+}
+
+interface LeaveRequestsScreenProps {
+  onClose: () => void;
+  onReviewed?: () => void; // approved leave changes the roster, so the caller may want to refresh
+}
+
+export default function LeaveRequestsScreen({ onClose, onReviewed }: LeaveRequestsScreenProps) {
+  const { isAdmin } = useAuth();
+  const [status, setStatus] = useState<LeaveStatus>('pending');
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [newTypeName, setNewTypeName] = useState('');
+  const [newTypeDays, setNewTypeDays] = useState('');
+  const [newTypePaid, setNewTypePaid] = useState(true);
+  const [savingType, setSavingType] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    const { requests: list, error } = await getLeaveRequests({ status });
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setRequests(list);
+  }, [status]);
+
+  const fetchLeaveTypes = useCallback(async () => {
+    const { leaveTypes: list } = await getLeaveTypes();
+    setLeaveTypes(list);
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchLeaveTypes();
+    }
+  }, [isAdmin, fetchLeaveTypes]);
+
+  const handleReview = async (request: LeaveRequest, decision: 'approve' | 'reject') => {
+    setReviewingId(request.id);
+    const { error } = await reviewLeave(request.id, decision, notes[request.id]?.trim() || undefined);
+    setReviewingId(null);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setRequests((prev) => prev.filter((item) => item.id !== request.id));
+    onReviewed?.();
+  };
+
+  const handleAddType = async () => {
+    if (!newTypeName.trim()) {
+      showAlert('Error', 'Please enter a name');
+      return;
+    }
+    // An empty allowance means the type has no balance, e.g. unpaid or sick leave
+    const annualDays = newTypeDays.trim() ? Number(newTypeDays) : null;
+    if (annualDays !== null && (isNaN(annualDays) || annualDays < 0)) {
+      showAlert('Error', 'Days per year must be a positive number');
+      return;
+    }
+
+    setSavingType(true);
+    const { error } = await createLeaveType({ name: newTypeName.trim(), paid: newTypePaid, annual_days: annualDays });
+    setSavingType(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setNewTypeName('');
+    setNewTypeDays('');
+    setNewTypePaid(true);
+    fetchLeaveTypes();
+  };
+
+  const handleDeleteType = async (leaveType: LeaveType) => {
+    const { error } = await deleteLeaveType(leaveType.id);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setLeaveTypes((prev) => prev.filter((item) => item.id !== leaveType.id));
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Leave Requests</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.chips}>
+        {STATUS_FILTERS.map((filter) => (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.chip, status === filter.value && styles.chipActive]}
+            onPress={() => setStatus(filter.value)}
+          >
+            <Text style={[styles.chipText, status === filter.value && styles.chipTextActive]}>{filter.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : requests.length === 0 ? (
+        <Text style={styles.emptyText}>No {status} requests</Text>
+      ) : (
+        requests.map((request) => (
+          <View key={request.id} style={styles.card}>
+            <Text style={styles.employeeName}>{request.user?.full_name || 'Unknown employee'}</Text>
+            <Text style={styles.description}>
+              {request.leave_type?.name || 'Leave'} · {formatRange(request)}
+            </Text>
+            {request.reason && <Text style={styles.reason}>“{request.reason}”</Text>}
+            <Text style={styles.detail}>Requested {new Date(request.created_at).toLocaleString()}</Text>
+
+            {request.status === 'pending' ? (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Note to the employee (optional)"
+                  value={notes[request.id] || ''}
+                  onChangeText={(text) => setNotes({ ...notes, [request.id]: text })}
+                />
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.rejectButton]}
+                    onPress={() => handleReview(request, 'reject')}
+                    disabled={reviewingId === request.id}
+                  >
+                    <Text style={styles.buttonText}>Reject</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.button}
+                    onPress={() => handleReview(request, 'approve')}
+                    disabled={reviewingId === request.id}
+                  >
+                    {reviewingId === request.id ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={styles.buttonText}>Approve</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.detail}>
+                {request.status === 'approved' ? 'Approved' : 'Rejected'}
+                {request.reviewer ? ` by ${request.reviewer.full_name}` : ''}
+                {request.review_note ? ` · ${request.review_note}` : ''}
+              </Text>
+            )}
+          </View>
+        ))
+      )}
+
+      {/* Leave types (admins only); types already used can't be deleted */}
+      {isAdmin && (
+        <View style={styles.card}>
+          <Text style={styles.employeeName}>Leave Types</Text>
+          {leaveTypes.map((leaveType) => (
+            <View key={leaveType.id} style={styles.typeRow}>
+              <View style={styles.typeInfo}>
+                <Text style={styles.description}>{leaveType.name}</Text>
+                <Text style={styles.detail}>
+                  {leaveType.paid ? 'Paid' : 'Unpaid'}
+                  {leaveType.annual_days !== null ? ` · ${leaveType.annual_days} days per year` : ' · no balance'}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteType(leaveType)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TextInput
+            style={styles.input}
+            placeholder="Name, e.g. Vacation"
+            value={newTypeName}
+            onChangeText={setNewTypeName}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Days per year (empty for no balance)"
+            value={newTypeDays}
+            onChangeText={setNewTypeDays}
+            keyboardType="numeric"
+          />
+          <View style={[styles.chips, styles.typeChips]}>
+            {[true, false].map((paid) => (
+              <TouchableOpacity
+                key={String(paid)}
+                style={[styles.chip, newTypePaid === paid && styles.chipActive]}
+                onPress={() => setNewTypePaid(paid)}
+              >
+                <Text style={[styles.chipText, newTypePaid === paid && styles.chipTextActive]}>
+                  {paid ? 'Paid' : 'Unpaid'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={handleAddType} disabled={savingType}>
+              {savingType ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Add Leave Type</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 14,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  employeeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  reason: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  detail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginTop: 12,
+    backgroundColor: '#fafafa',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  rejectButton: {
+    backgroundColor: '#f44336',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  typeInfo: {
+    flex: 1,
+  },
+  typeChips: {
+    marginTop: 12,
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#f44336',
+    fontWeight: '600',
+  },
+});
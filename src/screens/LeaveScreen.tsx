@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { LeaveBalance, LeaveRequest, LeaveType } from '../types';
+import { cancelLeave, getLeaveBalances, getLeaveRequests, getLeaveTypes, requestLeave } from '../services/leaveService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const STATUS_COLORS: Record<LeaveRequest['status'], string> = {
+  pending: '#ff9800',
+  approved: '#4CAF50',
+  rejected: '#f44336',
+  cancelled: '#999',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function todayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function formatRange(request: LeaveRequest): string {
+  const days = `${request.dates.length} day${request.dates.length === 1 ? '' : 's'}`;
+  if (request.start_date === request.end_date) {
+    return `${request.start_date} (${days})`;
+  }
+  return `${request.start_date} – ${request.end_date} (${days})`;
+}
+
+// Pending requests can always be withdrawn, approved ones until the leave starts
+function canCancel(request: LeaveRequest): boolean {
+  return request.status === 'pending' || (request.status === 'approved' && request.start_date > todayString());
+}
+
+interface LeaveScreenProps {
+  onClose: () => void;
+}
+
+export default function LeaveScreen({ onClose }: LeaveScreenProps) {
+  const { user } = useAuth();
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [leaveTypeId, setLeaveTypeId] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState(todayString);
+  const [endDate, setEndDate] = useState(todayString);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const fetchLeave = useCallback(async () => {
+    const [{ balances: balanceList }, { requests: requestList, error }] = await Promise.all([
+      getLeaveBalances(),
+      getLeaveRequests({ user_id: user?.id }),
+    ]);
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setBalances(balanceList);
+    setRequests(requestList);
+  }, [user?.id]);
+
+  useEffect(() => {
+    getLeaveTypes().then(({ leaveTypes: list }) => setLeaveTypes(list));
+    fetchLeave();
+  }, [fetchLeave]);
+
+  const handleSubmit = async () => {
+    if (!leaveTypeId) {
+      showAlert('Error', 'Please choose a leave type');
+      return;
+    }
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      showAlert('Error', 'Enter the dates as YYYY-MM-DD');
+      return;
+    }
+    if (startDate > endDate) {
+      showAlert('Error', 'The last day must be on or after the first day');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await requestLeave({
+      leave_type_id: leaveTypeId,
+      start_date: startDate,
+      end_date: endDate,
+      reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    showAlert('Request Sent', `${data!.dates.length} working day(s) requested. Your manager will review it.`);
+    setReason('');
+    fetchLeave();
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    setCancellingId(request.id);
+    const { error } = await cancelLeave(request.id);
+    setCancellingId(null);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    fetchLeave();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Leave</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : (
+        balances.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Balances {balances[0].year}</Text>
+            {balances.map((balance) => (
+              <View key={balance.leave_type.id} style={styles.balanceRow}>
+                <Text style={styles.listName}>{balance.leave_type.name}</Text>
+                <Text style={styles.balanceValue}>
+                  {balance.available === null ? `${balance.used} taken` : `${balance.available} days left`}
+                </Text>
+                {balance.pending > 0 && <Text style={styles.detail}>{balance.pending} pending</Text>}
+              </View>
+            ))}
+          </View>
+        )
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Request Leave</Text>
+
+        {leaveTypes.length === 0 ? (
+          <Text style={styles.detail}>Your organization hasn't set up any leave types yet</Text>
+        ) : (
+          <View style={styles.chips}>
+            {leaveTypes.map((leaveType) => (
+              <TouchableOpacity
+                key={leaveType.id}
+                style={[styles.chip, leaveTypeId === leaveType.id && styles.chipActive]}
+                onPress={() => setLeaveTypeId(leaveType.id)}
+              >
+                <Text style={[styles.chipText, leaveTypeId === leaveType.id && styles.chipTextActive]}>
+                  {leaveType.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.dateRow}>
+          <View style={styles.dateField}>
+            <Text style={styles.label}>First day</Text>
+            <TextInput style={styles.input} placeholder="YYYY-MM-DD" value={startDate} onChangeText={setStartDate} />
+          </View>
+          <View style={styles.dateField}>
+            <Text style={styles.label}>Last day</Text>
+            <TextInput style={styles.input} placeholder="YYYY-MM-DD" value={endDate} onChangeText={setEndDate} />
+          </View>
+        </View>
+
+        <Text style={styles.label}>Reason (optional)</Text>
+        <TextInput
+          style={[styles.input, styles.reasonInput]}
+          placeholder="e.g. Family holiday"
+          value={reason}
+          onChangeText={setReason}
+          multiline
+        />
+
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Send Request</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {requests.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>My Requests</Text>
+          {requests.map((request) => (
+            <View key={request.id} style={styles.listRow}>
+              <View style={styles.listInfo}>
+                <Text style={styles.listName}>
+                  {request.leave_type?.name || 'Leave'} · {formatRange(request)}
+                </Text>
+                <Text style={[styles.statusText, { color: STATUS_COLORS[request.status] }]}>
+                  {request.status}
+                  {request.review_note ? ` · ${request.review_note}` : ''}
+                </Text>
+              </View>
+              {canCancel(request) && (
+                <TouchableOpacity onPress={() => handleCancel(request)} disabled={cancellingId === request.id}>
+                  {cancellingId === request.id ? (
+                    <ActivityIndicator size="small" color="#f44336" />
+                  ) : (
+                    <Text style={styles.cancelText}>Cancel</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  detail: {
+    fontSize: 12,
+    color: '#999',
+  },
+  balanceRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  balanceValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  reasonInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#f44336',
+    fontWeight: '600',
+  },
+});
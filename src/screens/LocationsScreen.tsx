@@ -36,10 +36,21 @@ const showAlert = (title: string, message: string, buttons?: Array<{text: string
     }
   }
 };
-import { createLocation, getLocations, deleteLocationById, updateLocation } from '../services/locationsService';
+import {
+  createLocation,
+  getLocations,
+  archiveLocationById,
+  restoreLocationById,
+  updateLocation,
+  AutoCheckOutSettings,
+} from '../services/locationsService';
+import { getHolidayCalendars } from '../services/holidaysService';
 import { useAuth } from '../context/AuthContext';
-import { Location, Coordinates } from '../types';
-import { formatDistance } from '../utils/geofencing';
+import { Location, Coordinates, AutoCheckOutPolicy, HolidayCalendar } from '../types';
+import { formatDistance, buildBoundary, boundaryToParts } from '../utils/geofencing';
+import HolidaysScreen from './HolidaysScreen';
+
+type LocationShape = 'circle' | 'polygon';
 
 const RADIUS_OPTIONS = [
   { label: '100m', value: 100 },
@@ -48,6 +59,37 @@ const RADIUS_OPTIONS = [
   { label: '1km', value: 1000 },
 ];
 
+const AUTO_CHECK_OUT_OPTIONS: { label: string; value: AutoCheckOutPolicy }[] = [
+  { label: 'Off', value: 'none' },
+  { label: 'At a time', value: 'fixed_time' },
+  { label: 'After hours', value: 'after_hours' },
+  { label: 'Shift end', value: 'shift_end' },
+];
+
+function minuteToTime(minute: number): string {
+  return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+// The form's policy and its value ("HH:MM" for fixed_time, hours otherwise) as API fields
+function toAutoCheckOutSettings(policy: AutoCheckOutPolicy, value: string): AutoCheckOutSettings | string {
+  if (policy === 'fixed_time') {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      return 'Enter the auto check-out time as HH:MM, e.g. 20:00';
+    }
+    return { auto_check_out: policy, auto_check_out_minute: Number(match[1]) * 60 + Number(match[2]), auto_check_out_hours: null };
+  }
+
+  const hours = value.trim() ? parseFloat(value) : null;
+  if (hours !== null && !(hours > 0)) {
+    return 'Enter the auto check-out hours as a positive number';
+  }
+  if (policy === 'after_hours' && hours === null) {
+    return 'Enter after how many hours sessions are checked out';
+  }
+  return { auto_check_out: policy, auto_check_out_minute: null, auto_check_out_hours: policy === 'none' ? null : hours };
+}
+
 export default function LocationsScreen() {
   const { user, isAdmin } = useAuth();
   const userId = user?.id || '';
@@ -64,15 +106,36 @@ export default function LocationsScreen() {
   const [customRadiusKm, setCustomRadiusKm] = useState('');
   const [useCustomRadius, setUseCustomRadius] = useState(false);
   const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [shape, setShape] = useState<LocationShape>('circle');
+  const [autoCheckOut, setAutoCheckOut] = useState<AutoCheckOutPolicy>('none');
+  const [autoCheckOutValue, setAutoCheckOutValue] = useState('');
+  const [paidBreakMinutes, setPaidBreakMinutes] = useState('');
+  const [holidayCalendarId, setHolidayCalendarId] = useState<string | null>(null);
+  // Each part is one polygon of a (multi-)polygon, built by walking its perimeter
+  const [polygonParts, setPolygonParts] = useState<Coordinates[][]>([[]]);
   const [isSaving, setIsSaving] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
 
   // Edit mode state
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [holidayCalendars, setHolidayCalendars] = useState<HolidayCalendar[]>([]);
+  const [showHolidays, setShowHolidays] = useState(false);
+
+  const fetchHolidayCalendars = useCallback(async () => {
+    const { calendars } = await getHolidayCalendars();
+    setHolidayCalendars(calendars);
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchHolidayCalendars();
+    }
+  }, [isAdmin, fetchHolidayCalendars]);
 
   const fetchLocations = useCallback(async () => {
     try {
-      const { locations: data, error: err } = await getLocations();
+      const { locations: data, error: err } = await getLocations({ includeArchived: showArchived });
       if (err) {
         setError(err.message);
       } else {
@@ -85,7 +148,7 @@ export default function LocationsScreen() {
       setLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [showArchived]);
 
   useEffect(() => {
     fetchLocations();
@@ -96,22 +159,22 @@ export default function LocationsScreen() {
     fetchLocations();
   };
 
-  const handleDelete = (item: Location) => {
+  const handleArchive = (item: Location) => {
     showAlert(
-      'Delete Location',
-      `Are you sure you want to delete "${item.name}"?`,
+      'Archive Location',
+      `Archive "${item.name}"? Employees won't be able to check in there, but its attendance history is kept.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete',
+          text: 'Archive',
           style: 'destructive',
           onPress: async () => {
             if (!item.id) return;
-            const { error: err } = await deleteLocationById(item.id);
+            const { error: err } = await archiveLocationById(item.id);
             if (err) {
               showAlert('Error', err.message);
             } else {
-              setLocations((prev) => prev.filter((loc) => loc.id !== item.id));
+              fetchLocations();
             }
           },
         },
@@ -119,6 +182,16 @@ export default function LocationsScreen() {
     );
   };
 
+  const handleRestore = async (item: Location) => {
+    if (!item.id) return;
+    const { data: restored, error: err } = await restoreLocationById(item.id);
+    if (err || !restored) {
+      showAlert('Error', err?.message || 'Failed to restore location');
+    } else {
+      setLocations((prev) => prev.map((loc) => (loc.id === restored.id ? restored : loc)));
+    }
+  };
+
   const handleUseCurrentLocation = async () => {
     setIsGettingLocation(true);
     try {
@@ -132,10 +205,17 @@ export default function LocationsScreen() {
         accuracy: ExpoLocation.Accuracy.High,
       });
 
-      setCoordinates({
+      const current = {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
-      });
+      };
+
+      if (shape === 'polygon') {
+        // Drop a vertex on the polygon currently being walked
+        setPolygonParts((prev) => [...prev.slice(0, -1), [...prev[prev.length - 1], current]]);
+      } else {
+        setCoordinates(current);
+      }
     } catch (err: any) {
       console.error('Location error:', err);
       showAlert('Error', `Failed to get current location: ${err.message || 'Unknown error'}`);
@@ -153,33 +233,79 @@ export default function LocationsScreen() {
     return selectedRadius;
   };
 
+  const undoLastVertex = () => {
+    setPolygonParts((prev) => {
+      const last = prev[prev.length - 1];
+      if (last.length === 0 && prev.length > 1) {
+        return prev.slice(0, -1);
+      }
+      return [...prev.slice(0, -1), last.slice(0, -1)];
+    });
+  };
+
+  const startNewPolygon = () => {
+    setPolygonParts((prev) => [...prev, []]);
+  };
+
+  const isFormComplete = (): boolean => {
+    if (!name) return false;
+    if (shape === 'polygon') return buildBoundary(polygonParts) !== null;
+    return !!coordinates && !!getEffectiveRadius();
+  };
+
   const handleSaveLocation = async () => {
     if (!name.trim()) {
       showAlert('Error', 'Please enter a location name');
       return;
     }
 
-    if (!coordinates) {
+    const boundary = shape === 'polygon' ? buildBoundary(polygonParts) : null;
+    if (shape === 'polygon' && !boundary) {
+      showAlert('Error', 'Walk the perimeter and add at least 3 vertices with "Use Current Location"');
+      return;
+    }
+
+    if (shape === 'circle' && !coordinates) {
       showAlert('Error', 'Please set coordinates using "Use Current Location"');
       return;
     }
 
     const radius = getEffectiveRadius();
-    if (!radius) {
+    if (shape === 'circle' && !radius) {
       showAlert('Error', 'Please enter a valid radius');
       return;
     }
 
+    const autoCheckOutSettings = toAutoCheckOutSettings(autoCheckOut, autoCheckOutValue);
+    if (typeof autoCheckOutSettings === 'string') {
+      showAlert('Error', autoCheckOutSettings);
+      return;
+    }
+
+    const paidBreak = paidBreakMinutes.trim() ? Number(paidBreakMinutes) : 0;
+    if (!Number.isInteger(paidBreak) || paidBreak < 0) {
+      showAlert('Error', 'Paid break must be a whole number of minutes');
+      return;
+    }
+    const settings = { ...autoCheckOutSettings, paid_break_minutes: paidBreak, holiday_calendar_id: holidayCalendarId };
+
     setIsSaving(true);
     try {
       if (editingLocation) {
         // Update existing location
-        const { data, error: err } = await updateLocation(editingLocation.id!, {
-          name: name.trim(),
-          latitude: coordinates.latitude,
-          longitude: coordinates.longitude,
-          radius_meters: radius,
-        });
+        const { data, error: err } = await updateLocation(
+          editingLocation.id!,
+          boundary
+            ? { name: name.trim(), boundary, ...settings }
+            : {
+                name: name.trim(),
+                latitude: coordinates!.latitude,
+                longitude: coordinates!.longitude,
+                radius_meters: radius!,
+                boundary: null,
+                ...settings,
+              }
+        );
 
         if (err) {
           showAlert('Error', err.message);
@@ -199,7 +325,9 @@ export default function LocationsScreen() {
           name.trim(),
           coordinates,
           radius,
-          userId
+          userId,
+          boundary,
+          settings
         );
 
         if (err) {
@@ -217,9 +345,15 @@ export default function LocationsScreen() {
       // Reset form
       setName('');
       setCoordinates(null);
+      setShape('circle');
+      setPolygonParts([[]]);
       setSelectedRadius(100);
       setCustomRadiusKm('');
       setUseCustomRadius(false);
+      setAutoCheckOut('none');
+      setAutoCheckOutValue('');
+      setPaidBreakMinutes('');
+      setHolidayCalendarId(null);
       setEditingLocation(null);
       setModalVisible(false);
     } catch (err) {
@@ -232,9 +366,15 @@ export default function LocationsScreen() {
   const openAddModal = () => {
     setName('');
     setCoordinates(null);
+    setShape('circle');
+    setPolygonParts([[]]);
     setSelectedRadius(100);
     setCustomRadiusKm('');
     setUseCustomRadius(false);
+    setAutoCheckOut('none');
+    setAutoCheckOutValue('');
+    setPaidBreakMinutes('');
+    setHolidayCalendarId(null);
     setEditingLocation(null);
     setModalVisible(true);
   };
@@ -246,6 +386,18 @@ export default function LocationsScreen() {
       latitude: location.latitude,
       longitude: location.longitude,
     });
+    setShape(location.boundary ? 'polygon' : 'circle');
+    setPolygonParts(location.boundary ? boundaryToParts(location.boundary) : [[]]);
+    setPaidBreakMinutes(location.paid_break_minutes ? String(location.paid_break_minutes) : '');
+    setHolidayCalendarId(location.holiday_calendar_id ?? null);
+    setAutoCheckOut(location.auto_check_out || 'none');
+    setAutoCheckOutValue(
+      location.auto_check_out_minute != null
+        ? minuteToTime(location.auto_check_out_minute)
+        : location.auto_check_out_hours != null
+          ? String(location.auto_check_out_hours)
+          : ''
+    );
     // Set radius - check if it matches a preset or use custom
     const preset = RADIUS_OPTIONS.find((opt) => opt.value === location.radius_meters);
     if (preset) {
@@ -263,29 +415,51 @@ export default function LocationsScreen() {
   const renderItem = ({ item }: { item: Location }) => (
     <View style={styles.card}>
       <View style={styles.cardHeader}>
-        <Text style={styles.locationName}>{item.name}</Text>
+        <Text style={[styles.locationName, item.archived_at && styles.archivedName]}>{item.name}</Text>
         {isAdmin && (
           <View style={styles.cardActions}>
-            <TouchableOpacity
-              style={styles.editButton}
-              onPress={() => openEditModal(item)}
-            >
-              <Text style={styles.editButtonText}>Edit</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.deleteButton}
-              onPress={() => handleDelete(item)}
-            >
-              <Text style={styles.deleteButtonText}>Delete</Text>
-            </TouchableOpacity>
+            {item.archived_at ? (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => handleRestore(item)}
+              >
+                <Text style={styles.editButtonText}>Restore</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.editButton}
+                  onPress={() => openEditModal(item)}
+                >
+                  <Text style={styles.editButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => handleArchive(item)}
+                >
+                  <Text style={styles.deleteButtonText}>Archive</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         )}
       </View>
 
-      <View style={styles.infoRow}>
-        <Text style={styles.infoLabel}>Radius:</Text>
-        <Text style={styles.infoValue}>{formatDistance(item.radius_meters)}</Text>
-      </View>
+      {item.boundary ? (
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Boundary:</Text>
+          <Text style={styles.infoValue}>
+            {item.boundary.type === 'MultiPolygon'
+              ? `${item.boundary.coordinates.length} polygons`
+              : `Polygon, ${item.boundary.coordinates[0].length - 1} vertices`}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Radius:</Text>
+          <Text style={styles.infoValue}>{formatDistance(item.radius_meters)}</Text>
+        </View>
+      )}
 
       <View style={styles.infoRow}>
         <Text style={styles.infoLabel}>Coordinates:</Text>
@@ -293,6 +467,10 @@ export default function LocationsScreen() {
           {item.latitude.toFixed(6)}, {item.longitude.toFixed(6)}
         </Text>
       </View>
+
+      {item.archived_at && (
+        <Text style={styles.archivedText}>Archived {new Date(item.archived_at).toLocaleDateString()}</Text>
+      )}
     </View>
   );
 
@@ -324,6 +502,19 @@ export default function LocationsScreen() {
         )}
       </View>
 
+      {isAdmin && (
+        <View style={styles.adminLinks}>
+          <TouchableOpacity style={styles.archivedToggle} onPress={() => setShowHolidays(true)}>
+            <Text style={styles.archivedToggleText}>Holiday calendars</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.archivedToggle} onPress={() => setShowArchived(!showArchived)}>
+            <Text style={styles.archivedToggleText}>
+              {showArchived ? 'Hide archived locations' : 'Show archived locations'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {error && <Text style={styles.errorText}>{error}</Text>}
 
       <FlatList
@@ -358,73 +549,193 @@ export default function LocationsScreen() {
               onChangeText={setName}
             />
 
-            <Text style={styles.inputLabel}>Radius</Text>
+            <Text style={styles.inputLabel}>Shape</Text>
             <View style={styles.radiusContainer}>
-              {RADIUS_OPTIONS.map((option) => (
+              {(['circle', 'polygon'] as LocationShape[]).map((option) => (
                 <TouchableOpacity
-                  key={option.value}
-                  style={[
-                    styles.radiusOption,
-                    !useCustomRadius && selectedRadius === option.value && styles.radiusOptionSelected,
-                  ]}
-                  onPress={() => {
-                    setSelectedRadius(option.value);
-                    setUseCustomRadius(false);
-                    setCustomRadiusKm('');
-                  }}
+                  key={option}
+                  style={[styles.radiusOption, shape === option && styles.radiusOptionSelected]}
+                  onPress={() => setShape(option)}
                 >
-                  <Text
-                    style={[
-                      styles.radiusOptionText,
-                      !useCustomRadius && selectedRadius === option.value && styles.radiusOptionTextSelected,
-                    ]}
-                  >
-                    {option.label}
+                  <Text style={[styles.radiusOptionText, shape === option && styles.radiusOptionTextSelected]}>
+                    {option === 'circle' ? 'Circle' : 'Polygon'}
                   </Text>
                 </TouchableOpacity>
               ))}
             </View>
 
-            <Text style={styles.inputLabel}>Or enter custom radius (km)</Text>
+            {shape === 'circle' ? (
+              <>
+                <Text style={styles.inputLabel}>Radius</Text>
+                <View style={styles.radiusContainer}>
+                  {RADIUS_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.radiusOption,
+                        !useCustomRadius && selectedRadius === option.value && styles.radiusOptionSelected,
+                      ]}
+                      onPress={() => {
+                        setSelectedRadius(option.value);
+                        setUseCustomRadius(false);
+                        setCustomRadiusKm('');
+                      }}
+                    >
+                      <Text
+                        style={[
+                          styles.radiusOptionText,
+                          !useCustomRadius && selectedRadius === option.value && styles.radiusOptionTextSelected,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.inputLabel}>Or enter custom radius (km)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  placeholder="e.g., 2.5"
+                  value={customRadiusKm}
+                  onChangeText={(text) => {
+                    setCustomRadiusKm(text);
+                    if (text) {
+                      setUseCustomRadius(true);
+                      setSelectedRadius(null);
+                    } else {
+                      setUseCustomRadius(false);
+                      setSelectedRadius(100);
+                    }
+                  }}
+                  keyboardType="decimal-pad"
+                />
+                {useCustomRadius && customRadiusKm && (
+                  <Text style={styles.customRadiusDisplay}>
+                    = {(parseFloat(customRadiusKm) * 1000).toFixed(0)}m
+                  </Text>
+                )}
+
+                <Text style={styles.inputLabel}>Coordinates</Text>
+                <TouchableOpacity
+                  style={styles.locationButton}
+                  onPress={handleUseCurrentLocation}
+                  disabled={isGettingLocation}
+                >
+                  {isGettingLocation ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.locationButtonText}>Use Current Location</Text>
+                  )}
+                </TouchableOpacity>
+
+                {coordinates && (
+                  <Text style={styles.coordsDisplay}>
+                    {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={styles.inputLabel}>Boundary</Text>
+                <Text style={styles.polygonHint}>
+                  Walk the perimeter and tap "Use Current Location" at each corner
+                </Text>
+                <TouchableOpacity
+                  style={styles.locationButton}
+                  onPress={handleUseCurrentLocation}
+                  disabled={isGettingLocation}
+                >
+                  {isGettingLocation ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.locationButtonText}>Use Current Location</Text>
+                  )}
+                </TouchableOpacity>
+
+                {polygonParts.map((part, index) => (
+                  <Text key={index} style={styles.coordsDisplay}>
+                    {polygonParts.length > 1 ? `Polygon ${index + 1}: ` : ''}
+                    {part.length} vertices{part.length > 0 && part.length < 3 ? ' (need at least 3)' : ''}
+                  </Text>
+                ))}
+
+                <View style={styles.polygonActions}>
+                  <TouchableOpacity style={styles.polygonActionButton} onPress={undoLastVertex}>
+                    <Text style={styles.polygonActionText}>Undo Vertex</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.polygonActionButton}
+                    onPress={startNewPolygon}
+                    disabled={polygonParts[polygonParts.length - 1].length < 3}
+                  >
+                    <Text style={styles.polygonActionText}>Start Another Polygon</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            <Text style={styles.inputLabel}>Paid break per session (minutes)</Text>
             <TextInput
               style={styles.textInput}
-              placeholder="e.g., 2.5"
-              value={customRadiusKm}
-              onChangeText={(text) => {
-                setCustomRadiusKm(text);
-                if (text) {
-                  setUseCustomRadius(true);
-                  setSelectedRadius(null);
-                } else {
-                  setUseCustomRadius(false);
-                  setSelectedRadius(100);
-                }
-              }}
-              keyboardType="decimal-pad"
+              placeholder="0 = breaks are unpaid"
+              value={paidBreakMinutes}
+              onChangeText={setPaidBreakMinutes}
+              keyboardType="number-pad"
             />
-            {useCustomRadius && customRadiusKm && (
-              <Text style={styles.customRadiusDisplay}>
-                = {(parseFloat(customRadiusKm) * 1000).toFixed(0)}m
-              </Text>
+
+            {holidayCalendars.length > 0 && (
+              <>
+                <Text style={styles.inputLabel}>Public Holidays</Text>
+                <View style={styles.radiusContainer}>
+                  {[{ id: null, name: 'None' }, ...holidayCalendars].map((calendar) => (
+                    <TouchableOpacity
+                      key={calendar.id ?? 'none'}
+                      style={[styles.radiusOption, holidayCalendarId === calendar.id && styles.radiusOptionSelected]}
+                      onPress={() => setHolidayCalendarId(calendar.id)}
+                    >
+                      <Text
+                        style={[styles.radiusOptionText, holidayCalendarId === calendar.id && styles.radiusOptionTextSelected]}
+                      >
+                        {calendar.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
             )}
 
-            <Text style={styles.inputLabel}>Coordinates</Text>
-            <TouchableOpacity
-              style={styles.locationButton}
-              onPress={handleUseCurrentLocation}
-              disabled={isGettingLocation}
-            >
-              {isGettingLocation ? (
-                <ActivityIndicator color="#fff" />
-              ) : (
-                <Text style={styles.locationButtonText}>Use Current Location</Text>
-              )}
-            </TouchableOpacity>
-
-            {coordinates && (
-              <Text style={styles.coordsDisplay}>
-                {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
-              </Text>
+            <Text style={styles.inputLabel}>Auto Check-Out</Text>
+            <View style={styles.radiusContainer}>
+              {AUTO_CHECK_OUT_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.radiusOption, autoCheckOut === option.value && styles.radiusOptionSelected]}
+                  onPress={() => {
+                    setAutoCheckOut(option.value);
+                    setAutoCheckOutValue('');
+                  }}
+                >
+                  <Text style={[styles.radiusOptionText, autoCheckOut === option.value && styles.radiusOptionTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {autoCheckOut !== 'none' && (
+              <TextInput
+                style={styles.textInput}
+                placeholder={
+                  autoCheckOut === 'fixed_time'
+                    ? 'Time, e.g. 20:00'
+                    : autoCheckOut === 'after_hours'
+                      ? 'Hours after check-in, e.g. 10'
+                      : 'Hours after check-in when no shift matches (optional)'
+                }
+                value={autoCheckOutValue}
+                onChangeText={setAutoCheckOutValue}
+                keyboardType={autoCheckOut === 'fixed_time' ? 'numbers-and-punctuation' : 'decimal-pad'}
+              />
             )}
 
             <View style={styles.modalButtons}>
@@ -436,9 +747,9 @@ export default function LocationsScreen() {
               </TouchableOpacity>
 
               <TouchableOpacity
-                style={[styles.saveButton, (!name || !coordinates || !getEffectiveRadius()) && styles.saveButtonDisabled]}
+                style={[styles.saveButton, !isFormComplete() && styles.saveButtonDisabled]}
                 onPress={handleSaveLocation}
-                disabled={!name || !coordinates || !getEffectiveRadius() || isSaving}
+                disabled={!isFormComplete() || isSaving}
               >
                 {isSaving ? (
                   <ActivityIndicator color="#fff" />
@@ -450,6 +761,17 @@ export default function LocationsScreen() {
           </View>
         </View>
       </Modal>
+
+      {/* Holiday calendars and their .ics imports (admins only) */}
+      <Modal animationType="slide" visible={showHolidays} onRequestClose={() => setShowHolidays(false)}>
+        <HolidaysScreen
+          onClose={() => {
+            setShowHolidays(false);
+            fetchLocations();
+          }}
+          onChanged={fetchHolidayCalendars}
+        />
+      </Modal>
     </View>
   );
 }
@@ -546,6 +868,29 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     marginBottom: 4,
   },
+  archivedName: {
+    color: '#999',
+  },
+  archivedText: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  adminLinks: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  archivedToggle: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    alignItems: 'flex-end',
+  },
+  archivedToggleText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   infoLabel: {
     fontSize: 14,
     color: '#666',
@@ -654,6 +999,29 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 16,
   },
+  polygonHint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  polygonActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  polygonActionButton: {
+    flex: 1,
+    padding: 10,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#e3f2fd',
+    alignItems: 'center',
+  },
+  polygonActionText: {
+    color: '#1976d2',
+    fontWeight: '600',
+    fontSize: 13,
+  },
   customRadiusDisplay: {
     textAlign: 'center',
     color: '#007AFF',
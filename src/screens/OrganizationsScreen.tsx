@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Organization } from '../types';
+import { getOrganizations, createOrganization } from '../services/organizationsService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+interface OrganizationsScreenProps {
+  onClose: () => void;
+}
+
+export default function OrganizationsScreen({ onClose }: OrganizationsScreenProps) {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ name: '', admin_name: '', admin_email: '' });
+
+  const fetchOrganizations = useCallback(async () => {
+    const { organizations: list, error } = await getOrganizations();
+    setLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setOrganizations(list);
+  }, []);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  // The first admin is always invited by email and picks their own password
+  const handleCreate = async () => {
+    if (!form.name.trim() || !form.admin_name.trim() || !form.admin_email.trim()) {
+      showAlert('Error', 'Please fill in the organization name and its first admin');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await createOrganization(form.name.trim(), {
+      full_name: form.admin_name.trim(),
+      email: form.admin_email.trim().toLowerCase(),
+    });
+    setSaving(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    showAlert('Organization Created', `An invitation was sent to ${form.admin_email.trim()}.`);
+    setForm({ name: '', admin_name: '', admin_email: '' });
+    fetchOrganizations();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Organizations</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        {loading ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : (
+          organizations.map((organization) => (
+            <View key={organization.id} style={styles.listRow}>
+              <Text style={styles.listName}>{organization.name}</Text>
+              {organization._count && (
+                <Text style={styles.listDetail}>
+                  {organization._count.users} users · {organization._count.locations} locations
+                </Text>
+              )}
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>New Organization</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Organization name"
+          value={form.name}
+          onChangeText={(text) => setForm({ ...form, name: text })}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Admin full name"
+          value={form.admin_name}
+          onChangeText={(text) => setForm({ ...form, admin_name: text })}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Admin email"
+          value={form.admin_email}
+          onChangeText={(text) => setForm({ ...form, admin_email: text })}
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleCreate}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Create and Invite Admin</Text>}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  listRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  listDetail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    marginBottom: 12,
+    backgroundColor: '#fafafa',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
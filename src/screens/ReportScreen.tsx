@@ -8,14 +8,17 @@ import {
   Alert,
   ScrollView,
   Platform,
+  Modal,
 } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { getAttendanceByDateRange } from '../services/attendanceService';
-import { getLocations } from '../services/locationsService';
+import { getSessions } from '../services/sessionsService';
+import { getLeaveRequests } from '../services/leaveService';
+import { getObservedHolidays } from '../services/holidaysService';
 import { useAuth } from '../context/AuthContext';
-import { AttendanceRecord, Location } from '../types';
-import { calculateDistance } from '../utils/geofencing';
+import { AttendanceStatus } from '../types';
+import CorrectionRequestScreen, { CorrectablePunch } from './CorrectionRequestScreen';
+import LeaveScreen from './LeaveScreen';
 
 const showAlert = (title: string, message: string) => {
   if (Platform.OS === 'web') {
@@ -32,9 +35,15 @@ interface LocationTimeSummary {
   sessions: number;
 }
 
-interface DetailedRecord extends AttendanceRecord {
-  locationName: string;
-  duration?: number; // duration in minutes (only for check_out)
+interface DetailedRecord {
+  id: string;
+  attendanceId: string | null; // null when the punch can't be referenced for a correction
+  timestamp: string;
+  // 'leave' rows are approved leave days and 'holiday' rows public holidays, one per date
+  status: AttendanceStatus | 'leave' | 'holiday';
+  locationName: string; // the leave type for 'leave' rows, the holiday and its locations for 'holiday' rows
+  duration?: number; // worked minutes, unpaid breaks excluded (only for check_out)
+  breakMinutes?: number; // total break time of the session (only for check_out)
 }
 
 function formatDate(date: Date): string {
@@ -50,6 +59,19 @@ function formatDateTime(timestamp: string): string {
   return `${d.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
 }
 
+function formatDay(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+const STATUS_LABELS: Record<DetailedRecord['status'], { badge: string; csv: string }> = {
+  check_in: { badge: 'IN', csv: 'Check In' },
+  check_out: { badge: 'OUT', csv: 'Check Out' },
+  break_start: { badge: 'BREAK', csv: 'Break Start' },
+  break_end: { badge: 'BACK', csv: 'Break End' },
+  leave: { badge: 'LEAVE', csv: 'Leave' },
+  holiday: { badge: 'HOLIDAY', csv: 'Holiday' },
+};
+
 function formatDuration(minutes: number): string {
   const hours = Math.floor(minutes / 60);
   const mins = Math.round(minutes % 60);
@@ -57,28 +79,6 @@ function formatDuration(minutes: number): string {
   return `${hours}h ${mins}m`;
 }
 
-function findNearestLocation(
-  lat: number,
-  lng: number,
-  locations: Location[]
-): Location | null {
-  let nearest: Location | null = null;
-  let minDistance = Infinity;
-
-  for (const loc of locations) {
-    const distance = calculateDistance(
-      { latitude: lat, longitude: lng },
-      { latitude: loc.latitude, longitude: loc.longitude }
-    );
-    if (distance <= loc.radius_meters && distance < minDistance) {
-      minDistance = distance;
-      nearest = loc;
-    }
-  }
-
-  return nearest;
-}
-
 export default function ReportScreen() {
   const { user } = useAuth();
   const userId = user?.id || '';
@@ -93,35 +93,35 @@ export default function ReportScreen() {
   const [detailedRecords, setDetailedRecords] = useState<DetailedRecord[]>([]);
   const [summaries, setSummaries] = useState<LocationTimeSummary[]>([]);
   const [totalTime, setTotalTime] = useState(0);
-  const [locations, setLocations] = useState<Location[]>([]);
-
-  useEffect(() => {
-    loadLocations();
-  }, []);
+  // undefined while closed; null when reporting a missing punch
+  const [correctionPunch, setCorrectionPunch] = useState<CorrectablePunch | null | undefined>(undefined);
+  const [showLeave, setShowLeave] = useState(false);
 
-  // Auto-generate report when locations are loaded
+  // Auto-generate report once the user is known
   useEffect(() => {
-    if (locations.length >= 0 && userId) {
+    if (userId) {
       generateReport();
     }
-  }, [locations, userId]);
-
-  const loadLocations = async () => {
-    const { locations: locs } = await getLocations();
-    setLocations(locs);
-  };
+  }, [userId]);
 
   const generateReport = useCallback(async () => {
     setLoading(true);
     try {
-      const { records, error } = await getAttendanceByDateRange(
-        userId,
-        startDate,
-        endDate
-      );
-
-      if (error) {
-        showAlert('Error', error.message);
+      // Sessions are paired and timed by the server, oldest first
+      const [{ sessions, error }, { requests: leave, error: leaveError }, { holidays, error: holidaysError }] =
+        await Promise.all([
+          getSessions(startDate, endDate),
+          getLeaveRequests({
+            status: 'approved',
+            user_id: userId,
+            start: formatDate(startDate),
+            end: formatDate(endDate),
+          }),
+          getObservedHolidays(formatDate(startDate), formatDate(endDate)),
+        ]);
+
+      if (error || leaveError || holidaysError) {
+        showAlert('Error', (error || leaveError || holidaysError)!.message);
         return;
       }
 
@@ -129,61 +129,79 @@ export default function ReportScreen() {
       const detailed: DetailedRecord[] = [];
       const locationTimeMap = new Map<string, { name: string; minutes: number; sessions: number }>();
 
-      for (let i = 0; i < records.length; i++) {
-        const record = records[i];
-        const location = findNearestLocation(record.latitude, record.longitude, locations);
-        const locationName = location?.name || 'Unknown Location';
-        const locationId = location?.id || 'unknown';
+      for (const session of sessions) {
+        const locationName = session.location?.name || 'Unknown Location';
+        const locationId = session.location_id || 'unknown';
 
-        if (record.status === 'check_in') {
-          // Find the matching check_out
-          const checkOutIndex = records.findIndex(
-            (r, idx) => idx > i && r.status === 'check_out'
-          );
+        detailed.push({
+          id: session.check_in_id,
+          attendanceId: session.check_in_id,
+          timestamp: session.started_at,
+          status: 'check_in',
+          locationName,
+        });
 
-          detailed.push({
-            ...record,
-            locationName,
+        // Open sessions have no check_out and don't count towards totals yet
+        if (!session.ended_at || session.duration_minutes === null) {
+          continue;
+        }
+
+        detailed.push({
+          id: session.check_out_id || `${session.id}_out`,
+          attendanceId: session.check_out_id,
+          timestamp: session.ended_at,
+          status: 'check_out',
+          locationName,
+          duration: session.duration_minutes,
+          breakMinutes: session.break_minutes,
+        });
+
+        const existing = locationTimeMap.get(locationId);
+        if (existing) {
+          existing.minutes += session.duration_minutes;
+          existing.sessions += 1;
+        } else {
+          locationTimeMap.set(locationId, {
+            name: locationName,
+            minutes: session.duration_minutes,
+            sessions: 1,
           });
+        }
+      }
 
-          if (checkOutIndex !== -1) {
-            const checkOut = records[checkOutIndex];
-            const checkInTime = new Date(record.timestamp).getTime();
-            const checkOutTime = new Date(checkOut.timestamp).getTime();
-            const durationMinutes = (checkOutTime - checkInTime) / (1000 * 60);
-
-            // Update summary map
-            const existing = locationTimeMap.get(locationId);
-            if (existing) {
-              existing.minutes += durationMinutes;
-              existing.sessions += 1;
-            } else {
-              locationTimeMap.set(locationId, {
-                name: locationName,
-                minutes: durationMinutes,
-                sessions: 1,
-              });
-            }
-          }
-        } else if (record.status === 'check_out') {
-          // Find the matching check_in before this check_out
-          let duration: number | undefined;
-          for (let j = i - 1; j >= 0; j--) {
-            if (records[j].status === 'check_in') {
-              const checkInTime = new Date(records[j].timestamp).getTime();
-              const checkOutTime = new Date(record.timestamp).getTime();
-              duration = (checkOutTime - checkInTime) / (1000 * 60);
-              break;
-            }
+      // Approved leave shows as its own row on each day taken from the balance
+      for (const request of leave) {
+        for (const date of request.dates) {
+          if (date < formatDate(startDate) || date > formatDate(endDate)) {
+            continue;
           }
-
           detailed.push({
-            ...record,
-            locationName,
-            duration,
+            id: `${request.id}_${date}`,
+            attendanceId: null,
+            timestamp: `${date}T00:00:00`,
+            status: 'leave',
+            locationName: request.leave_type?.name || 'Leave',
           });
         }
       }
+      // Public holidays of the user's locations; one row per holiday even if several locations observe it
+      const holidayLocations = new Map<string, string[]>();
+      for (const holiday of holidays) {
+        const key = `${holiday.date}|${holiday.name}`;
+        holidayLocations.set(key, [...(holidayLocations.get(key) || []), holiday.location_name]);
+      }
+      holidayLocations.forEach((locationNames, key) => {
+        const date = key.slice(0, 10);
+        const name = key.slice(11);
+        detailed.push({
+          id: `holiday_${key}`,
+          attendanceId: null,
+          timestamp: `${date}T00:00:00`,
+          status: 'holiday',
+          locationName: `${name} (${locationNames.join(', ')})`,
+        });
+      });
+      detailed.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
       // Convert summary map to array
       const summaryArray: LocationTimeSummary[] = [];
@@ -209,7 +227,7 @@ export default function ReportScreen() {
     } finally {
       setLoading(false);
     }
-  }, [startDate, endDate, locations, userId]);
+  }, [startDate, endDate, userId]);
 
   const adjustDate = (which: 'start' | 'end', days: number) => {
     if (which === 'start') {
@@ -243,14 +261,15 @@ export default function ReportScreen() {
 
     try {
       // Build CSV content with detailed records
-      let csv = 'Date,Time,Status,Location,Duration\n';
+      let csv = 'Date,Time,Status,Location,Duration,Break\n';
 
       for (const record of detailedRecords) {
         const date = new Date(record.timestamp).toLocaleDateString();
-        const time = formatTime(record.timestamp);
-        const status = record.status === 'check_in' ? 'Check In' : 'Check Out';
+        const time = record.status === 'leave' || record.status === 'holiday' ? '' : formatTime(record.timestamp);
+        const status = STATUS_LABELS[record.status].csv;
         const duration = record.duration ? formatDuration(record.duration) : '';
-        csv += `"${date}","${time}","${status}","${record.locationName}","${duration}"\n`;
+        const breakTime = record.breakMinutes ? formatDuration(record.breakMinutes) : '';
+        csv += `"${date}","${time}","${status}","${record.locationName}","${duration}","${breakTime}"\n`;
       }
 
       // Add summary section
@@ -387,6 +406,14 @@ export default function ReportScreen() {
               <Text style={styles.generateButtonText}>Apply Filter</Text>
             )}
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.correctionLink} onPress={() => setCorrectionPunch(null)}>
+            <Text style={styles.correctionLinkText}>Missed a punch? Request a correction</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.correctionLink} onPress={() => setShowLeave(true)}>
+            <Text style={styles.correctionLinkText}>Request leave and view balances</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Detailed Records */}
@@ -407,27 +434,45 @@ export default function ReportScreen() {
                 <Text style={[styles.tableHeaderCell, styles.durationCell]}>Duration</Text>
               </View>
 
+              {/* Tapping a punch opens a correction request for it */}
               {detailedRecords.map((record, index) => (
-                <View
+                <TouchableOpacity
                   key={record.id || index}
                   style={[
                     styles.tableRow,
                     index % 2 === 0 ? styles.tableRowEven : styles.tableRowOdd,
                   ]}
+                  disabled={!record.attendanceId}
+                  onPress={() =>
+                    record.status !== 'leave' &&
+                    record.status !== 'holiday' &&
+                    setCorrectionPunch({
+                      attendanceId: record.attendanceId!,
+                      status: record.status,
+                      timestamp: record.timestamp,
+                      locationName: record.locationName,
+                    })
+                  }
                 >
                   <Text style={[styles.tableCell, styles.dateTimeCell]}>
-                    {formatDateTime(record.timestamp)}
+                    {record.status === 'leave' || record.status === 'holiday'
+                      ? formatDay(record.timestamp)
+                      : formatDateTime(record.timestamp)}
                   </Text>
                   <View style={[styles.tableCell, styles.statusCell]}>
                     <View
                       style={[
                         styles.statusBadge,
-                        record.status === 'check_in' ? styles.statusIn : styles.statusOut,
+                        record.status === 'check_in'
+                          ? styles.statusIn
+                          : record.status === 'leave'
+                            ? styles.statusLeave
+                            : record.status === 'holiday'
+                              ? styles.statusHoliday
+                              : styles.statusOut,
                       ]}
                     >
-                      <Text style={styles.statusBadgeText}>
-                        {record.status === 'check_in' ? 'IN' : 'OUT'}
-                      </Text>
+                      <Text style={styles.statusBadgeText}>{STATUS_LABELS[record.status].badge}</Text>
                     </View>
                   </View>
                   <Text style={[styles.tableCell, styles.locationCell]} numberOfLines={1}>
@@ -436,7 +481,7 @@ export default function ReportScreen() {
                   <Text style={[styles.tableCell, styles.durationCell]}>
                     {record.duration ? formatDuration(record.duration) : '-'}
                   </Text>
-                </View>
+                </TouchableOpacity>
               ))}
             </View>
           </View>
@@ -493,6 +538,27 @@ export default function ReportScreen() {
 
         <View style={styles.bottomPadding} />
       </ScrollView>
+
+      {/* Correction request for a punch, or for a missing one */}
+      <Modal
+        animationType="slide"
+        visible={correctionPunch !== undefined}
+        onRequestClose={() => setCorrectionPunch(undefined)}
+      >
+        <CorrectionRequestScreen
+          punch={correctionPunch ?? null}
+          onClose={() => setCorrectionPunch(undefined)}
+        />
+      </Modal>
+
+      <Modal animationType="slide" visible={showLeave} onRequestClose={() => setShowLeave(false)}>
+        <LeaveScreen
+          onClose={() => {
+            setShowLeave(false);
+            generateReport();
+          }}
+        />
+      </Modal>
     </View>
   );
 }
@@ -602,6 +668,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  correctionLink: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  correctionLinkText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
   exportButton: {
     backgroundColor: '#4CAF50',
     paddingHorizontal: 12,
@@ -673,6 +747,12 @@ const styles = StyleSheet.create({
   statusOut: {
     backgroundColor: '#f44336',
   },
+  statusLeave: {
+    backgroundColor: '#9C27B0',
+  },
+  statusHoliday: {
+    backgroundColor: '#FF9800',
+  },
   statusBadgeText: {
     color: '#fff',
     fontSize: 10,
@@ -0,0 +1,615 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { api } from '../config/api';
+import { useAuth } from '../context/AuthContext';
+import { Department, DepartmentReport, Profile, Team } from '../types';
+import {
+  getDepartments,
+  createDepartment,
+  deleteDepartment,
+  getTeams,
+  createTeam,
+  setTeamMembers,
+  deleteTeam,
+  getDepartmentReport,
+} from '../services/teamsService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+const showConfirm = (title: string, message: string, onConfirm: () => void) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) {
+      onConfirm();
+    }
+  } else {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: onConfirm },
+    ]);
+  }
+};
+
+function formatHours(minutes: number): string {
+  return `${(minutes / 60).toFixed(1)}h`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+interface TeamsScreenProps {
+  onClose: () => void;
+  onTeamsChanged?: () => void;
+}
+
+export default function TeamsScreen({ onClose, onTeamsChanged }: TeamsScreenProps) {
+  const { isAdmin } = useAuth();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [employees, setEmployees] = useState<Profile[]>([]);
+  const [report, setReport] = useState<DepartmentReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reportLoading, setReportLoading] = useState(false);
+
+  const [startDate, setStartDate] = useState<Date>(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - 7);
+    return d;
+  });
+  const [endDate, setEndDate] = useState<Date>(new Date());
+
+  const [newDepartmentName, setNewDepartmentName] = useState('');
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newTeamDepartmentId, setNewTeamDepartmentId] = useState<string | null>(null);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [editingMemberIds, setEditingMemberIds] = useState<string[]>([]);
+
+  const fetchData = useCallback(async () => {
+    const [{ departments: depts }, { teams: teamList }] = await Promise.all([getDepartments(), getTeams()]);
+    setDepartments(depts);
+    setTeams(teamList);
+    setLoading(false);
+  }, []);
+
+  // Unfiltered list for picking team members, independent of the team filter on the admin screen
+  const fetchEmployees = useCallback(async () => {
+    try {
+      const data = await api.get<Profile[]>('/api/users');
+      setEmployees(data || []);
+    } catch (err) {
+      console.error('Error fetching employees:', err);
+    }
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    setReportLoading(true);
+    const { report: rows, error } = await getDepartmentReport(startDate, endDate);
+    setReportLoading(false);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setReport(rows);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchEmployees();
+    }
+  }, [isAdmin, fetchEmployees]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const adjustDate = (which: 'start' | 'end', days: number) => {
+    if (which === 'start') {
+      const newDate = new Date(startDate);
+      newDate.setDate(newDate.getDate() + days);
+      if (newDate <= endDate) {
+        setStartDate(newDate);
+      }
+    } else {
+      const newDate = new Date(endDate);
+      newDate.setDate(newDate.getDate() + days);
+      if (newDate >= startDate && newDate <= new Date()) {
+        setEndDate(newDate);
+      }
+    }
+  };
+
+  const refreshAfterChange = async () => {
+    await fetchData();
+    await fetchReport();
+    onTeamsChanged?.();
+  };
+
+  const handleCreateDepartment = async () => {
+    if (!newDepartmentName.trim()) {
+      showAlert('Error', 'Please enter a department name');
+      return;
+    }
+    const { error } = await createDepartment(newDepartmentName.trim());
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setNewDepartmentName('');
+    refreshAfterChange();
+  };
+
+  const handleDeleteDepartment = (department: Department) => {
+    showConfirm(
+      'Delete Department',
+      `Delete "${department.name}"? Its teams will be kept without a department.`,
+      async () => {
+        const { error } = await deleteDepartment(department.id);
+        if (error) {
+          showAlert('Error', error.message);
+          return;
+        }
+        refreshAfterChange();
+      }
+    );
+  };
+
+  const handleCreateTeam = async () => {
+    if (!newTeamName.trim()) {
+      showAlert('Error', 'Please enter a team name');
+      return;
+    }
+    const { error } = await createTeam(newTeamName.trim(), newTeamDepartmentId);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setNewTeamName('');
+    setNewTeamDepartmentId(null);
+    refreshAfterChange();
+  };
+
+  const handleDeleteTeam = (team: Team) => {
+    showConfirm('Delete Team', `Delete "${team.name}"? Members keep their accounts.`, async () => {
+      const { error } = await deleteTeam(team.id);
+      if (error) {
+        showAlert('Error', error.message);
+        return;
+      }
+      refreshAfterChange();
+    });
+  };
+
+  const startEditingMembers = (team: Team) => {
+    setEditingTeam(team);
+    setEditingMemberIds(team.members.map((member) => member.id));
+  };
+
+  const toggleMember = (userId: string) => {
+    setEditingMemberIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const saveMembers = async () => {
+    if (!editingTeam) return;
+    const { error } = await setTeamMembers(editingTeam.id, editingMemberIds);
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setEditingTeam(null);
+    refreshAfterChange();
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Teams & Departments</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Headcount and hours per department */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Headcount & Hours</Text>
+        <View style={styles.dateRow}>
+          <View style={styles.dateControl}>
+            <TouchableOpacity style={styles.dateArrow} onPress={() => adjustDate('start', -1)}>
+              <Text style={styles.dateArrowText}>-</Text>
+            </TouchableOpacity>
+            <Text style={styles.dateValue}>{formatDate(startDate)}</Text>
+            <TouchableOpacity style={styles.dateArrow} onPress={() => adjustDate('start', 1)}>
+              <Text style={styles.dateArrowText}>+</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.dateSeparator}>to</Text>
+          <View style={styles.dateControl}>
+            <TouchableOpacity style={styles.dateArrow} onPress={() => adjustDate('end', -1)}>
+              <Text style={styles.dateArrowText}>-</Text>
+            </TouchableOpacity>
+            <Text style={styles.dateValue}>{formatDate(endDate)}</Text>
+            <TouchableOpacity style={styles.dateArrow} onPress={() => adjustDate('end', 1)}>
+              <Text style={styles.dateArrowText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {reportLoading ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : report.length === 0 ? (
+          <Text style={styles.emptyText}>No teams yet</Text>
+        ) : (
+          report.map((department) => (
+            <View key={department.id || 'none'} style={styles.reportGroup}>
+              <View style={styles.reportRow}>
+                <Text style={styles.reportDepartment}>{department.name}</Text>
+                <Text style={styles.reportValue}>
+                  {department.headcount} people · {formatHours(department.minutes)}
+                </Text>
+              </View>
+              {department.teams.map((team) => (
+                <View key={team.id} style={styles.reportRow}>
+                  <Text style={styles.reportTeam}>{team.name}</Text>
+                  <Text style={styles.reportTeamValue}>
+                    {team.headcount} · {formatHours(team.minutes)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+      </View>
+
+      {isAdmin && (
+        <>
+          {/* Departments */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Departments</Text>
+            {departments.map((department) => (
+              <View key={department.id} style={styles.listRow}>
+                <Text style={styles.listName}>{department.name}</Text>
+                <TouchableOpacity onPress={() => handleDeleteDepartment(department)}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            <View style={styles.inlineForm}>
+              <TextInput
+                style={styles.input}
+                placeholder="New department name"
+                value={newDepartmentName}
+                onChangeText={setNewDepartmentName}
+              />
+              <TouchableOpacity style={styles.addButton} onPress={handleCreateDepartment}>
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Teams */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Teams</Text>
+            {teams.map((team) => (
+              <View key={team.id}>
+                <View style={styles.listRow}>
+                  <TouchableOpacity style={styles.listMain} onPress={() => startEditingMembers(team)}>
+                    <Text style={styles.listName}>{team.name}</Text>
+                    <Text style={styles.listDetail}>
+                      {team.department?.name || 'No department'} · {team.members.length} member(s)
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteTeam(team)}>
+                    <Text style={styles.deleteText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {editingTeam?.id === team.id && (
+                  <View style={styles.memberEditor}>
+                    {employees.map((employee) => (
+                      <TouchableOpacity
+                        key={employee.id}
+                        style={[styles.chip, editingMemberIds.includes(employee.id) && styles.chipActive]}
+                        onPress={() => toggleMember(employee.id)}
+                      >
+                        <Text
+                          style={[styles.chipText, editingMemberIds.includes(employee.id) && styles.chipTextActive]}
+                        >
+                          {employee.full_name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    <View style={styles.memberActions}>
+                      <TouchableOpacity onPress={() => setEditingTeam(null)}>
+                        <Text style={styles.linkText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.addButton} onPress={saveMembers}>
+                        <Text style={styles.addButtonText}>Save Members</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </View>
+            ))}
+
+            <Text style={styles.formLabel}>New team</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Team name"
+              value={newTeamName}
+              onChangeText={setNewTeamName}
+            />
+            <View style={styles.chips}>
+              <TouchableOpacity
+                style={[styles.chip, !newTeamDepartmentId && styles.chipActive]}
+                onPress={() => setNewTeamDepartmentId(null)}
+              >
+                <Text style={[styles.chipText, !newTeamDepartmentId && styles.chipTextActive]}>
+                  No department
+                </Text>
+              </TouchableOpacity>
+              {departments.map((department) => (
+                <TouchableOpacity
+                  key={department.id}
+                  style={[styles.chip, newTeamDepartmentId === department.id && styles.chipActive]}
+                  onPress={() => setNewTeamDepartmentId(department.id)}
+                >
+                  <Text
+                    style={[styles.chipText, newTeamDepartmentId === department.id && styles.chipTextActive]}
+                  >
+                    {department.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleCreateTeam}>
+              <Text style={styles.addButtonText}>Create Team</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 16,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  dateControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+  },
+  dateArrow: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  dateArrowText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  dateValue: {
+    fontSize: 14,
+    color: '#333',
+    minWidth: 60,
+    textAlign: 'center',
+  },
+  dateSeparator: {
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  reportGroup: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 8,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  reportDepartment: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reportValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  reportTeam: {
+    fontSize: 14,
+    color: '#666',
+    paddingLeft: 12,
+  },
+  reportTeamValue: {
+    fontSize: 13,
+    color: '#666',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listMain: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  listDetail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  deleteText: {
+    fontSize: 13,
+    color: '#f44336',
+    fontWeight: '600',
+  },
+  inlineForm: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  formLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: '#fafafa',
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  memberEditor: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  memberActions: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+});
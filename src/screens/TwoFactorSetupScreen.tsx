@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Linking,
+  Platform,
+} from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import {
+  startTotpSetup,
+  enableTotp,
+  regenerateRecoveryCodes,
+  disableTotp,
+  TotpSetup,
+} from '../services/twoFactorService';
+
+const showAlert = (title: string, message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+interface TwoFactorSetupScreenProps {
+  // Absent when enrollment is mandatory and the screen blocks the rest of the app
+  onClose?: () => void;
+}
+
+export default function TwoFactorSetupScreen({ onClose }: TwoFactorSetupScreenProps) {
+  const { user, refreshProfile, signOut } = useAuth();
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const enabled = !!user?.totp_enabled;
+
+  const handleStart = async () => {
+    setLoading(true);
+    const { setup: result, error } = await startTotpSetup();
+    setLoading(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+    setSetup(result);
+  };
+
+  const handleEnable = async () => {
+    if (!code.trim()) {
+      showAlert('Error', 'Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    const { recoveryCodes: codes, error } = await enableTotp(code.trim());
+    setLoading(false);
+
+    if (error) {
+      showAlert('Verification Failed', error.message);
+      return;
+    }
+
+    setCode('');
+    setSetup(null);
+    setRecoveryCodes(codes);
+  };
+
+  const handleRegenerate = async () => {
+    if (!code.trim()) {
+      showAlert('Error', 'Enter a current code to generate new recovery codes');
+      return;
+    }
+
+    setLoading(true);
+    const { recoveryCodes: codes, error } = await regenerateRecoveryCodes(code.trim());
+    setLoading(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setCode('');
+    setRecoveryCodes(codes);
+  };
+
+  const handleDisable = async () => {
+    if (!code.trim()) {
+      showAlert('Error', 'Enter a current code to turn off two-factor authentication');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await disableTotp(code.trim());
+    setLoading(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    setCode('');
+    await refreshProfile();
+    showAlert('Two-Factor Disabled', 'Two-factor authentication has been turned off.');
+  };
+
+  // Recovery codes are shown once; the profile is refreshed only after the user has seen them
+  const handleRecoveryCodesSaved = async () => {
+    setRecoveryCodes([]);
+    await refreshProfile();
+  };
+
+  const openInAuthenticator = () => {
+    if (setup) {
+      Linking.openURL(setup.otpauth_uri).catch(() => {
+        showAlert('No Authenticator Found', 'Enter the setup key manually in your authenticator app.');
+      });
+    }
+  };
+
+  const renderCodeInput = (placeholder: string) => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      value={code}
+      onChangeText={setCode}
+      keyboardType={Platform.OS === 'web' ? 'default' : 'number-pad'}
+      autoCapitalize="none"
+      autoCorrect={false}
+    />
+  );
+
+  const renderButton = (label: string, onPress: () => void, destructive = false) => (
+    <TouchableOpacity
+      style={[styles.button, destructive && styles.destructiveButton, loading && styles.buttonDisabled]}
+      onPress={onPress}
+      disabled={loading}
+    >
+      {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>{label}</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Two-Factor Authentication</Text>
+        {onClose ? (
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.linkText}>Close</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity onPress={signOut}>
+            <Text style={styles.linkText}>Sign Out</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!onClose && !enabled && recoveryCodes.length === 0 && (
+        <View style={styles.requiredBanner}>
+          <Text style={styles.requiredText}>
+            Admin accounts must use two-factor authentication. Set it up to continue.
+          </Text>
+        </View>
+      )}
+
+      {recoveryCodes.length > 0 ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Save Your Recovery Codes</Text>
+          <Text style={styles.hint}>
+            Each code can be used once to sign in if you lose your authenticator. They won't be shown again.
+          </Text>
+          <View style={styles.codesGrid}>
+            {recoveryCodes.map((recoveryCode) => (
+              <Text key={recoveryCode} style={styles.recoveryCode} selectable>
+                {recoveryCode}
+              </Text>
+            ))}
+          </View>
+          {renderButton("I've Saved These Codes", handleRecoveryCodesSaved)}
+        </View>
+      ) : enabled ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Enabled</Text>
+          <Text style={styles.hint}>
+            Sign-ins to this account require a code from your authenticator app.
+          </Text>
+          {renderCodeInput('Current 6-digit code')}
+          {renderButton('Generate New Recovery Codes', handleRegenerate)}
+          {!user?.totp_required && (
+            <View style={styles.spacer}>{renderButton('Turn Off', handleDisable, true)}</View>
+          )}
+        </View>
+      ) : setup ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>1. Add to your authenticator</Text>
+          <Text style={styles.hint}>
+            Open the link below on this device, or enter the setup key manually in Google Authenticator,
+            Authy, 1Password or a similar app.
+          </Text>
+          <TouchableOpacity onPress={openInAuthenticator}>
+            <Text style={styles.linkText}>Open in authenticator app</Text>
+          </TouchableOpacity>
+          <Text style={styles.label}>Setup key</Text>
+          <Text style={styles.secret} selectable>
+            {setup.secret.match(/.{1,4}/g)?.join(' ')}
+          </Text>
+          <Text style={styles.label}>Provisioning URI (for QR code generators)</Text>
+          <Text style={styles.uri} selectable>
+            {setup.otpauth_uri}
+          </Text>
+
+          <Text style={styles.cardTitle}>2. Enter the code it shows</Text>
+          {renderCodeInput('6-digit code')}
+          {renderButton('Verify and Enable', handleEnable)}
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.hint}>
+            Protect your admin account with a code from an authenticator app in addition to your password.
+            Codes work offline.
+          </Text>
+          {renderButton('Set Up Two-Factor', handleStart)}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  requiredBanner: {
+    backgroundColor: '#fff3e0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  requiredText: {
+    color: '#e65100',
+    fontSize: 14,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  secret: {
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#333',
+  },
+  uri: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 14,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: '#fafafa',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  destructiveButton: {
+    backgroundColor: '#f44336',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  spacer: {
+    marginTop: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  recoveryCode: {
+    width: '47%',
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#f5f5f5',
+    padding: 8,
+    borderRadius: 6,
+    textAlign: 'center',
+  },
+});
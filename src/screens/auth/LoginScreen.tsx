@@ -11,6 +11,7 @@ import {
   Platform,
 } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
+import { ApiError } from '../../config/api';
 
 const showAlert = (title: string, message: string) => {
   if (Platform.OS === 'web') {
@@ -20,10 +21,34 @@ const showAlert = (title: string, message: string) => {
   }
 };
 
+type Mode = 'login' | 'totp' | 'forgot' | 'reset';
+
+// Turn lockout/throttle error codes into a message with the time the user can retry
+function describeLoginError(error: Error): string {
+  if (!(error instanceof ApiError) || !error.details.locked_until) {
+    return error.message;
+  }
+
+  const lockedUntil = new Date(error.details.locked_until);
+  if (error.code === 'ACCOUNT_LOCKED') {
+    return `Too many failed attempts. Your account is locked until ${lockedUntil.toLocaleTimeString()}. Contact your administrator to unlock it sooner.`;
+  }
+  if (error.code === 'LOGIN_THROTTLED') {
+    const seconds = error.details.retry_after_seconds;
+    return seconds && seconds < 60
+      ? `Too many attempts. Please wait ${seconds} second${seconds === 1 ? '' : 's'} and try again.`
+      : `Too many attempts. Please try again after ${lockedUntil.toLocaleTimeString()}.`;
+  }
+  return error.message;
+}
+
 export default function LoginScreen() {
-  const { signIn } = useAuth();
+  const { signIn, verifyTwoFactor, forgotPassword, resetPassword } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [resetCode, setResetCode] = useState('');
+  const [totpCode, setTotpCode] = useState('');
   const [loading, setLoading] = useState(false);
 
   const handleLogin = async () => {
@@ -38,14 +63,90 @@ export default function LoginScreen() {
     }
 
     setLoading(true);
-    const { error } = await signIn(email.trim(), password);
+    const { error, mfaRequired } = await signIn(email.trim(), password);
+    setLoading(false);
+
+    if (error) {
+      showAlert('Login Failed', describeLoginError(error));
+    } else if (mfaRequired) {
+      setPassword('');
+      setTotpCode('');
+      setMode('totp');
+    }
+  };
+
+  const handleVerifyTotp = async () => {
+    if (!totpCode.trim()) {
+      showAlert('Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await verifyTwoFactor(totpCode.trim());
     setLoading(false);
 
     if (error) {
-      showAlert('Login Failed', error.message);
+      showAlert('Verification Failed', describeLoginError(error));
     }
   };
 
+  const handleForgotPassword = async () => {
+    if (!email.trim()) {
+      showAlert('Error', 'Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await forgotPassword(email.trim().toLowerCase());
+    setLoading(false);
+
+    if (error) {
+      showAlert('Error', error.message);
+      return;
+    }
+
+    showAlert('Check Your Email', 'If an account exists for that email, we sent a code to reset your password.');
+    setMode('reset');
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetCode.trim()) {
+      showAlert('Error', 'Please enter the code from your email');
+      return;
+    }
+
+    if (!password || password.length < 6) {
+      showAlert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await resetPassword(resetCode.trim(), password);
+    setLoading(false);
+
+    if (error) {
+      showAlert('Reset Failed', error.message);
+      return;
+    }
+
+    showAlert('Password Set', 'Your password has been set. You can now sign in.');
+    setResetCode('');
+    setPassword('');
+    setMode('login');
+  };
+
+  const switchMode = (nextMode: Mode) => {
+    setPassword('');
+    setMode(nextMode);
+  };
+
+  const subtitle = {
+    login: 'Sign in to continue',
+    totp: 'Two-factor authentication',
+    forgot: 'Reset your password',
+    reset: 'Choose a new password',
+  }[mode];
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -54,42 +155,154 @@ export default function LoginScreen() {
       <View style={styles.content}>
         <View style={styles.header}>
           <Text style={styles.title}>Geo Attendance</Text>
-          <Text style={styles.subtitle}>Sign in to continue</Text>
+          <Text style={styles.subtitle}>{subtitle}</Text>
         </View>
 
-        <View style={styles.form}>
-          <Text style={styles.label}>Email</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="Enter your email"
-            value={email}
-            onChangeText={setEmail}
-            keyboardType="email-address"
-            autoCapitalize="none"
-            autoCorrect={false}
-          />
-
-          <Text style={styles.label}>Password</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="Enter your password"
-            value={password}
-            onChangeText={setPassword}
-            secureTextEntry
-          />
-
-          <TouchableOpacity
-            style={[styles.button, loading && styles.buttonDisabled]}
-            onPress={handleLogin}
-            disabled={loading}
-          >
-            {loading ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
-              <Text style={styles.buttonText}>Sign In</Text>
-            )}
-          </TouchableOpacity>
-        </View>
+        {mode === 'login' && (
+          <View style={styles.form}>
+            <Text style={styles.label}>Email</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your email"
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.label}>Password</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your password"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+            />
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleLogin}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Sign In</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('forgot')}>
+              <Text style={styles.linkText}>Forgot password?</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('reset')}>
+              <Text style={styles.linkText}>Have an invitation code?</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {mode === 'totp' && (
+          <View style={styles.form}>
+            <Text style={styles.label}>Authentication Code</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="6-digit code or recovery code"
+              value={totpCode}
+              onChangeText={setTotpCode}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleVerifyTotp}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('login')}>
+              <Text style={styles.linkText}>Back to sign in</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {mode === 'forgot' && (
+          <View style={styles.form}>
+            <Text style={styles.label}>Email</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your email"
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleForgotPassword}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Send Reset Code</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('reset')}>
+              <Text style={styles.linkText}>I already have a code</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('login')}>
+              <Text style={styles.linkText}>Back to sign in</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {mode === 'reset' && (
+          <View style={styles.form}>
+            <Text style={styles.label}>Code</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+              value={resetCode}
+              onChangeText={setResetCode}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.label}>New Password</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="At least 6 characters"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+            />
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleResetPassword}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Set Password</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryLink} onPress={() => switchMode('login')}>
+              <Text style={styles.linkText}>Back to sign in</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         <View style={styles.footer}>
           <Text style={styles.footerText}>Contact your administrator for account access</Text>
@@ -173,6 +386,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  secondaryLink: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
   linkText: {
     fontSize: 14,
     color: '#007AFF',
@@ -1,11 +1,13 @@
-import { api } from '../config/api';
-import { AttendanceRecord, AttendanceStatus, Coordinates } from '../types';
+import { api, ApiError } from '../config/api';
+import { AttendanceRecord, AttendanceStatus, AutoCheckOut, Coordinates, OpenSession, PositionSignals } from '../types';
 
 export async function recordAttendance(
   _userId: string, // kept for API compatibility, server uses JWT user
   status: AttendanceStatus,
   coordinates: Coordinates,
-  locationId?: string
+  locationId?: string,
+  clientId?: string, // lets the server dedupe a punch that is later replayed from the offline queue
+  signals?: PositionSignals
 ): Promise<{ data: AttendanceRecord | null; error: Error | null }> {
   try {
     const record = await api.post<AttendanceRecord>('/api/attendance', {
@@ -13,6 +15,42 @@ export async function recordAttendance(
       latitude: coordinates.latitude,
       longitude: coordinates.longitude,
       location_id: locationId,
+      client_id: clientId,
+      ...signals,
+    }, { idempotencyKey: clientId });
+    return { data: record, error: null };
+  } catch (error: any) {
+    // Keep ApiError so callers can react to codes like SESSION_ALREADY_OPEN
+    return { data: null, error: error instanceof ApiError ? error : new Error(error.message) };
+  }
+}
+
+export async function getOpenSession(): Promise<{ session: OpenSession | null; error: Error | null }> {
+  try {
+    const session = await api.get<OpenSession | null>('/api/attendance/session');
+    return { session, error: null };
+  } catch (error: any) {
+    return { session: null, error: new Error(error.message) };
+  }
+}
+
+export async function getPendingAutoCheckOuts(): Promise<{ autoCheckOuts: AutoCheckOut[]; error: Error | null }> {
+  try {
+    const autoCheckOuts = await api.get<AutoCheckOut[]>('/api/attendance/auto');
+    return { autoCheckOuts, error: null };
+  } catch (error: any) {
+    return { autoCheckOuts: [], error: new Error(error.message) };
+  }
+}
+
+// Without a timestamp the automatic time is confirmed as is; a timestamp moves it earlier
+export async function confirmAutoCheckOut(
+  id: string,
+  timestamp?: Date
+): Promise<{ data: AttendanceRecord | null; error: Error | null }> {
+  try {
+    const record = await api.post<AttendanceRecord>(`/api/attendance/${id}/confirm`, {
+      timestamp: timestamp?.toISOString(),
     });
     return { data: record, error: null };
   } catch (error: any) {
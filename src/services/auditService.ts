@@ -0,0 +1,37 @@
+import { api } from '../config/api';
+import { AuditEvent } from '../types';
+
+export interface AuditFilters {
+  actor_id?: string;
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  start?: string; // ISO timestamp
+  end?: string;
+}
+
+// Newest events first; pass the returned nextCursor to load the following page
+export async function getAuditEvents(
+  filters: AuditFilters = {},
+  cursor?: string | null
+): Promise<{ events: AuditEvent[]; nextCursor: string | null; error: Error | null }> {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) {
+        params.append(key, value);
+      }
+    });
+    if (cursor) {
+      params.append('cursor', cursor);
+    }
+
+    const query = params.toString();
+    const response = await api.get<{ events: AuditEvent[]; next_cursor: string | null }>(
+      `/api/audit${query ? `?${query}` : ''}`
+    );
+    return { events: response.events, nextCursor: response.next_cursor, error: null };
+  } catch (error: any) {
+    return { events: [], nextCursor: null, error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,48 @@
+import { api } from '../config/api';
+import { AttendanceStatus, CorrectionRequest, CorrectionStatus, CorrectionType } from '../types';
+
+export interface CorrectionInput {
+  type: CorrectionType;
+  attendance_id?: string;
+  punch_status?: AttendanceStatus;
+  timestamp?: string;
+  location_id?: string;
+  reason: string;
+}
+
+// Employees get their own requests, reviewers those of the employees they manage
+export async function getCorrections(
+  status?: CorrectionStatus
+): Promise<{ corrections: CorrectionRequest[]; error: Error | null }> {
+  try {
+    const query = status ? `?status=${status}` : '';
+    const corrections = await api.get<CorrectionRequest[]>(`/api/corrections${query}`);
+    return { corrections, error: null };
+  } catch (error: any) {
+    return { corrections: [], error: new Error(error.message) };
+  }
+}
+
+export async function requestCorrection(
+  input: CorrectionInput
+): Promise<{ data: CorrectionRequest | null; error: Error | null }> {
+  try {
+    const correction = await api.post<CorrectionRequest>('/api/corrections', input);
+    return { data: correction, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function reviewCorrection(
+  id: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ data: CorrectionRequest | null; error: Error | null }> {
+  try {
+    const correction = await api.post<CorrectionRequest>(`/api/corrections/${id}/${decision}`, { note });
+    return { data: correction, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,49 @@
+import { api } from '../config/api';
+import { AttendanceException } from '../types';
+
+// Local calendar date as YYYY-MM-DD; exception dates are days, not instants
+function toDateParam(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export async function getExceptions(
+  startDate: Date,
+  endDate: Date,
+  filters: { userId?: string; locationId?: string } = {}
+): Promise<{ exceptions: AttendanceException[]; error: Error | null }> {
+  try {
+    const params = new URLSearchParams();
+    params.append('start', toDateParam(startDate));
+    params.append('end', toDateParam(endDate));
+    if (filters.userId) params.append('user_id', filters.userId);
+    if (filters.locationId) params.append('location_id', filters.locationId);
+
+    const exceptions = await api.get<AttendanceException[]>(`/api/exceptions?${params.toString()}`);
+    return { exceptions, error: null };
+  } catch (error: any) {
+    return { exceptions: [], error: new Error(error.message) };
+  }
+}
+
+// Exception count per user id in the date range
+export async function getExceptionCounts(
+  startDate: Date,
+  endDate: Date
+): Promise<{ counts: Record<string, number>; error: Error | null }> {
+  try {
+    const params = new URLSearchParams();
+    params.append('start', toDateParam(startDate));
+    params.append('end', toDateParam(endDate));
+
+    const rows = await api.get<{ user_id: string; count: number }[]>(`/api/exceptions/counts?${params.toString()}`);
+    const counts: Record<string, number> = {};
+    rows.forEach((row) => {
+      counts[row.user_id] = row.count;
+    });
+    return { counts, error: null };
+  } catch (error: any) {
+    return { counts: {}, error: new Error(error.message) };
+  }
+}
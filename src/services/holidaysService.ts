@@ -0,0 +1,95 @@
+import { api } from '../config/api';
+import { Holiday, HolidayCalendar, HolidayImportResult, ObservedHoliday } from '../types';
+
+export async function getHolidayCalendars(): Promise<{ calendars: HolidayCalendar[]; error: Error | null }> {
+  try {
+    const calendars = await api.get<HolidayCalendar[]>('/api/holidays');
+    return { calendars, error: null };
+  } catch (error: any) {
+    return { calendars: [], error: new Error(error.message) };
+  }
+}
+
+export async function createHolidayCalendar(
+  name: string
+): Promise<{ data: HolidayCalendar | null; error: Error | null }> {
+  try {
+    const calendar = await api.post<HolidayCalendar>('/api/holidays', { name });
+    return { data: calendar, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function deleteHolidayCalendar(id: string): Promise<{ error: Error | null }> {
+  try {
+    await api.delete(`/api/holidays/${id}`);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
+
+export async function getHolidays(
+  calendarId: string,
+  year?: number
+): Promise<{ holidays: Holiday[]; error: Error | null }> {
+  try {
+    const holidays = await api.get<Holiday[]>(`/api/holidays/${calendarId}/holidays${year ? `?year=${year}` : ''}`);
+    return { holidays, error: null };
+  } catch (error: any) {
+    return { holidays: [], error: new Error(error.message) };
+  }
+}
+
+export async function addHoliday(
+  calendarId: string,
+  date: string,
+  name: string
+): Promise<{ data: Holiday | null; error: Error | null }> {
+  try {
+    const holiday = await api.post<Holiday>(`/api/holidays/${calendarId}/holidays`, { date, name });
+    return { data: holiday, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function deleteHoliday(calendarId: string, holidayId: string): Promise<{ error: Error | null }> {
+  try {
+    await api.delete(`/api/holidays/${calendarId}/holidays/${holidayId}`);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
+
+// `ics` is the content of an iCalendar file; dryRun only reports what would be imported
+export async function importHolidays(
+  calendarId: string,
+  ics: string,
+  dryRun = false
+): Promise<{ data: HolidayImportResult | null; error: Error | null }> {
+  try {
+    const result = await api.post<HolidayImportResult>(
+      `/api/holidays/${calendarId}/import${dryRun ? '?dry_run=true' : ''}`,
+      { ics }
+    );
+    return { data: result, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+// Holidays observed at the signed-in user's locations, for a YYYY-MM-DD range
+export async function getObservedHolidays(
+  start: string,
+  end: string
+): Promise<{ holidays: ObservedHoliday[]; error: Error | null }> {
+  try {
+    const holidays = await api.get<ObservedHoliday[]>(`/api/holidays/observed?start=${start}&end=${end}`);
+    return { holidays, error: null };
+  } catch (error: any) {
+    return { holidays: [], error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,109 @@
+import { api } from '../config/api';
+import { LeaveBalance, LeaveRequest, LeaveStatus, LeaveType } from '../types';
+
+export interface LeaveRequestInput {
+  leave_type_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;
+  reason?: string;
+}
+
+export interface LeaveRequestFilters {
+  status?: LeaveStatus;
+  user_id?: string;
+  start?: string; // YYYY-MM-DD, requests overlapping start..end
+  end?: string;
+}
+
+export async function getLeaveTypes(): Promise<{ leaveTypes: LeaveType[]; error: Error | null }> {
+  try {
+    const leaveTypes = await api.get<LeaveType[]>('/api/leave/types');
+    return { leaveTypes, error: null };
+  } catch (error: any) {
+    return { leaveTypes: [], error: new Error(error.message) };
+  }
+}
+
+export async function createLeaveType(
+  input: Omit<LeaveType, 'id'>
+): Promise<{ data: LeaveType | null; error: Error | null }> {
+  try {
+    const leaveType = await api.post<LeaveType>('/api/leave/types', input);
+    return { data: leaveType, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function deleteLeaveType(id: string): Promise<{ error: Error | null }> {
+  try {
+    await api.delete(`/api/leave/types/${id}`);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
+
+// Employees get their own requests, reviewers those of the employees they manage
+export async function getLeaveRequests(
+  filters: LeaveRequestFilters = {}
+): Promise<{ requests: LeaveRequest[]; error: Error | null }> {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) {
+        params.append(key, value);
+      }
+    });
+
+    const query = params.toString();
+    const requests = await api.get<LeaveRequest[]>(`/api/leave/requests${query ? `?${query}` : ''}`);
+    return { requests, error: null };
+  } catch (error: any) {
+    return { requests: [], error: new Error(error.message) };
+  }
+}
+
+export async function requestLeave(
+  input: LeaveRequestInput
+): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    const request = await api.post<LeaveRequest>('/api/leave/requests', input);
+    return { data: request, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function cancelLeave(id: string): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    const request = await api.post<LeaveRequest>(`/api/leave/requests/${id}/cancel`);
+    return { data: request, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function reviewLeave(
+  id: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ data: LeaveRequest | null; error: Error | null }> {
+  try {
+    const request = await api.post<LeaveRequest>(`/api/leave/requests/${id}/${decision}`, { note });
+    return { data: request, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function getLeaveBalances(
+  year?: number
+): Promise<{ balances: LeaveBalance[]; error: Error | null }> {
+  try {
+    const balances = await api.get<LeaveBalance[]>(`/api/leave/balances${year ? `?year=${year}` : ''}`);
+    return { balances, error: null };
+  } catch (error: any) {
+    return { balances: [], error: new Error(error.message) };
+  }
+}
@@ -1,28 +1,49 @@
 import { api } from '../config/api';
-import { Coordinates, Location } from '../types';
+import { AutoCheckOutPolicy, Coordinates, Location, LocationBoundary } from '../types';
+
+export interface AutoCheckOutSettings {
+  auto_check_out: AutoCheckOutPolicy;
+  auto_check_out_minute: number | null;
+  auto_check_out_hours: number | null;
+}
+
+// Attendance rules of a location, sent along with its geometry
+export type LocationSettings = AutoCheckOutSettings & {
+  paid_break_minutes: number;
+  holiday_calendar_id: string | null;
+};
 
 export async function createLocation(
   name: string,
-  coordinates: Coordinates,
-  radiusMeters: number,
-  _createdBy: string // kept for API compatibility, server uses JWT user
+  coordinates: Coordinates | null,
+  radiusMeters: number | null,
+  _createdBy: string, // kept for API compatibility, server uses JWT user
+  boundary?: LocationBoundary | null, // polygon locations: server derives center and radius
+  settings?: LocationSettings
 ): Promise<{ data: Location | null; error: Error | null }> {
   try {
-    const location = await api.post<Location>('/api/locations', {
-      name,
-      latitude: coordinates.latitude,
-      longitude: coordinates.longitude,
-      radius_meters: radiusMeters,
-    });
+    const location = await api.post<Location>('/api/locations', boundary
+      ? { name, boundary, ...settings }
+      : {
+          name,
+          latitude: coordinates?.latitude,
+          longitude: coordinates?.longitude,
+          radius_meters: radiusMeters,
+          ...settings,
+        });
     return { data: location, error: null };
   } catch (error: any) {
     return { data: null, error: new Error(error.message) };
   }
 }
 
-export async function getLocations(): Promise<{ locations: Location[]; error: Error | null }> {
+// Archived locations are only included on request (admins only)
+export async function getLocations(
+  options: { includeArchived?: boolean } = {}
+): Promise<{ locations: Location[]; error: Error | null }> {
   try {
-    const locations = await api.get<Location[]>('/api/locations');
+    const query = options.includeArchived ? '?include_archived=true' : '';
+    const locations = await api.get<Location[]>(`/api/locations${query}`);
     return { locations, error: null };
   } catch (error: any) {
     return { locations: [], error: new Error(error.message) };
@@ -31,11 +52,12 @@ export async function getLocations(): Promise<{ locations: Location[]; error: Er
 
 export async function updateLocation(
   locationId: string,
-  updates: {
+  updates: Partial<LocationSettings> & {
     name?: string;
     latitude?: number;
     longitude?: number;
     radius_meters?: number;
+    boundary?: LocationBoundary | null;
   }
 ): Promise<{ data: Location | null; error: Error | null }> {
   try {
@@ -46,7 +68,8 @@ export async function updateLocation(
   }
 }
 
-export async function deleteLocationById(locationId: string): Promise<{ error: Error | null }> {
+// Archived locations take no new check-ins but stay in historical records
+export async function archiveLocationById(locationId: string): Promise<{ error: Error | null }> {
   try {
     await api.delete(`/api/locations/${locationId}`);
     return { error: null };
@@ -54,3 +77,12 @@ export async function deleteLocationById(locationId: string): Promise<{ error: E
     return { error: new Error(error.message) };
   }
 }
+
+export async function restoreLocationById(locationId: string): Promise<{ data: Location | null; error: Error | null }> {
+  try {
+    const location = await api.post<Location>(`/api/locations/${locationId}/restore`);
+    return { data: location, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,105 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from '../config/api';
+import { AttendanceRecord, QueuedPunch } from '../types';
+
+const QUEUE_KEY = 'geo_attendance_punch_queue';
+
+// Synced/rejected punches stay visible for a day, then get pruned
+const KEEP_SETTLED_MS = 24 * 60 * 60 * 1000;
+
+interface BatchResult {
+  client_id: string | null;
+  result: 'synced' | 'duplicate' | 'rejected';
+  code?: string;
+  error?: string;
+  record?: AttendanceRecord;
+}
+
+async function readQueue(): Promise<QueuedPunch[]> {
+  try {
+    const raw = Platform.OS === 'web'
+      ? localStorage.getItem(QUEUE_KEY)
+      : await AsyncStorage.getItem(QUEUE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(queue: QueuedPunch[]): Promise<void> {
+  try {
+    const raw = JSON.stringify(queue);
+    if (Platform.OS === 'web') {
+      localStorage.setItem(QUEUE_KEY, raw);
+    } else {
+      await AsyncStorage.setItem(QUEUE_KEY, raw);
+    }
+  } catch (error) {
+    console.error('Error saving punch queue:', error);
+  }
+}
+
+export async function getQueuedPunches(): Promise<QueuedPunch[]> {
+  const queue = await readQueue();
+  const cutoff = Date.now() - KEEP_SETTLED_MS;
+  const pruned = queue.filter(
+    (punch) => punch.sync_state === 'pending' || new Date(punch.timestamp).getTime() >= cutoff
+  );
+  if (pruned.length !== queue.length) {
+    await writeQueue(pruned);
+  }
+  return pruned;
+}
+
+export async function enqueuePunch(
+  punch: Omit<QueuedPunch, 'sync_state' | 'error'>
+): Promise<QueuedPunch[]> {
+  const queue = await readQueue();
+  queue.push({ ...punch, sync_state: 'pending' });
+  await writeQueue(queue);
+  return queue;
+}
+
+/**
+ * Sends all pending punches to the batch endpoint and records the outcome of each.
+ * Punches stay pending when the server can't be reached.
+ */
+export async function syncQueuedPunches(): Promise<{ queue: QueuedPunch[]; error: Error | null }> {
+  const queue = await getQueuedPunches();
+  const pending = queue.filter((punch) => punch.sync_state === 'pending');
+
+  if (pending.length === 0) {
+    return { queue, error: null };
+  }
+
+  try {
+    const { results } = await api.post<{ results: BatchResult[] }>('/api/attendance/batch', {
+      punches: pending.map(({ location_name, sync_state, error, ...punch }) => punch),
+    });
+
+    const byClientId = new Map(results.map((result) => [result.client_id, result]));
+    const updated = queue.map((punch): QueuedPunch => {
+      const result = byClientId.get(punch.client_id);
+      if (!result || punch.sync_state !== 'pending') {
+        return punch;
+      }
+      if (result.result === 'rejected') {
+        return { ...punch, sync_state: 'rejected', error: result.error };
+      }
+      return { ...punch, sync_state: 'synced', error: undefined };
+    });
+
+    await writeQueue(updated);
+    return { queue: updated, error: null };
+  } catch (error: any) {
+    return { queue, error: new Error(error.message) };
+  }
+}
+
+export async function dismissQueuedPunch(clientId: string): Promise<QueuedPunch[]> {
+  const queue = await readQueue();
+  const updated = queue.filter((punch) => punch.client_id !== clientId);
+  await writeQueue(updated);
+  return updated;
+}
@@ -0,0 +1,29 @@
+import { api } from '../config/api';
+import { Organization } from '../types';
+
+export interface NewOrganizationAdmin {
+  email: string;
+  full_name: string;
+  password?: string; // when absent the admin is emailed an invitation
+}
+
+export async function getOrganizations(): Promise<{ organizations: Organization[]; error: Error | null }> {
+  try {
+    const organizations = await api.get<Organization[]>('/api/organizations');
+    return { organizations, error: null };
+  } catch (error: any) {
+    return { organizations: [], error: new Error(error.message) };
+  }
+}
+
+export async function createOrganization(
+  name: string,
+  admin: NewOrganizationAdmin
+): Promise<{ data: Organization | null; error: Error | null }> {
+  try {
+    const data = await api.post<Organization>('/api/organizations', { name, admin });
+    return { data, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
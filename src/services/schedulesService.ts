@@ -0,0 +1,23 @@
+import { api } from '../config/api';
+import { Shift, Roster } from '../types';
+
+// Current user's current or next shift within the coming week
+export async function getNextShift(): Promise<{ shift: Shift | null; error: Error | null }> {
+  try {
+    const shift = await api.get<Shift | null>('/api/schedules/next');
+    return { shift, error: null };
+  } catch (error: any) {
+    return { shift: null, error: new Error(error.message) };
+  }
+}
+
+// Expected vs. actual roster for a day (today in the organization's time zone by default)
+export async function getRoster(date?: string): Promise<{ roster: Roster | null; error: Error | null }> {
+  try {
+    const query = date ? `?date=${encodeURIComponent(date)}` : '';
+    const roster = await api.get<Roster>(`/api/schedules/roster${query}`);
+    return { roster, error: null };
+  } catch (error: any) {
+    return { roster: null, error: new Error(error.message) };
+  }
+}
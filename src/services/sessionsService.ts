@@ -0,0 +1,27 @@
+import { api } from '../config/api';
+import { AttendanceSession } from '../types';
+
+export async function getSessions(
+  startDate: Date,
+  endDate: Date,
+  filters: { locationId?: string; userId?: string } = {}
+): Promise<{ sessions: AttendanceSession[]; error: Error | null }> {
+  const start = new Date(startDate);
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(endDate);
+  end.setHours(23, 59, 59, 999);
+
+  try {
+    const params = new URLSearchParams();
+    params.append('start', start.toISOString());
+    params.append('end', end.toISOString());
+    if (filters.locationId) params.append('location_id', filters.locationId);
+    if (filters.userId) params.append('user_id', filters.userId);
+
+    const sessions = await api.get<AttendanceSession[]>(`/api/sessions?${params.toString()}`);
+    return { sessions, error: null };
+  } catch (error: any) {
+    return { sessions: [], error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,93 @@
+import { api } from '../config/api';
+import { Department, Team, DepartmentReport } from '../types';
+
+export async function getDepartments(): Promise<{ departments: Department[]; error: Error | null }> {
+  try {
+    const departments = await api.get<Department[]>('/api/departments');
+    return { departments, error: null };
+  } catch (error: any) {
+    return { departments: [], error: new Error(error.message) };
+  }
+}
+
+export async function createDepartment(name: string): Promise<{ data: Department | null; error: Error | null }> {
+  try {
+    const data = await api.post<Department>('/api/departments', { name });
+    return { data, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function deleteDepartment(id: string): Promise<{ error: Error | null }> {
+  try {
+    await api.delete(`/api/departments/${id}`);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
+
+export async function getTeams(): Promise<{ teams: Team[]; error: Error | null }> {
+  try {
+    const teams = await api.get<Team[]>('/api/teams');
+    return { teams, error: null };
+  } catch (error: any) {
+    return { teams: [], error: new Error(error.message) };
+  }
+}
+
+export async function createTeam(
+  name: string,
+  departmentId: string | null
+): Promise<{ data: Team | null; error: Error | null }> {
+  try {
+    const data = await api.post<Team>('/api/teams', { name, department_id: departmentId });
+    return { data, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function setTeamMembers(
+  teamId: string,
+  userIds: string[]
+): Promise<{ data: Team | null; error: Error | null }> {
+  try {
+    const data = await api.put<Team>(`/api/teams/${teamId}/members`, { user_ids: userIds });
+    return { data, error: null };
+  } catch (error: any) {
+    return { data: null, error: new Error(error.message) };
+  }
+}
+
+export async function deleteTeam(id: string): Promise<{ error: Error | null }> {
+  try {
+    await api.delete(`/api/teams/${id}`);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
+
+export async function getDepartmentReport(
+  startDate: Date,
+  endDate: Date
+): Promise<{ report: DepartmentReport[]; error: Error | null }> {
+  const start = new Date(startDate);
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(endDate);
+  end.setHours(23, 59, 59, 999);
+
+  try {
+    const params = new URLSearchParams();
+    params.append('start', start.toISOString());
+    params.append('end', end.toISOString());
+
+    const report = await api.get<DepartmentReport[]>(`/api/reports/departments?${params.toString()}`);
+    return { report, error: null };
+  } catch (error: any) {
+    return { report: [], error: new Error(error.message) };
+  }
+}
@@ -0,0 +1,56 @@
+import { api } from '../config/api';
+import { Profile } from '../types';
+
+export interface TotpSetup {
+  secret: string;
+  otpauth_uri: string;
+}
+
+export async function startTotpSetup(): Promise<{ setup: TotpSetup | null; error: Error | null }> {
+  try {
+    const setup = await api.post<TotpSetup>('/api/auth/totp/setup');
+    return { setup, error: null };
+  } catch (error: any) {
+    return { setup: null, error: new Error(error.message) };
+  }
+}
+
+// Enabling 2FA signs out every other session and changes the access token's claims,
+// so the new session replaces the stored tokens
+export async function enableTotp(
+  code: string
+): Promise<{ recoveryCodes: string[]; error: Error | null }> {
+  try {
+    const result = await api.post<{ recovery_codes: string[]; token: string; refresh_token: string; user: Profile }>(
+      '/api/auth/totp/enable',
+      { code }
+    );
+    await api.setToken(result.token);
+    await api.setRefreshToken(result.refresh_token);
+    return { recoveryCodes: result.recovery_codes, error: null };
+  } catch (error: any) {
+    return { recoveryCodes: [], error: new Error(error.message) };
+  }
+}
+
+export async function regenerateRecoveryCodes(
+  code: string
+): Promise<{ recoveryCodes: string[]; error: Error | null }> {
+  try {
+    const result = await api.post<{ recovery_codes: string[] }>('/api/auth/totp/recovery-codes', { code });
+    return { recoveryCodes: result.recovery_codes, error: null };
+  } catch (error: any) {
+    return { recoveryCodes: [], error: new Error(error.message) };
+  }
+}
+
+export async function disableTotp(code: string): Promise<{ error: Error | null }> {
+  try {
+    const result = await api.post<{ token: string; refresh_token: string; user: Profile }>('/api/auth/totp/disable', { code });
+    await api.setToken(result.token);
+    await api.setRefreshToken(result.refresh_token);
+    return { error: null };
+  } catch (error: any) {
+    return { error: new Error(error.message) };
+  }
+}
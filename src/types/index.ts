@@ -3,13 +3,21 @@ export interface Coordinates {
   longitude: number;
 }
 
+// Extra position metadata captured with each punch for spoofing checks
+export interface PositionSignals {
+  accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  is_mocked: boolean;
+}
+
 export interface GeoFence {
   center: Coordinates;
   radiusMeters: number;
   name: string;
 }
 
-export type AttendanceStatus = 'check_in' | 'check_out';
+export type AttendanceStatus = 'check_in' | 'check_out' | 'break_start' | 'break_end';
 
 export interface AttendanceRecord {
   id?: string;
@@ -18,9 +26,216 @@ export interface AttendanceRecord {
   status: AttendanceStatus;
   latitude: number;
   longitude: number;
+  accuracy?: number | null;
+  altitude?: number | null;
+  speed?: number | null;
+  is_mocked?: boolean;
+  suspicious?: boolean;
+  suspicion_reasons?: string[];
+  auto?: boolean; // check_out written by the server's auto check-out job
+  auto_confirmed_at?: string | null;
   created_at?: string;
 }
 
+// An auto check-out waiting for the employee to confirm or correct it
+export interface AutoCheckOut extends AttendanceRecord {
+  id: string;
+  location: Location | null;
+  checkOutSession: { started_at: string } | null;
+}
+
+export interface OpenSession {
+  check_in_id: string;
+  started_at: string;
+  break_started_at: string | null; // set while on a break
+  break_minutes: number;
+  location_id: string | null;
+  location: Location | null;
+}
+
+export type PunchSyncState = 'pending' | 'synced' | 'rejected';
+
+export interface QueuedPunch extends Partial<PositionSignals> {
+  client_id: string;
+  status: AttendanceStatus;
+  latitude: number;
+  longitude: number;
+  location_id: string;
+  location_name: string;
+  timestamp: string; // device time when the punch was captured
+  sync_state: PunchSyncState;
+  error?: string;
+}
+
+export interface AttendanceSession {
+  id: string;
+  user_id: string;
+  location_id: string | null;
+  check_in_id: string;
+  check_out_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  break_minutes: number;
+  duration_minutes: number | null; // worked time, unpaid breaks excluded
+  location: Location | null;
+  user?: Pick<Profile, 'id' | 'email' | 'full_name'>;
+}
+
+export type ShiftStatus = 'upcoming' | 'on_time' | 'late' | 'early_leave' | 'absent' | 'on_leave' | 'holiday';
+
+// One occurrence of a schedule, classified against the sessions recorded for it
+export interface Shift {
+  schedule_id: string;
+  user_id: string;
+  location_id: string;
+  date: string; // YYYY-MM-DD in the organization's time zone
+  start: string;
+  end: string;
+  status: ShiftStatus;
+  session_ids: string[];
+  actual_start: string | null;
+  actual_end: string | null;
+  late_minutes: number;
+  early_leave_minutes: number;
+  location?: { id: string; name: string } | null;
+  user?: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+}
+
+export interface Roster {
+  date: string;
+  timezone: string;
+  shifts: Shift[];
+  unscheduled: (Pick<AttendanceSession, 'id' | 'user_id' | 'location_id' | 'started_at' | 'ended_at'> & {
+    user: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+    location: { id: string; name: string } | null;
+  })[];
+}
+
+export type CorrectionType = 'add_punch' | 'change_time' | 'change_location';
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// An employee's request to fix a punch; approval adds a new record instead of editing the original
+export interface CorrectionRequest {
+  id: string;
+  user_id: string;
+  type: CorrectionType;
+  attendance_id: string | null; // record to change; null for add_punch
+  punch_status: AttendanceStatus | null; // add_punch only
+  timestamp: string | null; // add_punch and change_time
+  location_id: string | null; // add_punch and change_location
+  reason: string;
+  status: CorrectionStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  user?: Pick<Profile, 'id' | 'email' | 'full_name'>;
+  reviewer?: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+  attendance?: (AttendanceRecord & { location: { id: string; name: string } | null }) | null;
+  location?: { id: string; name: string } | null;
+}
+
+export interface LeaveType {
+  id: string;
+  name: string;
+  paid: boolean;
+  annual_days: number | null; // null for types without a balance, e.g. unpaid leave
+}
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  user_id: string;
+  leave_type_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;
+  dates: string[]; // working days in the range, the ones taken from the balance
+  reason: string | null;
+  status: LeaveStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  leave_type?: Pick<LeaveType, 'id' | 'name' | 'paid'>;
+  user?: Pick<Profile, 'id' | 'email' | 'full_name'>;
+  reviewer?: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+}
+
+export interface LeaveBalance {
+  leave_type: LeaveType;
+  year: number;
+  accrued: number | null; // accrued so far this year; null for types without a balance
+  adjustments: number;
+  used: number;
+  pending: number;
+  available: number | null;
+}
+
+// Public holidays of a region, shared by the locations that observe them
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  created_at: string;
+  locations?: { id: string; name: string }[];
+  _count?: { holidays: number };
+}
+
+export interface Holiday {
+  id: string;
+  calendar_id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  uid: string | null; // iCalendar event it was imported from
+}
+
+// A holiday as it applies to one of the user's locations
+export interface ObservedHoliday {
+  date: string;
+  name: string;
+  location_id: string;
+  location_name: string;
+}
+
+export interface HolidayImportResult {
+  dry_run: boolean;
+  holidays: { date: string; name: string }[];
+  created: number;
+  updated: number;
+  errors: { index: number; name?: string; error: string }[];
+}
+
+// One administrative action from the server's append-only audit log
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string; // e.g. user.delete, location.update
+  target_type: string;
+  target_id: string | null;
+  before: Record<string, unknown> | null; // changed fields for updates, whole record for deletes
+  after: Record<string, unknown> | null; // changed fields for updates, whole record for creates
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export type AttendanceExceptionType = 'late_arrival' | 'early_leave' | 'no_show' | 'missing_check_out';
+
+// A deviation from the schedule found by the server's exception engine
+export interface AttendanceException {
+  id: string;
+  user_id: string;
+  location_id: string | null;
+  schedule_id: string | null;
+  session_id: string | null;
+  type: AttendanceExceptionType;
+  date: string; // YYYY-MM-DD
+  expected_at: string | null;
+  actual_at: string | null;
+  minutes: number | null;
+  location?: { id: string; name: string } | null;
+  user?: Pick<Profile, 'id' | 'email' | 'full_name'>;
+}
+
 export interface LocationState {
   coordinates: Coordinates | null;
   isWithinFence: boolean;
@@ -38,22 +253,40 @@ export interface SavedLocation {
   created_at?: string;
 }
 
+// GeoJSON ring of [longitude, latitude] pairs, first and last point equal
+export type PolygonRing = [number, number][];
+
+export type LocationBoundary =
+  | { type: 'Polygon'; coordinates: PolygonRing[] }
+  | { type: 'MultiPolygon'; coordinates: PolygonRing[][] };
+
+export type AutoCheckOutPolicy = 'none' | 'fixed_time' | 'after_hours' | 'shift_end';
+
 export interface Location {
   id?: string;
   name: string;
   latitude: number;
   longitude: number;
   radius_meters: number;
+  boundary?: LocationBoundary | null; // when set, replaces the center/radius circle
+  grace_minutes?: number | null;
+  paid_break_minutes?: number; // break time per session still counted as work
+  auto_check_out?: AutoCheckOutPolicy;
+  auto_check_out_minute?: number | null; // fixed_time: minutes after local midnight
+  auto_check_out_hours?: number | null; // after_hours, and shift_end without a matching shift
+  archived_at?: string | null; // no new check-ins; still shown in historical reports
+  holiday_calendar_id?: string | null; // public holidays observed here
   created_by: string;
   created_at?: string;
 }
 
 export interface NearbyLocation extends Location {
-  distance: number;
+  distance: number; // from the location's center
+  distanceOutside: number; // from the fence edge, 0 when inside
   isInside: boolean;
 }
 
-export type UserRole = 'employee' | 'admin';
+export type UserRole = 'employee' | 'manager' | 'admin';
 
 export interface Profile {
   id: string;
@@ -62,5 +295,49 @@ export interface Profile {
   role: UserRole;
   device_id?: string;
   device_reset_requested?: boolean;
+  invite_pending?: boolean; // invited but hasn't set a password yet
+  locked_until?: string | null; // set after failed logins
+  deactivated_at?: string | null; // can't sign in; history is kept
+  totp_enabled?: boolean;
+  totp_required?: boolean; // admin 2FA is mandatory and must be set up before using admin features
+  teams?: { id: string; name: string }[];
+  organization?: { id: string; name: string; timezone: string };
+  super_admin?: boolean; // may create organizations
+  created_at?: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  created_at: string;
+  _count?: { users: number; locations: number };
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  teams: { id: string; name: string }[];
   created_at?: string;
 }
+
+export interface Team {
+  id: string;
+  name: string;
+  department_id: string | null;
+  department: { id: string; name: string } | null;
+  members: Pick<Profile, 'id' | 'email' | 'full_name' | 'role'>[];
+  created_at?: string;
+}
+
+// Headcount and worked time for a department or team over a date range
+export interface GroupReport {
+  id: string | null;
+  name: string;
+  headcount: number;
+  minutes: number;
+  sessions: number;
+}
+
+export interface DepartmentReport extends GroupReport {
+  teams: GroupReport[];
+}
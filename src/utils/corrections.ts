@@ -0,0 +1,47 @@
+import { AttendanceStatus, CorrectionRequest } from '../types';
+
+export const PUNCH_STATUS_NAMES: Record<AttendanceStatus, string> = {
+  check_in: 'check-in',
+  check_out: 'check-out',
+  break_start: 'break start',
+  break_end: 'break end',
+};
+
+export function formatCorrectionTime(timestamp: string): string {
+  const d = new Date(timestamp);
+  return `${d.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * "YYYY-MM-DD HH:MM" in the device's time zone, or null when malformed
+ */
+export function parseLocalDateTime(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(year, month - 1, day, hour, minute);
+  // Reject dates the Date constructor silently rolled over, like 2024-02-31
+  return date.getMonth() === month - 1 && date.getDate() === day && hour < 24 && minute < 60 ? date : null;
+}
+
+export function toLocalDateTimeInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// One-line summary of what a correction request changes
+export function describeCorrection(correction: CorrectionRequest): string {
+  const original = correction.attendance;
+  const originalName = original ? PUNCH_STATUS_NAMES[original.status] : 'punch';
+
+  switch (correction.type) {
+    case 'add_punch':
+      return `Add missing ${PUNCH_STATUS_NAMES[correction.punch_status!]} at ${correction.location?.name || 'unknown location'}, ${formatCorrectionTime(correction.timestamp!)}`;
+    case 'change_time':
+      return `Move ${originalName}${original ? ` of ${formatCorrectionTime(original.timestamp)}` : ''} to ${formatCorrectionTime(correction.timestamp!)}`;
+    case 'change_location':
+      return `Change ${originalName}${original ? ` of ${formatCorrectionTime(original.timestamp)}` : ''} from ${original?.location?.name || 'unknown location'} to ${correction.location?.name || 'unknown location'}`;
+  }
+}
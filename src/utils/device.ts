@@ -0,0 +1,62 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateUuid } from './uuid';
+
+// Only import expo-application on native platforms
+let Application: any = null;
+if (Platform.OS !== 'web') {
+  Application = require('expo-application');
+}
+
+const DEVICE_ID_KEY = 'geo_attendance_device_id';
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Returns a stable identifier for this device. The server binds employee accounts
+ * to it, so it must not change between calls or app launches.
+ */
+export async function getDeviceId(): Promise<string> {
+  if (cachedDeviceId) {
+    return cachedDeviceId;
+  }
+
+  try {
+    if (Platform.OS === 'ios' && Application) {
+      cachedDeviceId = await Application.getIosIdForVendorAsync();
+    } else if (Platform.OS === 'android' && Application) {
+      cachedDeviceId = Application.getAndroidId();
+    }
+  } catch (err) {
+    console.error('Error getting device ID:', err);
+  }
+
+  if (!cachedDeviceId) {
+    cachedDeviceId = await getStoredDeviceId();
+  }
+
+  return cachedDeviceId;
+}
+
+// Fallback for web (and native builds without a vendor id): a random id persisted locally
+async function getStoredDeviceId(): Promise<string> {
+  try {
+    const stored = Platform.OS === 'web'
+      ? window.localStorage.getItem(DEVICE_ID_KEY)
+      : await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      return stored;
+    }
+
+    const deviceId = `${Platform.OS}_${generateUuid()}`;
+    if (Platform.OS === 'web') {
+      window.localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    } else {
+      await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch (err) {
+    console.error('Error storing device ID:', err);
+    return `fallback_${generateUuid()}`;
+  }
+}
@@ -1,38 +1,17 @@
-import { Coordinates, GeoFence } from '../types';
+import { Coordinates, GeoFence, Location, LocationBoundary, PolygonRing } from '../types';
+import {
+  boundaryPolygons,
+  calculateDistance,
+  isWithinFence,
+} from '../../server/src/shared/geofencing';
 
-const EARTH_RADIUS_METERS = 6371000;
-
-/**
- * Converts degrees to radians
- */
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
-/**
- * Calculates the distance between two coordinates using the Haversine formula
- * @returns Distance in meters
- */
-export function calculateDistance(
-  point1: Coordinates,
-  point2: Coordinates
-): number {
-  const lat1Rad = toRadians(point1.latitude);
-  const lat2Rad = toRadians(point2.latitude);
-  const deltaLat = toRadians(point2.latitude - point1.latitude);
-  const deltaLon = toRadians(point2.longitude - point1.longitude);
-
-  const a =
-    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-    Math.cos(lat1Rad) *
-      Math.cos(lat2Rad) *
-      Math.sin(deltaLon / 2) *
-      Math.sin(deltaLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return EARTH_RADIUS_METERS * c;
-}
+// Distance, polygon and boundary math is the server's, so the app and the API agree on every punch
+export {
+  calculateDistance,
+  getDistanceOutsideBoundary,
+  getDistanceOutsideLocation,
+  isWithinBoundary,
+} from '../../server/src/shared/geofencing';
 
 /**
  * Checks if a point is within a geofence
@@ -90,3 +69,38 @@ export function getGeofenceStatus(
       : `You are ${formatDistance(distance - geofence.radiusMeters)} outside ${geofence.name}`,
   };
 }
+
+/**
+ * Checks if a point is inside a location, using its polygon boundary when
+ * it has one and its center/radius circle otherwise
+ */
+export function isInsideLocation(point: Coordinates, location: Location): boolean {
+  return isWithinFence(point, location);
+}
+
+/**
+ * Builds a GeoJSON boundary from vertices dropped on the map or walked on site.
+ * Parts with fewer than 3 vertices are ignored.
+ */
+export function buildBoundary(parts: Coordinates[][]): LocationBoundary | null {
+  const polygons: PolygonRing[][] = parts
+    .filter((vertices) => vertices.length >= 3)
+    .map((vertices) => {
+      const ring: PolygonRing = vertices.map((v) => [v.longitude, v.latitude]);
+      ring.push(ring[0]); // GeoJSON rings are closed
+      return [ring];
+    });
+
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] };
+  return { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Splits a boundary back into editable vertex lists (outer rings only)
+ */
+export function boundaryToParts(boundary: LocationBoundary): Coordinates[][] {
+  return boundaryPolygons(boundary).map(([outer]) =>
+    outer.slice(0, -1).map(([longitude, latitude]) => ({ latitude, longitude }))
+  );
+}